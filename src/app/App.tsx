@@ -2,9 +2,12 @@ import React, { useEffect, useState } from 'react';
 import { StatusBar } from 'expo-status-bar';
 import { View, ActivityIndicator } from 'react-native';
 import { SafeAreaProvider } from 'react-native-safe-area-context';
+import { GestureHandlerRootView } from 'react-native-gesture-handler';
 import { RootNavigator } from '@/core/navigation/RootNavigator';
-import { initDatabase } from '@/core/database';
-import { colors } from '@/core/theme';
+import { initDatabase, SCHEMA_DOWNGRADE_ERROR } from '@/core/database';
+import { useAuthStore } from '@/features/auth/store/authStore';
+import { colors, spacing } from '@/core/theme';
+import Text from '@/shared/components/Text';
 
 /**
  * TrynerApp - MVP
@@ -13,21 +16,46 @@ import { colors } from '@/core/theme';
  */
 export default function App() {
   const [isDbReady, setIsDbReady] = useState(false);
+  const [dbError, setDbError] = useState<string | null>(null);
 
   useEffect(() => {
     const setupDatabase = async () => {
       try {
         await initDatabase();
         console.log('Database initialized successfully');
+
+        // Restore the previous login before the first navigator render
+        try {
+          await useAuthStore.getState().restoreSession();
+        } catch (error) {
+          // Not fatal: the user just signs in again
+          console.error('Failed to restore session:', error);
+        }
+
         setIsDbReady(true);
       } catch (error) {
         console.error('Failed to initialize database:', error);
+        setDbError(
+          error instanceof Error && error.message.startsWith(SCHEMA_DOWNGRADE_ERROR)
+            ? 'Los datos guardados son de una versión más reciente de la app. Actualízala para continuar.'
+            : 'No se pudo abrir la base de datos. Reinicia la app.'
+        );
       }
     };
 
     setupDatabase();
   }, []);
 
+  if (dbError) {
+    return (
+      <View style={{ flex: 1, justifyContent: 'center', alignItems: 'center', padding: spacing.lg }}>
+        <Text variant="body" color="error" style={{ textAlign: 'center' }}>
+          {dbError}
+        </Text>
+      </View>
+    );
+  }
+
   if (!isDbReady) {
     return (
       <View style={{ flex: 1, justifyContent: 'center', alignItems: 'center' }}>
@@ -37,9 +65,11 @@ export default function App() {
   }
 
   return (
-    <SafeAreaProvider>
-      <RootNavigator />
-      <StatusBar style="auto" />
-    </SafeAreaProvider>
+    <GestureHandlerRootView style={{ flex: 1 }}>
+      <SafeAreaProvider>
+        <RootNavigator />
+        <StatusBar style="auto" />
+      </SafeAreaProvider>
+    </GestureHandlerRootView>
   );
 }
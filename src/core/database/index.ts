@@ -1,7 +1,9 @@
 import * as SQLite from 'expo-sqlite';
-import { createTablesSQL, seedDataSQL, SCHEMA_VERSION } from './schema';
-import { User, CreateUserInput } from './types';
+import { seedDataSQL } from './schema';
+import { runMigrations } from './migrations';
+import { User, CreateUserInput, Exercise, AuthSession } from './types';
 import { setDatabase } from './workoutOperations';
+import { hashPassword, verifyPassword, needsRehash, generateToken } from './passwordHashing';
 
 const DB_NAME = 'trynerapp.db';
 
@@ -16,9 +18,9 @@ export const initDatabase = async (): Promise<void> => {
 
     console.log('Database opened successfully');
 
-    // Create tables
-    await db.execAsync(createTablesSQL);
-    console.log('Tables created successfully');
+    // Create / upgrade tables (throws on downgrade)
+    await runMigrations(db);
+    console.log('Schema up to date');
 
     // Seed initial data
     await db.execAsync(seedDataSQL);
@@ -51,20 +53,10 @@ const generateId = (): string => {
 };
 
 /**
- * Hash password (simple implementation for MVP - in production use bcrypt or similar)
+ * Stand-in hash for unknown emails, so a failed lookup costs the same
+ * PBKDF2 work as a wrong password (no account enumeration by timing)
  */
-const hashPassword = (password: string): string => {
-  // TODO: Implement proper password hashing in production
-  // For MVP, we'll use a simple hash (NOT SECURE FOR PRODUCTION)
-  return btoa(password);
-};
-
-/**
- * Verify password
- */
-const verifyPassword = (password: string, hashedPassword: string): boolean => {
-  return hashPassword(password) === hashedPassword;
-};
+let dummyPasswordHash: string | null = null;
 
 // ============= USER OPERATIONS =============
 
@@ -165,6 +157,8 @@ export const loginUser = async (
     const user = await getUserByEmail(email);
 
     if (!user) {
+      dummyPasswordHash ??= hashPassword('');
+      verifyPassword(password, dummyPasswordHash);
       return null;
     }
 
@@ -174,6 +168,11 @@ export const loginUser = async (
       return null;
     }
 
+    // Transparently upgrade legacy (btoa) or weaker hashes
+    if (needsRehash(user.password)) {
+      await upgradePasswordHash(user.id, password);
+    }
+
     // Don't return the password
     const { password: _, ...userWithoutPassword } = user;
     return userWithoutPassword as User;
@@ -183,6 +182,23 @@ export const loginUser = async (
   }
 };
 
+/**
+ * Replace a user's stored hash after a successful login.
+ * Failure is logged, not thrown: the old hash still verifies, so the
+ * upgrade is simply retried on the next login.
+ */
+const upgradePasswordHash = async (userId: string, password: string): Promise<void> => {
+  try {
+    await getDb().runAsync(
+      'UPDATE users SET password = ?, updated_at = ? WHERE id = ?',
+      [hashPassword(password), Date.now(), userId]
+    );
+    console.log('Password hash upgraded:', userId);
+  } catch (error) {
+    console.error('Error upgrading password hash:', error);
+  }
+};
+
 /**
  * Update user profile
  */
@@ -229,17 +245,19 @@ export const emailExists = async (email: string): Promise<boolean> => {
 };
 
 /**
- * Update user profile (onboarding data)
- * Maps camelCase to snake_case for database fields
+ * Update user profile (onboarding / profile screen data)
+ * Maps camelCase to snake_case for database fields.
+ * undefined leaves a field unchanged; null clears it.
  */
 export const updateUserProfile = async (
   userId: string,
   updates: {
-    age?: number;
-    weight?: number;
-    height?: number;
-    fitnessLevel?: string;
-    goal?: string;
+    name?: string;
+    age?: number | null;
+    weight?: number | null;
+    height?: number | null;
+    fitnessLevel?: string | null;
+    goal?: string | null;
   }
 ): Promise<void> => {
   const database = getDb();
@@ -250,6 +268,10 @@ export const updateUserProfile = async (
     const values: any[] = [];
 
     // Map camelCase to snake_case for database
+    if (updates.name !== undefined) {
+      fields.push('name = ?');
+      values.push(updates.name);
+    }
     if (updates.age !== undefined) {
       fields.push('age = ?');
       values.push(updates.age);
@@ -291,16 +313,138 @@ export const updateUserProfile = async (
   }
 };
 
+// ============= SESSION OPERATIONS =============
+
+/**
+ * Session lifetime; restoring a session slides the expiry forward
+ */
+const SESSION_DURATION_MS = 30 * 24 * 60 * 60 * 1000;
+
+/**
+ * Start a login session on this device
+ * Any other active session is revoked: one signed-in user per device.
+ */
+export const createAuthSession = async (
+  userId: string,
+  deviceLabel?: string
+): Promise<AuthSession> => {
+  const database = getDb();
+  const now = Date.now();
+
+  const session: AuthSession = {
+    token: generateToken(),
+    user_id: userId,
+    device_label: deviceLabel,
+    created_at: now,
+    last_used_at: now,
+    expires_at: now + SESSION_DURATION_MS,
+  };
+
+  try {
+    await database.withTransactionAsync(async () => {
+      await database.runAsync(
+        'UPDATE auth_sessions SET revoked_at = ? WHERE revoked_at IS NULL',
+        [now]
+      );
+      await database.runAsync(
+        `INSERT INTO auth_sessions (token, user_id, device_label, created_at, last_used_at, expires_at)
+         VALUES (?, ?, ?, ?, ?, ?)`,
+        [
+          session.token,
+          session.user_id,
+          session.device_label || null,
+          session.created_at,
+          session.last_used_at,
+          session.expires_at,
+        ]
+      );
+    });
+
+    console.log('Auth session created for user:', userId);
+    return session;
+  } catch (error) {
+    console.error('Error creating auth session:', error);
+    throw error;
+  }
+};
+
+/**
+ * Restore the active session on this device (app start)
+ *
+ * @returns The session (expiry extended) and its user without password,
+ * or null if there is no unexpired, unrevoked session
+ */
+export const restoreAuthSession = async (): Promise<{ session: AuthSession; user: User } | null> => {
+  const database = getDb();
+  const now = Date.now();
+
+  try {
+    const session = await database.getFirstAsync<AuthSession>(
+      `SELECT * FROM auth_sessions
+       WHERE revoked_at IS NULL AND expires_at > ?
+       ORDER BY created_at DESC
+       LIMIT 1`,
+      [now]
+    );
+
+    if (!session) {
+      return null;
+    }
+
+    const user = await getUserById(session.user_id);
+
+    if (!user) {
+      await revokeAuthSession(session.token);
+      return null;
+    }
+
+    const expiresAt = now + SESSION_DURATION_MS;
+    await database.runAsync(
+      'UPDATE auth_sessions SET last_used_at = ?, expires_at = ? WHERE token = ?',
+      [now, expiresAt, session.token]
+    );
+
+    // Don't return the password
+    const { password: _, ...userWithoutPassword } = user;
+    return {
+      session: { ...session, last_used_at: now, expires_at: expiresAt },
+      user: userWithoutPassword as User,
+    };
+  } catch (error) {
+    console.error('Error restoring auth session:', error);
+    throw error;
+  }
+};
+
+/**
+ * Revoke a session (logout). Revoked tokens are never restored.
+ */
+export const revokeAuthSession = async (token: string): Promise<void> => {
+  const database = getDb();
+
+  try {
+    await database.runAsync(
+      'UPDATE auth_sessions SET revoked_at = ? WHERE token = ? AND revoked_at IS NULL',
+      [Date.now(), token]
+    );
+
+    console.log('Auth session revoked');
+  } catch (error) {
+    console.error('Error revoking auth session:', error);
+    throw error;
+  }
+};
+
 // ============= EXERCISE OPERATIONS =============
 
 /**
  * Get all exercises
  */
-export const getAllExercises = async () => {
+export const getAllExercises = async (): Promise<Exercise[]> => {
   const database = getDb();
 
   try {
-    const exercises = await database.getAllAsync(
+    const exercises = await database.getAllAsync<Exercise>(
       'SELECT * FROM exercises ORDER BY name ASC'
     );
 
@@ -314,16 +458,16 @@ export const getAllExercises = async () => {
 /**
  * Get exercise by ID
  */
-export const getExerciseById = async (id: string) => {
+export const getExerciseById = async (id: string): Promise<Exercise | null> => {
   const database = getDb();
 
   try {
-    const exercise = await database.getFirstAsync(
+    const exercise = await database.getFirstAsync<Exercise>(
       'SELECT * FROM exercises WHERE id = ?',
       [id]
     );
 
-    return exercise;
+    return exercise || null;
   } catch (error) {
     console.error('Error getting exercise:', error);
     throw error;
@@ -332,3 +476,4 @@ export const getExerciseById = async (id: string) => {
 
 // Export database for direct access if needed
 export { db };
+export { SCHEMA_DOWNGRADE_ERROR } from './migrations';
@@ -0,0 +1,246 @@
+/**
+ * Database Migrations - Ordered Schema Upgrades
+ * TrynerApp - Core Database
+ *
+ * The applied schema version is stored in `PRAGMA user_version`
+ * (0 on a fresh database). On startup every migration with a version
+ * above it runs in order, each in its own transaction together with
+ * the version bump, so a failed migration leaves the previous version intact.
+ *
+ * Adding a schema change:
+ * 1. Append a migration with the next version number (never edit old ones)
+ * 2. Bump SCHEMA_VERSION in schema.ts to match
+ *
+ * A database newer than SCHEMA_VERSION (app downgrade) is refused
+ * instead of being opened with a schema this build doesn't know.
+ */
+
+import * as SQLite from 'expo-sqlite';
+import {
+  createTablesSQL,
+  createRepsTableSQL,
+  createAuthSessionsTableSQL,
+  addWorkoutPlanColumnsSQL,
+  addRestColumnsSQL,
+  addTempoColumnsSQL,
+  addVelocityLossColumnsSQL,
+  createDetectionCalibrationsTableSQL,
+  SCHEMA_VERSION,
+} from './schema';
+
+/** Message prefix of the error thrown when the database is newer than this app */
+export const SCHEMA_DOWNGRADE_ERROR = 'Database schema is newer than this app';
+
+export interface Migration {
+  version: number;
+  description: string;
+  up: (db: SQLite.SQLiteDatabase) => Promise<void>;
+}
+
+export const migrations: Migration[] = [
+  {
+    version: 1,
+    description: 'Initial schema (users, exercises, workout_sessions, exercise_sets)',
+    // IF NOT EXISTS: installs from before migrations already have these tables at user_version 0
+    up: async (db) => {
+      await db.execAsync(createTablesSQL);
+    },
+  },
+  {
+    version: 2,
+    description: 'Per-rep reps table, backfilled from exercise_sets.raw_data',
+    up: async (db) => {
+      await db.execAsync(createRepsTableSQL);
+      await backfillRepsFromRawData(db);
+    },
+  },
+  {
+    version: 3,
+    description: 'auth_sessions table for persistent logins',
+    up: async (db) => {
+      await db.execAsync(createAuthSessionsTableSQL);
+    },
+  },
+  {
+    version: 4,
+    description: 'Workout plan columns on workout_sessions (resume unfinished sessions)',
+    up: async (db) => {
+      await db.execAsync(addWorkoutPlanColumnsSQL);
+    },
+  },
+  {
+    version: 5,
+    description: 'Planned and actual rest between sets',
+    up: async (db) => {
+      await db.execAsync(addRestColumnsSQL);
+    },
+  },
+  {
+    version: 6,
+    description: 'Tempo features and scores',
+    up: async (db) => {
+      await db.execAsync(addTempoColumnsSQL);
+    },
+  },
+  {
+    version: 7,
+    description: 'Velocity loss per set',
+    up: async (db) => {
+      await db.execAsync(addVelocityLossColumnsSQL);
+    },
+  },
+  {
+    version: 8,
+    description: 'detection_calibrations table for per-user thresholds',
+    up: async (db) => {
+      await db.execAsync(createDetectionCalibrationsTableSQL);
+    },
+  },
+];
+
+/**
+ * Read the applied schema version
+ */
+export const getSchemaVersion = async (db: SQLite.SQLiteDatabase): Promise<number> => {
+  const row = await db.getFirstAsync<{ user_version: number }>('PRAGMA user_version');
+  return row?.user_version ?? 0;
+};
+
+/**
+ * Bring the database up to SCHEMA_VERSION
+ *
+ * @param db - Open database
+ * @returns Version the database was at before migrating
+ * @throws Error if the database is newer than this app, or a migration fails
+ */
+export const runMigrations = async (db: SQLite.SQLiteDatabase): Promise<number> => {
+  validateMigrations();
+
+  const currentVersion = await getSchemaVersion(db);
+
+  if (currentVersion > SCHEMA_VERSION) {
+    throw new Error(
+      `${SCHEMA_DOWNGRADE_ERROR}: version ${currentVersion}, app supports ${SCHEMA_VERSION}`
+    );
+  }
+
+  const pending = migrations.filter((m) => m.version > currentVersion);
+
+  for (const migration of pending) {
+    console.log(`Running migration ${migration.version}: ${migration.description}`);
+
+    try {
+      await db.withTransactionAsync(async () => {
+        await migration.up(db);
+        // PRAGMA doesn't take bound parameters; version is a validated integer
+        await db.execAsync(`PRAGMA user_version = ${migration.version}`);
+      });
+    } catch (error) {
+      console.error(`Migration ${migration.version} failed:`, error);
+      throw error;
+    }
+  }
+
+  if (pending.length > 0) {
+    console.log(`Database migrated from version ${currentVersion} to ${SCHEMA_VERSION}`);
+  }
+
+  return currentVersion;
+};
+
+// ============= MIGRATION HELPERS =============
+// Written against the schema of their own version; never reuse app-level
+// write functions here, they follow the latest schema.
+
+/**
+ * Migration 2: copy every rep from the raw_data JSON of existing sets.
+ * raw_data is left in place; sets with unparseable JSON are skipped.
+ */
+const backfillRepsFromRawData = async (db: SQLite.SQLiteDatabase): Promise<void> => {
+  const sets = await db.getAllAsync<{ id: string; raw_data: string; created_at: number }>(
+    `SELECT id, raw_data, created_at FROM exercise_sets WHERE raw_data IS NOT NULL`
+  );
+
+  let repCount = 0;
+
+  for (const set of sets) {
+    let reps: unknown;
+    try {
+      reps = JSON.parse(set.raw_data);
+    } catch {
+      console.warn(`Skipping reps backfill for set ${set.id}: invalid raw_data`);
+      continue;
+    }
+    if (!Array.isArray(reps)) continue;
+
+    for (let i = 0; i < reps.length; i++) {
+      const rep = reps[i] ?? {};
+      const features = rep.features ?? {};
+      const score = rep.score ?? {};
+
+      await db.runAsync(
+        `INSERT OR IGNORE INTO reps (
+          id, set_id, rep_number, timestamp, duration, depth, is_valid,
+          descend_duration, ascend_duration, total_duration,
+          depth_score, stability_score, range_score,
+          peak_magnitude, valley_magnitude, magnitude_change, z_axis_change,
+          concentric_duration, eccentric_duration, top_pause_duration, hang_pause_duration,
+          score_overall, score_depth, score_stability, score_consistency, score_technique,
+          created_at
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          `${set.id}-rep-${i + 1}`,
+          set.id,
+          i + 1,
+          rep.timestamp ?? 0,
+          rep.duration ?? null,
+          rep.depth ?? null,
+          rep.isValid === false ? 0 : 1,
+          features.descendDuration ?? null,
+          features.ascendDuration ?? null,
+          features.totalDuration ?? null,
+          features.depthScore ?? null,
+          features.stabilityScore ?? null,
+          features.rangeScore ?? null,
+          features.peakMagnitude ?? null,
+          features.valleyMagnitude ?? null,
+          features.magnitudeChange ?? null,
+          features.zAxisChange ?? null,
+          features.concentricDuration ?? null,
+          features.eccentricDuration ?? null,
+          features.topPauseDuration ?? null,
+          features.hangPauseDuration ?? null,
+          score.overall ?? null,
+          score.depth ?? null,
+          score.stability ?? null,
+          score.consistency ?? null,
+          score.technique ?? null,
+          set.created_at,
+        ]
+      );
+      repCount++;
+    }
+  }
+
+  console.log(`Backfilled ${repCount} reps from ${sets.length} sets`);
+};
+
+/**
+ * Check the migration list is 1..SCHEMA_VERSION with no gaps
+ */
+const validateMigrations = (): void => {
+  migrations.forEach((migration, index) => {
+    if (migration.version !== index + 1) {
+      throw new Error(
+        `Migrations out of order: expected version ${index + 1}, found ${migration.version}`
+      );
+    }
+  });
+
+  const latest = migrations.length;
+  if (latest !== SCHEMA_VERSION) {
+    throw new Error(
+      `SCHEMA_VERSION (${SCHEMA_VERSION}) does not match the latest migration (${latest})`
+    );
+  }
+};
@@ -0,0 +1,329 @@
+/**
+ * Password Hashing - PBKDF2-HMAC-SHA256
+ * TrynerApp - Database
+ *
+ * Pure TypeScript hashing (no native PBKDF2 is available); random bytes
+ * come from expo-crypto, since Hermes has no crypto.getRandomValues.
+ *
+ * Stored format (salt and work factor travel with the hash):
+ *   pbkdf2_sha256$<iterations>$<salt hex>$<hash hex>
+ *
+ * Accounts created before this module stored btoa(password). Those
+ * legacy values still verify, and needsRehash() flags them so the caller
+ * can replace them after a successful login.
+ */
+
+import { getRandomValues } from 'expo-crypto';
+
+// ============= CONFIG =============
+
+const ALGORITHM = 'pbkdf2_sha256';
+
+/**
+ * Work factor for new hashes. Bounded by the cost of pure-JS hashing on the
+ * JS thread; raising it upgrades existing hashes on their next login.
+ */
+export const PBKDF2_ITERATIONS = 10000;
+
+const SALT_BYTES = 16;
+const KEY_BYTES = 32;
+
+// ============= PUBLIC API =============
+
+/**
+ * Hash a password with a fresh random salt
+ *
+ * @returns Encoded hash, ready to store in users.password
+ */
+export const hashPassword = (password: string): string => {
+  const salt = randomBytes(SALT_BYTES);
+  const key = pbkdf2Sha256(utf8Encode(password), salt, PBKDF2_ITERATIONS, KEY_BYTES);
+  return `${ALGORITHM}$${PBKDF2_ITERATIONS}$${toHex(salt)}$${toHex(key)}`;
+};
+
+/**
+ * Verify a password against a stored hash (PBKDF2 or legacy btoa)
+ * Comparison is constant-time with respect to the stored value.
+ */
+export const verifyPassword = (password: string, storedHash: string): boolean => {
+  const parsed = parseHash(storedHash);
+
+  if (!parsed) {
+    return verifyLegacyPassword(password, storedHash);
+  }
+
+  const key = pbkdf2Sha256(utf8Encode(password), parsed.salt, parsed.iterations, parsed.key.length);
+  return constantTimeEqual(key, parsed.key);
+};
+
+/**
+ * Whether a stored hash should be replaced (legacy format or weaker work factor)
+ */
+export const needsRehash = (storedHash: string): boolean => {
+  const parsed = parseHash(storedHash);
+  return !parsed || parsed.iterations < PBKDF2_ITERATIONS;
+};
+
+/**
+ * Random opaque token (hex), e.g. for login sessions
+ */
+export const generateToken = (bytes: number = 32): string => toHex(randomBytes(bytes));
+
+// ============= ENCODING =============
+
+interface ParsedHash {
+  iterations: number;
+  salt: Uint8Array;
+  key: Uint8Array;
+}
+
+const parseHash = (storedHash: string): ParsedHash | null => {
+  const parts = storedHash.split('$');
+  if (parts.length !== 4 || parts[0] !== ALGORITHM) {
+    return null;
+  }
+
+  const iterations = Number(parts[1]);
+  const salt = fromHex(parts[2]);
+  const key = fromHex(parts[3]);
+
+  if (!Number.isInteger(iterations) || iterations < 1 || !salt || !key || key.length === 0) {
+    return null;
+  }
+
+  return { iterations, salt, key };
+};
+
+/**
+ * Pre-PBKDF2 accounts: users.password = btoa(password)
+ */
+const verifyLegacyPassword = (password: string, storedHash: string): boolean => {
+  let legacyHash: string;
+  try {
+    legacyHash = btoa(password);
+  } catch {
+    // btoa rejects non-Latin1 input, so no legacy account can have this password
+    return false;
+  }
+  return constantTimeEqual(utf8Encode(legacyHash), utf8Encode(storedHash));
+};
+
+/**
+ * Compare without early exit, so timing does not reveal the matching prefix
+ */
+const constantTimeEqual = (a: Uint8Array, b: Uint8Array): boolean => {
+  const length = Math.max(a.length, b.length);
+  let diff = a.length ^ b.length;
+  for (let i = 0; i < length; i++) {
+    diff |= (a[i] ?? 0) ^ (b[i] ?? 0);
+  }
+  return diff === 0;
+};
+
+/**
+ * Cryptographically secure random bytes (salts and session tokens)
+ * Never falls back to Math.random: tokens must not be guessable.
+ */
+const randomBytes = (length: number): Uint8Array => getRandomValues(new Uint8Array(length));
+
+const utf8Encode = (text: string): Uint8Array => {
+  const bytes: number[] = [];
+  for (const char of text) {
+    const codePoint = char.codePointAt(0)!;
+    if (codePoint < 0x80) {
+      bytes.push(codePoint);
+    } else if (codePoint < 0x800) {
+      bytes.push(0xc0 | (codePoint >> 6), 0x80 | (codePoint & 0x3f));
+    } else if (codePoint < 0x10000) {
+      bytes.push(0xe0 | (codePoint >> 12), 0x80 | ((codePoint >> 6) & 0x3f), 0x80 | (codePoint & 0x3f));
+    } else {
+      bytes.push(
+        0xf0 | (codePoint >> 18),
+        0x80 | ((codePoint >> 12) & 0x3f),
+        0x80 | ((codePoint >> 6) & 0x3f),
+        0x80 | (codePoint & 0x3f)
+      );
+    }
+  }
+  return new Uint8Array(bytes);
+};
+
+const toHex = (bytes: Uint8Array): string =>
+  Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
+
+const fromHex = (hex: string): Uint8Array | null => {
+  if (hex.length % 2 !== 0 || !/^[0-9a-f]*$/i.test(hex)) {
+    return null;
+  }
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(hex.substr(i * 2, 2), 16);
+  }
+  return bytes;
+};
+
+// ============= SHA-256 / HMAC / PBKDF2 =============
+
+const SHA256_K = new Uint32Array([
+  0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1, 0x923f82a4, 0xab1c5ed5,
+  0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3, 0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174,
+  0xe49b69c1, 0xefbe4786, 0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+  0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147, 0x06ca6351, 0x14292967,
+  0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13, 0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85,
+  0xa2bfe8a1, 0xa81a664b, 0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+  0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a, 0x5b9cca4f, 0x682e6ff3,
+  0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208, 0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2,
+]);
+
+const SHA256_INIT = new Uint32Array([
+  0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19,
+]);
+
+const BLOCK_BYTES = 64;
+
+/**
+ * SHA-256 compression of one 64-byte block into state (in place)
+ */
+const sha256Block = (state: Uint32Array, block: Uint8Array, offset: number, w: Uint32Array): void => {
+  for (let i = 0; i < 16; i++) {
+    const j = offset + i * 4;
+    w[i] = (block[j] << 24) | (block[j + 1] << 16) | (block[j + 2] << 8) | block[j + 3];
+  }
+  for (let i = 16; i < 64; i++) {
+    const w15 = w[i - 15];
+    const w2 = w[i - 2];
+    const s0 = ((w15 >>> 7) | (w15 << 25)) ^ ((w15 >>> 18) | (w15 << 14)) ^ (w15 >>> 3);
+    const s1 = ((w2 >>> 17) | (w2 << 15)) ^ ((w2 >>> 19) | (w2 << 13)) ^ (w2 >>> 10);
+    w[i] = (w[i - 16] + s0 + w[i - 7] + s1) | 0;
+  }
+
+  let a = state[0], b = state[1], c = state[2], d = state[3];
+  let e = state[4], f = state[5], g = state[6], h = state[7];
+
+  for (let i = 0; i < 64; i++) {
+    const S1 = ((e >>> 6) | (e << 26)) ^ ((e >>> 11) | (e << 21)) ^ ((e >>> 25) | (e << 7));
+    const ch = (e & f) ^ (~e & g);
+    const t1 = (h + S1 + ch + SHA256_K[i] + w[i]) | 0;
+    const S0 = ((a >>> 2) | (a << 30)) ^ ((a >>> 13) | (a << 19)) ^ ((a >>> 22) | (a << 10));
+    const maj = (a & b) ^ (a & c) ^ (b & c);
+    const t2 = (S0 + maj) | 0;
+
+    h = g;
+    g = f;
+    f = e;
+    e = (d + t1) | 0;
+    d = c;
+    c = b;
+    b = a;
+    a = (t1 + t2) | 0;
+  }
+
+  state[0] = (state[0] + a) | 0;
+  state[1] = (state[1] + b) | 0;
+  state[2] = (state[2] + c) | 0;
+  state[3] = (state[3] + d) | 0;
+  state[4] = (state[4] + e) | 0;
+  state[5] = (state[5] + f) | 0;
+  state[6] = (state[6] + g) | 0;
+  state[7] = (state[7] + h) | 0;
+};
+
+/**
+ * Continue a SHA-256 from a given state over `data`, where `prefixBytes`
+ * bytes were already absorbed into that state (used for HMAC pads)
+ */
+const sha256From = (initial: Uint32Array, prefixBytes: number, data: Uint8Array): Uint8Array => {
+  const state = new Uint32Array(initial);
+  const w = new Uint32Array(64);
+
+  const totalBytes = prefixBytes + data.length;
+  const paddedLength = Math.ceil((data.length + 9) / BLOCK_BYTES) * BLOCK_BYTES;
+  const padded = new Uint8Array(paddedLength);
+  padded.set(data);
+  padded[data.length] = 0x80;
+
+  // Message length in bits, big-endian (inputs here are far below 2^32 bits)
+  const bitLength = totalBytes * 8;
+  padded[paddedLength - 5] = Math.floor(bitLength / 2 ** 32) & 0xff;
+  padded[paddedLength - 4] = (bitLength >>> 24) & 0xff;
+  padded[paddedLength - 3] = (bitLength >>> 16) & 0xff;
+  padded[paddedLength - 2] = (bitLength >>> 8) & 0xff;
+  padded[paddedLength - 1] = bitLength & 0xff;
+
+  for (let offset = 0; offset < paddedLength; offset += BLOCK_BYTES) {
+    sha256Block(state, padded, offset, w);
+  }
+
+  const digest = new Uint8Array(32);
+  for (let i = 0; i < 8; i++) {
+    digest[i * 4] = state[i] >>> 24;
+    digest[i * 4 + 1] = (state[i] >>> 16) & 0xff;
+    digest[i * 4 + 2] = (state[i] >>> 8) & 0xff;
+    digest[i * 4 + 3] = state[i] & 0xff;
+  }
+  return digest;
+};
+
+const sha256 = (data: Uint8Array): Uint8Array => sha256From(SHA256_INIT, 0, data);
+
+/**
+ * HMAC-SHA256 with the key pads absorbed once, so each PBKDF2 iteration
+ * costs two compressions instead of four
+ */
+const createHmacSha256 = (key: Uint8Array): ((message: Uint8Array) => Uint8Array) => {
+  const blockKey = new Uint8Array(BLOCK_BYTES);
+  blockKey.set(key.length > BLOCK_BYTES ? sha256(key) : key);
+
+  const innerPad = new Uint8Array(BLOCK_BYTES);
+  const outerPad = new Uint8Array(BLOCK_BYTES);
+  for (let i = 0; i < BLOCK_BYTES; i++) {
+    innerPad[i] = blockKey[i] ^ 0x36;
+    outerPad[i] = blockKey[i] ^ 0x5c;
+  }
+
+  const w = new Uint32Array(64);
+  const innerState = new Uint32Array(SHA256_INIT);
+  const outerState = new Uint32Array(SHA256_INIT);
+  sha256Block(innerState, innerPad, 0, w);
+  sha256Block(outerState, outerPad, 0, w);
+
+  return (message) =>
+    sha256From(outerState, BLOCK_BYTES, sha256From(innerState, BLOCK_BYTES, message));
+};
+
+/**
+ * PBKDF2-HMAC-SHA256 (RFC 8018)
+ */
+const pbkdf2Sha256 = (
+  password: Uint8Array,
+  salt: Uint8Array,
+  iterations: number,
+  keyLength: number
+): Uint8Array => {
+  const hmac = createHmacSha256(password);
+  const output = new Uint8Array(keyLength);
+  const blockCount = Math.ceil(keyLength / 32);
+
+  const saltBlock = new Uint8Array(salt.length + 4);
+  saltBlock.set(salt);
+
+  for (let blockIndex = 1; blockIndex <= blockCount; blockIndex++) {
+    saltBlock[salt.length] = blockIndex >>> 24;
+    saltBlock[salt.length + 1] = (blockIndex >>> 16) & 0xff;
+    saltBlock[salt.length + 2] = (blockIndex >>> 8) & 0xff;
+    saltBlock[salt.length + 3] = blockIndex & 0xff;
+
+    let u = hmac(saltBlock);
+    const t = new Uint8Array(u);
+    for (let i = 1; i < iterations; i++) {
+      u = hmac(u);
+      for (let j = 0; j < t.length; j++) {
+        t[j] ^= u[j];
+      }
+    }
+
+    output.set(t.subarray(0, Math.min(32, keyLength - (blockIndex - 1) * 32)), (blockIndex - 1) * 32);
+  }
+
+  return output;
+};
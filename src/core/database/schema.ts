@@ -2,8 +2,15 @@
  * SQLite Database Schema for TrynerApp MVP
  */
 
-export const SCHEMA_VERSION = 1;
+/**
+ * Latest schema version; must equal the last entry in migrations.ts
+ */
+export const SCHEMA_VERSION = 8;
 
+/**
+ * Version 1 baseline, applied by migration 1.
+ * Don't edit: later schema changes go in new migrations.
+ */
 export const createTablesSQL = `
 -- Users table
 CREATE TABLE IF NOT EXISTS users (
@@ -66,6 +73,127 @@ CREATE INDEX IF NOT EXISTS idx_workout_sessions_user_id ON workout_sessions(user
 CREATE INDEX IF NOT EXISTS idx_exercise_sets_session_id ON exercise_sets(session_id);
 `;
 
+/**
+ * Version 2: one row per rep, replacing the exercise_sets.raw_data JSON blob.
+ * Applied by migration 2 (which also backfills from raw_data).
+ */
+export const createRepsTableSQL = `
+-- Reps table (rep_number is the 1-based position within the set)
+CREATE TABLE IF NOT EXISTS reps (
+  id TEXT PRIMARY KEY NOT NULL,
+  set_id TEXT NOT NULL,
+  rep_number INTEGER NOT NULL,
+  timestamp REAL NOT NULL,
+  duration REAL,
+  depth REAL,
+  is_valid INTEGER NOT NULL DEFAULT 1,
+  descend_duration REAL,
+  ascend_duration REAL,
+  total_duration REAL,
+  depth_score REAL,
+  stability_score REAL,
+  range_score REAL,
+  peak_magnitude REAL,
+  valley_magnitude REAL,
+  magnitude_change REAL,
+  z_axis_change REAL,
+  concentric_duration REAL,
+  eccentric_duration REAL,
+  top_pause_duration REAL,
+  hang_pause_duration REAL,
+  score_overall REAL,
+  score_depth REAL,
+  score_stability REAL,
+  score_consistency REAL,
+  score_technique TEXT,
+  created_at INTEGER NOT NULL,
+  UNIQUE (set_id, rep_number),
+  FOREIGN KEY (set_id) REFERENCES exercise_sets(id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_reps_set_id ON reps(set_id);
+`;
+
+/**
+ * Version 3: persistent login sessions, applied by migration 3.
+ */
+export const createAuthSessionsTableSQL = `
+-- Auth sessions (revoked_at is set on logout or when a newer login replaces it)
+CREATE TABLE IF NOT EXISTS auth_sessions (
+  token TEXT PRIMARY KEY NOT NULL,
+  user_id TEXT NOT NULL,
+  device_label TEXT,
+  created_at INTEGER NOT NULL,
+  last_used_at INTEGER NOT NULL,
+  expires_at INTEGER NOT NULL,
+  revoked_at INTEGER,
+  FOREIGN KEY (user_id) REFERENCES users(id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_auth_sessions_user_id ON auth_sessions(user_id);
+`;
+
+/**
+ * Version 4: workout plan on the session, applied by migration 4.
+ * Lets an unfinished session (ended_at IS NULL) be resumed after a crash.
+ */
+export const addWorkoutPlanColumnsSQL = `
+ALTER TABLE workout_sessions ADD COLUMN exercise_id TEXT REFERENCES exercises(id);
+ALTER TABLE workout_sessions ADD COLUMN planned_sets INTEGER;
+ALTER TABLE workout_sessions ADD COLUMN target_reps INTEGER;
+
+CREATE INDEX IF NOT EXISTS idx_workout_sessions_open ON workout_sessions(user_id, ended_at);
+`;
+
+/**
+ * Version 5: rest between sets, applied by migration 5.
+ * planned_rest is the configured rest (ms); rest_duration is the rest
+ * actually taken after that set (ms, null for the last set).
+ */
+export const addRestColumnsSQL = `
+ALTER TABLE workout_sessions ADD COLUMN planned_rest INTEGER;
+ALTER TABLE exercise_sets ADD COLUMN rest_duration REAL;
+`;
+
+/**
+ * Version 6: tempo scoring, applied by migration 6.
+ * exercise_sets.tempo_score is the average rep tempo score of the set.
+ */
+export const addTempoColumnsSQL = `
+ALTER TABLE reps ADD COLUMN pause_duration REAL;
+ALTER TABLE reps ADD COLUMN tempo_score REAL;
+ALTER TABLE reps ADD COLUMN score_tempo REAL;
+ALTER TABLE exercise_sets ADD COLUMN tempo_score REAL;
+`;
+
+/**
+ * Version 7: velocity loss (fatigue), applied by migration 7.
+ * velocity_loss_limit is the % loss that ends a set (null = never);
+ * exercise_sets.velocity_loss is the last rep's % loss vs the first reps.
+ */
+export const addVelocityLossColumnsSQL = `
+ALTER TABLE workout_sessions ADD COLUMN velocity_loss_limit REAL;
+ALTER TABLE exercise_sets ADD COLUMN velocity_loss REAL;
+ALTER TABLE reps ADD COLUMN concentric_speed REAL;
+`;
+
+/**
+ * Version 8: per-user detection calibration, applied by migration 8.
+ * config is a JSON object of detection config overrides for one
+ * sensor_profile, derived from the user's reference reps.
+ */
+export const createDetectionCalibrationsTableSQL = `
+CREATE TABLE IF NOT EXISTS detection_calibrations (
+  user_id TEXT NOT NULL,
+  sensor_profile TEXT NOT NULL,
+  config TEXT NOT NULL,
+  reference_reps INTEGER NOT NULL,
+  created_at INTEGER NOT NULL,
+  PRIMARY KEY (user_id, sensor_profile),
+  FOREIGN KEY (user_id) REFERENCES users(id)
+);
+`;
+
 export const seedDataSQL = `
 -- Seed initial exercise: Sentadillas
 INSERT OR IGNORE INTO exercises (id, name, description, muscle_group, difficulty, sensor_profile, created_at)
@@ -78,4 +206,28 @@ VALUES (
   'squat',
   ${Date.now()}
 );
+
+-- Seed exercise: Flexiones
+INSERT OR IGNORE INTO exercises (id, name, description, muscle_group, difficulty, sensor_profile, created_at)
+VALUES (
+  'pushup-001',
+  'Flexiones',
+  'Empuje en plancha desde brazos extendidos hasta el pecho cerca del suelo. Trabaja pecho, tríceps y hombros.',
+  'Pecho',
+  'Principiante',
+  'pushup',
+  ${Date.now()}
+);
+
+-- Seed exercise: Dominadas
+INSERT OR IGNORE INTO exercises (id, name, description, muscle_group, difficulty, sensor_profile, created_at)
+VALUES (
+  'pullup-001',
+  'Dominadas',
+  'Tirón vertical desde colgado hasta la barbilla sobre la barra. Trabaja dorsales, bíceps y core.',
+  'Espalda',
+  'Intermedio',
+  'pullup',
+  ${Date.now()}
+);
 `;
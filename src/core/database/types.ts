@@ -28,6 +28,11 @@ export interface WorkoutSession {
   started_at: number;
   ended_at?: number;
   total_score?: number;
+  exercise_id?: string;
+  planned_sets?: number;
+  target_reps?: number;
+  planned_rest?: number;
+  velocity_loss_limit?: number;
 }
 
 export interface ExerciseSet {
@@ -43,7 +48,20 @@ export interface ExerciseSet {
   range_score?: number;
   consistency_score?: number;
   raw_data?: string;
+  rest_duration?: number;
+  tempo_score?: number;
+  velocity_loss?: number;
+  created_at: number;
+}
+
+export interface AuthSession {
+  token: string;
+  user_id: string;
+  device_label?: string;
   created_at: number;
+  last_used_at: number;
+  expires_at: number;
+  revoked_at?: number;
 }
 
 // Helper type for creating users (without generated fields)
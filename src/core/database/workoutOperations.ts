@@ -7,10 +7,12 @@
  * Tables used:
  * - workout_sessions: Overall session metadata
  * - exercise_sets: Individual sets with reps and scores
+ * - reps: One row per rep with features and score breakdown
+ * - detection_calibrations: Per-user detection thresholds per sensor_profile
  */
 
 import * as SQLite from 'expo-sqlite';
-import { DetectedRep } from '@/motion-engine';
+import { DetectedRep, RepScore } from '@/motion-engine';
 
 // Database helper
 let db: SQLite.SQLiteDatabase | null = null;
@@ -33,8 +35,13 @@ export interface WorkoutSession {
   id: string;
   user_id: string;
   started_at: number;
-  ended_at: number | null;
+  ended_at: number | null;       // null while the workout is in progress (or was interrupted)
   total_score: number | null;
+  exercise_id: string | null;    // Workout plan (schema v4; null on older sessions)
+  planned_sets: number | null;
+  target_reps: number | null;
+  planned_rest: number | null;   // ms between sets (schema v5)
+  velocity_loss_limit: number | null; // % velocity loss that ends a set, null = never (schema v7)
 }
 
 export interface ExerciseSet {
@@ -49,7 +56,44 @@ export interface ExerciseSet {
   stability_score: number | null;
   range_score: number | null;
   consistency_score: number | null;
-  raw_data: string | null; // JSON stringified DetectedRep[]
+  raw_data: string | null; // Legacy JSON DetectedRep[] (sets saved before schema v2)
+  rest_duration: number | null; // Rest actually taken after this set (ms, schema v5)
+  tempo_score: number | null;   // Average rep tempo score (schema v6)
+  velocity_loss: number | null; // Last rep's % speed loss vs the first reps (schema v7)
+  created_at: number;
+}
+
+export interface StoredRep {
+  id: string;
+  set_id: string;
+  rep_number: number;            // 1-based position within the set
+  timestamp: number;             // Sensor clock (ms)
+  duration: number | null;
+  depth: number | null;
+  is_valid: number;              // SQLite boolean (0/1)
+  descend_duration: number | null;
+  ascend_duration: number | null;
+  total_duration: number | null;
+  pause_duration: number | null; // schema v6
+  concentric_speed: number | null; // G/s (schema v7)
+  depth_score: number | null;
+  stability_score: number | null;
+  range_score: number | null;
+  tempo_score: number | null;    // schema v6
+  peak_magnitude: number | null;
+  valley_magnitude: number | null;
+  magnitude_change: number | null;
+  z_axis_change: number | null;
+  concentric_duration: number | null;
+  eccentric_duration: number | null;
+  top_pause_duration: number | null;
+  hang_pause_duration: number | null;
+  score_overall: number | null;
+  score_depth: number | null;
+  score_stability: number | null;
+  score_consistency: number | null;
+  score_tempo: number | null;    // schema v6
+  score_technique: RepScore['technique'] | null;
   created_at: number;
 }
 
@@ -58,25 +102,68 @@ export interface WorkoutSessionWithSets extends WorkoutSession {
   exercise_name?: string;
 }
 
+export interface OpenWorkoutSession {
+  session: WorkoutSession;
+  exercise: { id: string; name: string; sensor_profile: string } | null;
+  sets: ExerciseSet[];
+  reps: StoredRep[];             // All sets, ordered by set then rep
+}
+
+export interface DetectionCalibration {
+  userId: string;
+  sensorProfile: string;
+  config: Record<string, number>; // Detection config overrides (e.g. minDepthThreshold)
+  referenceReps: number;          // Reps the values were derived from
+  createdAt: number;
+}
+
+export interface WorkoutHistoryFilters {
+  exerciseId?: string;           // Sessions with at least one set of this exercise
+  from?: number;                 // started_at >= from (ms since epoch)
+  to?: number;                   // started_at < to (ms since epoch)
+  offset?: number;               // Sessions to skip (pagination)
+}
+
 // ============= SESSION OPERATIONS =============
 
 /**
  * Create new workout session
  *
+ * The session stays open (ended_at NULL) until endWorkoutSession, so an
+ * interrupted workout can be found and resumed with getOpenWorkoutSession.
+ *
  * @param userId - User ID
  * @param exerciseId - Exercise ID (e.g., 'squat-001')
+ * @param plan - Planned sets, reps per set, rest and velocity-loss limit (needed to resume)
  * @returns Created session object
  */
 export async function createWorkoutSession(
   userId: string,
-  exerciseId: string
+  exerciseId: string,
+  plan?: {
+    plannedSets: number;
+    targetReps: number;
+    restDuration?: number;
+    velocityLossLimit?: number | null;
+  }
 ): Promise<WorkoutSession> {
   const sessionId = `session-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
   const startedAt = Date.now();
 
   await getDb().runAsync(
-    `INSERT INTO workout_sessions (id, user_id, started_at) VALUES (?, ?, ?)`,
-    [sessionId, userId, startedAt]
+    `INSERT INTO workout_sessions (
+      id, user_id, started_at, exercise_id, planned_sets, target_reps, planned_rest, velocity_loss_limit
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+    [
+      sessionId,
+      userId,
+      startedAt,
+      exerciseId,
+      plan?.plannedSets ?? null,
+      plan?.targetReps ?? null,
+      plan?.restDuration ?? null,
+      plan?.velocityLossLimit ?? null,
+    ]
   );
 
   return {
@@ -85,6 +172,11 @@ export async function createWorkoutSession(
     started_at: startedAt,
     ended_at: null,
     total_score: null,
+    exercise_id: exerciseId,
+    planned_sets: plan?.plannedSets ?? null,
+    target_reps: plan?.targetReps ?? null,
+    planned_rest: plan?.restDuration ?? null,
+    velocity_loss_limit: plan?.velocityLossLimit ?? null,
   };
 }
 
@@ -121,10 +213,76 @@ export async function getWorkoutSession(sessionId: string): Promise<WorkoutSessi
   return result || null;
 }
 
+/**
+ * Get the user's most recent unfinished session (app killed mid-workout)
+ *
+ * @param userId - User ID
+ * @returns Session with its saved sets and reps, or null if none is open
+ */
+export async function getOpenWorkoutSession(userId: string): Promise<OpenWorkoutSession | null> {
+  const session = await getDb().getFirstAsync<WorkoutSession>(
+    `SELECT * FROM workout_sessions
+     WHERE user_id = ? AND ended_at IS NULL
+     ORDER BY started_at DESC
+     LIMIT 1`,
+    [userId]
+  );
+  if (!session) return null;
+
+  const [sets, reps] = await Promise.all([
+    getSessionSets(session.id),
+    getSessionReps(session.id),
+  ]);
+
+  // Older sessions have no plan: fall back to the exercise of the first set
+  const exerciseId = session.exercise_id ?? sets[0]?.exercise_id ?? null;
+  const exercise = exerciseId
+    ? await getDb().getFirstAsync<{ id: string; name: string; sensor_profile: string }>(
+        `SELECT id, name, sensor_profile FROM exercises WHERE id = ?`,
+        [exerciseId]
+      )
+    : null;
+
+  return { session, exercise, sets, reps };
+}
+
+/**
+ * Close an unfinished session with the sets it already has
+ * The score is the average of its set scores; a session without sets is deleted.
+ *
+ * @param sessionId - Session ID
+ * @returns true if the session was kept, false if it was empty and deleted
+ */
+export async function finishWorkoutSession(sessionId: string): Promise<boolean> {
+  const result = await getDb().getFirstAsync<{
+    set_count: number;
+    avg_score: number | null;
+    last_set_at: number | null;
+  }>(
+    `SELECT COUNT(*) as set_count, AVG(score) as avg_score, MAX(created_at) as last_set_at
+     FROM exercise_sets WHERE session_id = ?`,
+    [sessionId]
+  );
+
+  if (!result || result.set_count === 0) {
+    await deleteWorkoutSession(sessionId);
+    return false;
+  }
+
+  // End at the last saved set, not now (the app may have been closed for days)
+  await getDb().runAsync(
+    `UPDATE workout_sessions SET ended_at = ?, total_score = ? WHERE id = ?`,
+    [result.last_set_at ?? Date.now(), Math.round(result.avg_score ?? 0), sessionId]
+  );
+  return true;
+}
+
 // ============= SET OPERATIONS =============
 
 /**
- * Create exercise set with rep data
+ * Create exercise set with its reps
+ *
+ * The set row and all rep rows are written in one transaction.
  *
  * @param setData - Set data including reps
  */
@@ -139,36 +297,44 @@ export async function createExerciseSet(setData: {
   stabilityScore: number;
   rangeScore: number;
   consistencyScore: number;
-  rawData: DetectedRep[]; // Will be JSON stringified
+  tempoScore?: number | null;   // Average rep tempo score
+  velocityLoss?: number | null; // Last rep's % speed loss vs the first reps
+  reps: DetectedRep[]; // Stored one row per rep in the reps table
+  restDuration?: number | null; // Rest taken after the set, if already known (ms)
 }): Promise<ExerciseSet> {
   const setId = `set-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
   const createdAt = Date.now();
+  const db = getDb();
+
+  await db.withTransactionAsync(async () => {
+    await db.runAsync(
+      `INSERT INTO exercise_sets (
+        id, session_id, exercise_id, set_number, reps_completed, target_reps,
+        duration, score, stability_score, range_score, consistency_score,
+        raw_data, rest_duration, tempo_score, velocity_loss, created_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        setId,
+        setData.sessionId,
+        setData.exerciseId,
+        setData.setNumber,
+        setData.repsCompleted,
+        setData.targetReps,
+        setData.duration,
+        setData.score,
+        setData.stabilityScore,
+        setData.rangeScore,
+        setData.consistencyScore,
+        null,
+        setData.restDuration ?? null,
+        setData.tempoScore ?? null,
+        setData.velocityLoss ?? null,
+        createdAt,
+      ]
+    );
 
-  // Stringify raw rep data for storage
-  const rawDataJson = JSON.stringify(setData.rawData);
-
-  await getDb().runAsync(
-    `INSERT INTO exercise_sets (
-      id, session_id, exercise_id, set_number, reps_completed, target_reps,
-      duration, score, stability_score, range_score, consistency_score,
-      raw_data, created_at
-    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
-    [
-      setId,
-      setData.sessionId,
-      setData.exerciseId,
-      setData.setNumber,
-      setData.repsCompleted,
-      setData.targetReps,
-      setData.duration,
-      setData.score,
-      setData.stabilityScore,
-      setData.rangeScore,
-      setData.consistencyScore,
-      rawDataJson,
-      createdAt,
-    ]
-  );
+    await insertReps(setId, setData.reps, createdAt);
+  });
 
   return {
     id: setId,
@@ -182,11 +348,28 @@ export async function createExerciseSet(setData: {
     stability_score: setData.stabilityScore,
     range_score: setData.rangeScore,
     consistency_score: setData.consistencyScore,
-    raw_data: rawDataJson,
+    raw_data: null,
+    rest_duration: setData.restDuration ?? null,
+    tempo_score: setData.tempoScore ?? null,
+    velocity_loss: setData.velocityLoss ?? null,
     created_at: createdAt,
   };
 }
 
+/**
+ * Record the rest actually taken after a set
+ * (the set is saved when it finishes, before its rest is known)
+ *
+ * @param setId - Set ID
+ * @param restDuration - Rest in milliseconds
+ */
+export async function updateSetRestDuration(setId: string, restDuration: number): Promise<void> {
+  await getDb().runAsync(
+    `UPDATE exercise_sets SET rest_duration = ? WHERE id = ?`,
+    [restDuration, setId]
+  );
+}
+
 /**
  * Get all sets for a session
  *
@@ -202,25 +385,249 @@ export async function getSessionSets(sessionId: string): Promise<ExerciseSet[]>
   return sets;
 }
 
+// ============= REP OPERATIONS =============
+
+/**
+ * Write reps for a set (numbered 1..n in array order)
+ *
+ * @param setId - Set ID
+ * @param reps - Detected reps, in order
+ * @param createdAt - Row creation time (default: now)
+ */
+export async function insertReps(
+  setId: string,
+  reps: DetectedRep[],
+  createdAt: number = Date.now()
+): Promise<void> {
+  for (let i = 0; i < reps.length; i++) {
+    const rep = reps[i];
+    const { features, score } = rep;
+
+    await getDb().runAsync(
+      `INSERT INTO reps (
+        id, set_id, rep_number, timestamp, duration, depth, is_valid,
+        descend_duration, ascend_duration, total_duration, pause_duration, concentric_speed,
+        depth_score, stability_score, range_score, tempo_score,
+        peak_magnitude, valley_magnitude, magnitude_change, z_axis_change,
+        concentric_duration, eccentric_duration, top_pause_duration, hang_pause_duration,
+        score_overall, score_depth, score_stability, score_consistency, score_tempo, score_technique,
+        created_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        `${setId}-rep-${i + 1}`,
+        setId,
+        i + 1,
+        rep.timestamp,
+        rep.duration,
+        rep.depth,
+        rep.isValid ? 1 : 0,
+        features.descendDuration,
+        features.ascendDuration,
+        features.totalDuration,
+        features.pauseDuration ?? null,
+        features.concentricSpeed ?? null,
+        features.depthScore,
+        features.stabilityScore,
+        features.rangeScore,
+        features.tempoScore ?? null,
+        features.peakMagnitude,
+        features.valleyMagnitude,
+        features.magnitudeChange,
+        features.zAxisChange,
+        features.concentricDuration ?? null,
+        features.eccentricDuration ?? null,
+        features.topPauseDuration ?? null,
+        features.hangPauseDuration ?? null,
+        score?.overall ?? null,
+        score?.depth ?? null,
+        score?.stability ?? null,
+        score?.consistency ?? null,
+        score?.tempo ?? null,
+        score?.technique ?? null,
+        createdAt,
+      ]
+    );
+  }
+}
+
+/**
+ * Get all reps for a set
+ *
+ * @param setId - Set ID
+ * @returns Reps ordered by rep_number
+ */
+export async function getSetReps(setId: string): Promise<StoredRep[]> {
+  return getDb().getAllAsync<StoredRep>(
+    `SELECT * FROM reps WHERE set_id = ? ORDER BY rep_number ASC`,
+    [setId]
+  );
+}
+
+/**
+ * Get all reps for a session, across sets
+ *
+ * @param sessionId - Session ID
+ * @returns Reps ordered by set_number, then rep_number
+ */
+export async function getSessionReps(sessionId: string): Promise<StoredRep[]> {
+  return getDb().getAllAsync<StoredRep>(
+    `SELECT r.* FROM reps r
+     JOIN exercise_sets es ON r.set_id = es.id
+     WHERE es.session_id = ?
+     ORDER BY es.set_number ASC, r.rep_number ASC`,
+    [sessionId]
+  );
+}
+
+/**
+ * Get per-rep averages for a user (e.g. "average descend time of my squats this month")
+ * Completed sessions only, like getUserWorkoutStats
+ *
+ * @param userId - User ID
+ * @param filters - Optional exercise and start time (ms since epoch) filters
+ * @returns Averages over matching reps (null when there are none)
+ */
+export async function getUserRepAverages(
+  userId: string,
+  filters: { exerciseId?: string; since?: number } = {}
+): Promise<{
+  repCount: number;
+  descendDuration: number | null;
+  ascendDuration: number | null;
+  depth: number | null;
+  stabilityScore: number | null;
+  overallScore: number | null;
+}> {
+  const conditions = ['ws.user_id = ?', 'ws.ended_at IS NOT NULL'];
+  const values: (string | number)[] = [userId];
+
+  if (filters.exerciseId !== undefined) {
+    conditions.push('es.exercise_id = ?');
+    values.push(filters.exerciseId);
+  }
+  if (filters.since !== undefined) {
+    conditions.push('ws.started_at >= ?');
+    values.push(filters.since);
+  }
+
+  const result = await getDb().getFirstAsync<{
+    rep_count: number;
+    descend_duration: number | null;
+    ascend_duration: number | null;
+    depth: number | null;
+    stability_score: number | null;
+    overall_score: number | null;
+  }>(
+    `SELECT
+      COUNT(*) as rep_count,
+      AVG(r.descend_duration) as descend_duration,
+      AVG(r.ascend_duration) as ascend_duration,
+      AVG(r.depth) as depth,
+      AVG(r.stability_score) as stability_score,
+      AVG(r.score_overall) as overall_score
+     FROM reps r
+     JOIN exercise_sets es ON r.set_id = es.id
+     JOIN workout_sessions ws ON es.session_id = ws.id
+     WHERE ${conditions.join(' AND ')}`,
+    values
+  );
+
+  return {
+    repCount: result?.rep_count || 0,
+    descendDuration: result?.descend_duration ?? null,
+    ascendDuration: result?.ascend_duration ?? null,
+    depth: result?.depth ?? null,
+    stabilityScore: result?.stability_score ?? null,
+    overallScore: result?.overall_score ?? null,
+  };
+}
+
+/**
+ * Convert a stored rep back to the motion-engine shape
+ *
+ * @param row - Row from the reps table
+ */
+export function toDetectedRep(row: StoredRep): DetectedRep {
+  const optional = (value: number | null): number | undefined => value ?? undefined;
+
+  return {
+    repNumber: row.rep_number,
+    timestamp: row.timestamp,
+    duration: row.duration ?? 0,
+    depth: row.depth ?? 0,
+    isValid: row.is_valid === 1,
+    features: {
+      descendDuration: row.descend_duration ?? 0,
+      ascendDuration: row.ascend_duration ?? 0,
+      totalDuration: row.total_duration ?? 0,
+      pauseDuration: row.pause_duration ?? 0,
+      concentricSpeed: row.concentric_speed ?? 0,
+      depthScore: row.depth_score ?? 0,
+      stabilityScore: row.stability_score ?? 0,
+      rangeScore: row.range_score ?? 0,
+      tempoScore: row.tempo_score ?? 0,
+      peakMagnitude: row.peak_magnitude ?? 0,
+      valleyMagnitude: row.valley_magnitude ?? 0,
+      magnitudeChange: row.magnitude_change ?? 0,
+      zAxisChange: row.z_axis_change ?? 0,
+      concentricDuration: optional(row.concentric_duration),
+      eccentricDuration: optional(row.eccentric_duration),
+      topPauseDuration: optional(row.top_pause_duration),
+      hangPauseDuration: optional(row.hang_pause_duration),
+    },
+    score: row.score_overall === null ? undefined : {
+      overall: row.score_overall,
+      depth: row.score_depth ?? 0,
+      stability: row.score_stability ?? 0,
+      consistency: row.score_consistency ?? 0,
+      tempo: row.score_tempo ?? 0,
+      technique: row.score_technique ?? 'poor',
+    },
+  };
+}
+
 // ============= HISTORY OPERATIONS =============
 
 /**
- * Get all workout sessions for a user
+ * Get completed workout sessions for a user
+ * (open sessions are offered for resume instead, see getOpenWorkoutSession)
  *
  * @param userId - User ID
  * @param limit - Max number of sessions to return (default: 50)
+ * @param filters - Optional exercise / date range filters and offset
  * @returns Array of sessions ordered by most recent first
  */
 export async function getUserWorkouts(
   userId: string,
-  limit: number = 50
+  limit: number = 50,
+  filters: WorkoutHistoryFilters = {}
 ): Promise<WorkoutSession[]> {
+  const conditions = ['ws.user_id = ?', 'ws.ended_at IS NOT NULL'];
+  const values: (string | number)[] = [userId];
+
+  if (filters.exerciseId !== undefined) {
+    conditions.push(
+      'EXISTS (SELECT 1 FROM exercise_sets es WHERE es.session_id = ws.id AND es.exercise_id = ?)'
+    );
+    values.push(filters.exerciseId);
+  }
+  if (filters.from !== undefined) {
+    conditions.push('ws.started_at >= ?');
+    values.push(filters.from);
+  }
+  if (filters.to !== undefined) {
+    conditions.push('ws.started_at < ?');
+    values.push(filters.to);
+  }
+
+  values.push(limit, filters.offset ?? 0);
+
   const sessions = await getDb().getAllAsync<WorkoutSession>(
-    `SELECT * FROM workout_sessions
-     WHERE user_id = ?
-     ORDER BY started_at DESC
-     LIMIT ?`,
-    [userId, limit]
+    `SELECT ws.* FROM workout_sessions ws
+     WHERE ${conditions.join(' AND ')}
+     ORDER BY ws.started_at DESC
+     LIMIT ? OFFSET ?`,
+    values
   );
 
   return sessions;
@@ -264,13 +671,15 @@ export async function getSessionDetails(
  *
  * @param userId - User ID
  * @param limit - Max number of sessions
+ * @param filters - Optional exercise / date range filters and offset
  * @returns Sessions with sets and exercise info
  */
 export async function getUserWorkoutHistory(
   userId: string,
-  limit: number = 20
+  limit: number = 20,
+  filters: WorkoutHistoryFilters = {}
 ): Promise<WorkoutSessionWithSets[]> {
-  const sessions = await getUserWorkouts(userId, limit);
+  const sessions = await getUserWorkouts(userId, limit, filters);
 
   // Fetch sets for each session
   const sessionsWithSets = await Promise.all(
@@ -283,10 +692,98 @@ export async function getUserWorkoutHistory(
   return sessionsWithSets.filter((s) => s !== null);
 }
 
+// ============= CALIBRATION OPERATIONS =============
+
+/**
+ * Save a user's calibration for one sensor_profile (replaces the previous one)
+ *
+ * @param userId - User ID
+ * @param sensorProfile - Calibrated sensor_profile (e.g. 'squat')
+ * @param config - Detection config overrides
+ * @param referenceReps - Reps the values were derived from
+ * @returns Stored calibration
+ */
+export async function saveDetectionCalibration(
+  userId: string,
+  sensorProfile: string,
+  config: Record<string, number>,
+  referenceReps: number
+): Promise<DetectionCalibration> {
+  const createdAt = Date.now();
+
+  await getDb().runAsync(
+    `INSERT OR REPLACE INTO detection_calibrations (
+      user_id, sensor_profile, config, reference_reps, created_at
+    ) VALUES (?, ?, ?, ?, ?)`,
+    [userId, sensorProfile, JSON.stringify(config), referenceReps, createdAt]
+  );
+
+  return { userId, sensorProfile, config, referenceReps, createdAt };
+}
+
+/**
+ * Get a user's calibration for one sensor_profile
+ *
+ * @param userId - User ID
+ * @param sensorProfile - sensor_profile to look up
+ * @returns Calibration, or null if the user never calibrated it (or the row is unreadable)
+ */
+export async function getDetectionCalibration(
+  userId: string,
+  sensorProfile: string
+): Promise<DetectionCalibration | null> {
+  const row = await getDb().getFirstAsync<{
+    config: string;
+    reference_reps: number;
+    created_at: number;
+  }>(
+    `SELECT config, reference_reps, created_at FROM detection_calibrations
+     WHERE user_id = ? AND sensor_profile = ?`,
+    [userId, sensorProfile]
+  );
+  if (!row) return null;
+
+  let config: unknown;
+  try {
+    config = JSON.parse(row.config);
+  } catch {
+    console.warn(`Ignoring calibration for ${sensorProfile}: invalid config`);
+    return null;
+  }
+  if (typeof config !== 'object' || config === null || Array.isArray(config)) {
+    console.warn(`Ignoring calibration for ${sensorProfile}: invalid config`);
+    return null;
+  }
+
+  return {
+    userId,
+    sensorProfile,
+    config: config as Record<string, number>,
+    referenceReps: row.reference_reps,
+    createdAt: row.created_at,
+  };
+}
+
+/**
+ * Delete a user's calibration for one sensor_profile (back to defaults)
+ *
+ * @param userId - User ID
+ * @param sensorProfile - sensor_profile to reset
+ */
+export async function deleteDetectionCalibration(
+  userId: string,
+  sensorProfile: string
+): Promise<void> {
+  await getDb().runAsync(
+    `DELETE FROM detection_calibrations WHERE user_id = ? AND sensor_profile = ?`,
+    [userId, sensorProfile]
+  );
+}
+
 // ============= STATS OPERATIONS =============
 
 /**
- * Get user workout statistics
+ * Get user workout statistics (completed sessions only)
  *
  * @param userId - User ID
  * @returns Aggregate stats
@@ -304,7 +801,7 @@ export async function getUserWorkoutStats(userId: string): Promise<{
   );
   const totalWorkouts = workoutsResult?.count || 0;
 
-  // Total reps and average score from sets
+  // Total reps and average score from sets (of the same, completed sessions)
   const setsResult = await getDb().getFirstAsync<{
     total_reps: number;
     avg_score: number;
@@ -316,7 +813,7 @@ export async function getUserWorkoutStats(userId: string): Promise<{
       COALESCE(SUM(es.duration), 0) as total_duration
      FROM exercise_sets es
      JOIN workout_sessions ws ON es.session_id = ws.id
-     WHERE ws.user_id = ?`,
+     WHERE ws.user_id = ? AND ws.ended_at IS NOT NULL`,
     [userId]
   );
 
@@ -329,12 +826,90 @@ export async function getUserWorkoutStats(userId: string): Promise<{
 }
 
 /**
- * Delete workout session and all associated sets
+ * Get user activity within a time window (completed sessions only)
+ *
+ * @param userId - User ID
+ * @param from - Window start (ms since epoch, inclusive)
+ * @param to - Window end (ms since epoch, exclusive)
+ * @returns Session count, reps, active time and average session score (null if no scored sessions)
+ */
+export async function getUserActivityBetween(
+  userId: string,
+  from: number,
+  to: number
+): Promise<{
+  sessionCount: number;
+  totalReps: number;
+  activeDuration: number; // milliseconds
+  averageScore: number | null;
+}> {
+  const setsResult = await getDb().getFirstAsync<{
+    session_count: number;
+    total_reps: number;
+    active_duration: number;
+  }>(
+    `SELECT
+      COUNT(DISTINCT ws.id) as session_count,
+      COALESCE(SUM(es.reps_completed), 0) as total_reps,
+      COALESCE(SUM(es.duration), 0) as active_duration
+     FROM workout_sessions ws
+     LEFT JOIN exercise_sets es ON es.session_id = ws.id
+     WHERE ws.user_id = ? AND ws.ended_at IS NOT NULL
+       AND ws.started_at >= ? AND ws.started_at < ?`,
+    [userId, from, to]
+  );
+
+  // Separate query: the join above would weight sessions by their set count
+  const scoreResult = await getDb().getFirstAsync<{ avg_score: number | null }>(
+    `SELECT AVG(total_score) as avg_score
+     FROM workout_sessions
+     WHERE user_id = ? AND ended_at IS NOT NULL AND total_score IS NOT NULL
+       AND started_at >= ? AND started_at < ?`,
+    [userId, from, to]
+  );
+
+  return {
+    sessionCount: setsResult?.session_count || 0,
+    totalReps: setsResult?.total_reps || 0,
+    activeDuration: setsResult?.active_duration || 0,
+    averageScore: scoreResult?.avg_score ?? null,
+  };
+}
+
+/**
+ * Get the distinct local calendar days with a completed workout
+ *
+ * @param userId - User ID
+ * @param limit - Max number of days (default: 366)
+ * @returns Days as 'YYYY-MM-DD' (device local time), most recent first
+ */
+export async function getUserWorkoutDays(
+  userId: string,
+  limit: number = 366
+): Promise<string[]> {
+  const rows = await getDb().getAllAsync<{ day: string }>(
+    `SELECT DISTINCT date(started_at / 1000, 'unixepoch', 'localtime') as day
+     FROM workout_sessions
+     WHERE user_id = ? AND ended_at IS NOT NULL
+     ORDER BY day DESC
+     LIMIT ?`,
+    [userId, limit]
+  );
+
+  return rows.map((row) => row.day);
+}
+
+/**
+ * Delete workout session and all associated sets and reps
  *
  * @param sessionId - Session ID
  */
 export async function deleteWorkoutSession(sessionId: string): Promise<void> {
-  // Delete sets first (foreign key constraint)
+  // Delete children first (foreign key constraints)
+  await getDb().runAsync(
+    `DELETE FROM reps WHERE set_id IN (SELECT id FROM exercise_sets WHERE session_id = ?)`,
+    [sessionId]
+  );
   await getDb().runAsync(`DELETE FROM exercise_sets WHERE session_id = ?`, [sessionId]);
 
   // Delete session
@@ -0,0 +1,29 @@
+/**
+ * HistoryNavigator - Workout History Stack
+ * TrynerApp - Navigation
+ *
+ * Stack navigator for history flow:
+ * HistoryList → SessionDetail
+ */
+
+import React from 'react';
+import { createStackNavigator } from '@react-navigation/stack';
+import { HistoryStackParamList } from './types';
+import HistoryScreen from '@/features/history/screens/HistoryScreen';
+import SessionDetailScreen from '@/features/history/screens/SessionDetailScreen';
+
+const Stack = createStackNavigator<HistoryStackParamList>();
+
+export const HistoryNavigator = () => {
+  return (
+    <Stack.Navigator
+      screenOptions={{
+        headerShown: false,
+      }}
+      initialRouteName="HistoryList"
+    >
+      <Stack.Screen name="HistoryList" component={HistoryScreen} />
+      <Stack.Screen name="SessionDetail" component={SessionDetailScreen} />
+    </Stack.Navigator>
+  );
+};
@@ -2,26 +2,14 @@ import React from 'react';
 import { createBottomTabNavigator } from '@react-navigation/bottom-tabs';
 import { MainTabParamList } from './types';
 import HomeScreen from '@/features/home/screens/HomeScreen';
+import ProfileScreen from '@/features/profile/screens/ProfileScreen';
 import { WorkoutNavigator } from './WorkoutNavigator';
+import { HistoryNavigator } from './HistoryNavigator';
 import { colors } from '@/core/theme';
 import Text from '@/shared/components/Text';
-import { View } from 'react-native';
 
 const Tab = createBottomTabNavigator<MainTabParamList>();
 
-// Placeholder screens
-const HistoryScreen = () => (
-  <View style={{ flex: 1, justifyContent: 'center', alignItems: 'center' }}>
-    <Text variant="h3">Historial</Text>
-  </View>
-);
-
-const ProfileScreen = () => (
-  <View style={{ flex: 1, justifyContent: 'center', alignItems: 'center' }}>
-    <Text variant="h3">Perfil</Text>
-  </View>
-);
-
 export const MainNavigator = () => {
   return (
     <Tab.Navigator
@@ -54,7 +42,7 @@ export const MainNavigator = () => {
       />
       <Tab.Screen
         name="History"
-        component={HistoryScreen}
+        component={HistoryNavigator}
         options={{
           tabBarLabel: 'Historial',
           tabBarIcon: ({ color }) => <Text style={{ fontSize: 24 }}>📊</Text>,
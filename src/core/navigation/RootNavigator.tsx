@@ -10,6 +10,8 @@ import { useAuthStore } from '@/features/auth/store/authStore';
 const Stack = createStackNavigator<RootStackParamList>();
 
 export const RootNavigator = () => {
+  // App.tsx restores any persisted session before this first renders,
+  // so a signed-in user lands directly on Main (or Onboarding)
   const { isAuthenticated, user } = useAuthStore();
   const needsOnboarding = isAuthenticated && user && (!user.fitness_level || !user.goal);
 
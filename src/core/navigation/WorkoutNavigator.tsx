@@ -3,15 +3,18 @@
  * TrynerApp - Navigation
  *
  * Stack navigator for workout flow:
- * Setup → PreWorkout → ActiveWorkout → Summary
+ * Setup → PreWorkout → ActiveWorkout ⇄ Rest → Summary
+ * Setup → Calibration (per exercise, back to Setup)
  */
 
 import React from 'react';
 import { createStackNavigator } from '@react-navigation/stack';
 import { WorkoutStackParamList } from './types';
 import WorkoutSetupScreen from '@/features/workout/screens/WorkoutSetupScreen';
+import CalibrationScreen from '@/features/workout/screens/CalibrationScreen';
 import PreWorkoutScreen from '@/features/workout/screens/PreWorkoutScreen';
 import ActiveWorkoutScreen from '@/features/workout/screens/ActiveWorkoutScreen';
+import RestScreen from '@/features/workout/screens/RestScreen';
 import WorkoutSummaryScreen from '@/features/workout/screens/WorkoutSummaryScreen';
 
 const Stack = createStackNavigator<WorkoutStackParamList>();
@@ -25,8 +28,10 @@ export const WorkoutNavigator = () => {
       initialRouteName="WorkoutSetup"
     >
       <Stack.Screen name="WorkoutSetup" component={WorkoutSetupScreen} />
+      <Stack.Screen name="Calibration" component={CalibrationScreen} />
       <Stack.Screen name="PreWorkout" component={PreWorkoutScreen} />
       <Stack.Screen name="ActiveWorkout" component={ActiveWorkoutScreen} />
+      <Stack.Screen name="Rest" component={RestScreen} options={{ gestureEnabled: false }} />
       <Stack.Screen name="WorkoutSummary" component={WorkoutSummaryScreen} />
     </Stack.Navigator>
   );
@@ -1,3 +1,5 @@
+import { NavigatorScreenParams } from '@react-navigation/native';
+
 export type RootStackParamList = {
   Auth: undefined;
   Onboarding: undefined;
@@ -12,14 +14,21 @@ export type AuthStackParamList = {
 
 export type MainTabParamList = {
   Home: undefined;
-  Workout: undefined;
+  Workout: NavigatorScreenParams<WorkoutStackParamList> | undefined;
   History: undefined;
   Profile: undefined;
 };
 
 export type WorkoutStackParamList = {
   WorkoutSetup: undefined;
+  Calibration: { sensorProfile: string; exerciseName: string };
   PreWorkout: undefined;
   ActiveWorkout: undefined;
+  Rest: undefined;
   WorkoutSummary: undefined;
 };
+
+export type HistoryStackParamList = {
+  HistoryList: undefined;
+  SessionDetail: { sessionId: string };
+};
@@ -58,7 +58,7 @@ export const LoginScreen = () => {
 
       if (user) {
         // Login successful
-        login(user);
+        await login(user);
         Alert.alert('¡Bienvenido!', `Hola ${user.name}`);
       } else {
         // Invalid credentials
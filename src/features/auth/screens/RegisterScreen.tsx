@@ -110,7 +110,7 @@ export const RegisterScreen = () => {
       });
 
       // Auto-login after registration
-      login(user);
+      await login(user);
 
       // Navigate to onboarding
       navigation.navigate('Onboarding' as never);
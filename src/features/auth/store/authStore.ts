@@ -1,36 +1,77 @@
+import { Platform } from 'react-native';
 import { create } from 'zustand';
 import { User } from '@/core/database/types';
+import { createAuthSession, restoreAuthSession, revokeAuthSession } from '@/core/database';
 
 interface AuthState {
   user: User | null;
+  sessionToken: string | null;
   isAuthenticated: boolean;
   isLoading: boolean;
 
   // Actions
-  login: (user: User) => void;
-  logout: () => void;
+  login: (user: User) => Promise<void>;
+  restoreSession: () => Promise<void>;
+  logout: () => Promise<void>;
   updateUser: (updates: Partial<User>) => void;
   setLoading: (loading: boolean) => void;
 }
 
-export const useAuthStore = create<AuthState>((set) => ({
+/**
+ * Shown in the sessions table, e.g. "ios 17.4"
+ */
+const getDeviceLabel = (): string => `${Platform.OS} ${Platform.Version}`;
+
+export const useAuthStore = create<AuthState>((set, get) => ({
   user: null,
+  sessionToken: null,
   isAuthenticated: false,
   isLoading: false,
 
-  login: (user) =>
+  // Persists a session so the user stays signed in across restarts
+  login: async (user) => {
+    const session = await createAuthSession(user.id, getDeviceLabel());
+
     set({
       user,
+      sessionToken: session.token,
       isAuthenticated: true,
       isLoading: false,
-    }),
+    });
+  },
+
+  // Called once at startup, after initDatabase
+  restoreSession: async () => {
+    const restored = await restoreAuthSession();
+
+    if (restored) {
+      set({
+        user: restored.user,
+        sessionToken: restored.session.token,
+        isAuthenticated: true,
+      });
+    }
+  },
+
+  logout: async () => {
+    const { sessionToken } = get();
+
+    if (sessionToken) {
+      try {
+        await revokeAuthSession(sessionToken);
+      } catch (error) {
+        // Still sign out locally; the user asked to leave
+        console.error('[Auth] Error revoking session:', error);
+      }
+    }
 
-  logout: () =>
     set({
       user: null,
+      sessionToken: null,
       isAuthenticated: false,
       isLoading: false,
-    }),
+    });
+  },
 
   updateUser: (updates) =>
     set((state) => ({
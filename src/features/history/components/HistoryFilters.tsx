@@ -0,0 +1,148 @@
+/**
+ * HistoryFilters - Exercise and Date Range Chips
+ * TrynerApp - History Feature
+ *
+ * Horizontal chip rows to narrow the session list.
+ *
+ * Usage:
+ * ```typescript
+ * <HistoryFilters
+ *   exercises={exercises}
+ *   exerciseId={exerciseId}
+ *   dateRange={dateRange}
+ *   onExerciseChange={setExerciseId}
+ *   onDateRangeChange={setDateRange}
+ * />
+ * ```
+ */
+
+import React from 'react';
+import { StyleSheet, View, ScrollView, TouchableOpacity } from 'react-native';
+import Text from '@/shared/components/Text';
+import { colors, spacing, borderRadius } from '@/core/theme';
+import { Exercise } from '@/core/database/types';
+
+export type DateRangePreset = 'all' | '7d' | '30d' | '90d';
+
+const DATE_RANGE_OPTIONS: Array<{ value: DateRangePreset; label: string; days: number | null }> = [
+  { value: 'all', label: 'Todo', days: null },
+  { value: '7d', label: '7 días', days: 7 },
+  { value: '30d', label: '30 días', days: 30 },
+  { value: '90d', label: '90 días', days: 90 },
+];
+
+/**
+ * Start of the range (ms since epoch), or undefined for 'all'
+ *
+ * Ranges start at local midnight so "7 días" includes all of today
+ * plus the six previous days.
+ */
+export const getDateRangeStart = (preset: DateRangePreset): number | undefined => {
+  const option = DATE_RANGE_OPTIONS.find((o) => o.value === preset);
+  if (!option || option.days === null) return undefined;
+
+  const start = new Date();
+  start.setHours(0, 0, 0, 0);
+  start.setDate(start.getDate() - (option.days - 1));
+  return start.getTime();
+};
+
+interface HistoryFiltersProps {
+  /** Exercises available as filters */
+  exercises: Exercise[];
+
+  /** Selected exercise ID (null = all) */
+  exerciseId: string | null;
+
+  /** Selected date range */
+  dateRange: DateRangePreset;
+
+  onExerciseChange: (exerciseId: string | null) => void;
+  onDateRangeChange: (dateRange: DateRangePreset) => void;
+}
+
+export const HistoryFilters: React.FC<HistoryFiltersProps> = ({
+  exercises,
+  exerciseId,
+  dateRange,
+  onExerciseChange,
+  onDateRangeChange,
+}) => {
+  return (
+    <View style={styles.container}>
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.row}>
+        <Chip label="Todos" selected={exerciseId === null} onPress={() => onExerciseChange(null)} />
+        {exercises.map((exercise) => (
+          <Chip
+            key={exercise.id}
+            label={exercise.name}
+            selected={exerciseId === exercise.id}
+            onPress={() => onExerciseChange(exercise.id)}
+          />
+        ))}
+      </ScrollView>
+
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.row}>
+        {DATE_RANGE_OPTIONS.map((option) => (
+          <Chip
+            key={option.value}
+            label={option.label}
+            selected={dateRange === option.value}
+            onPress={() => onDateRangeChange(option.value)}
+          />
+        ))}
+      </ScrollView>
+    </View>
+  );
+};
+
+const Chip: React.FC<{ label: string; selected: boolean; onPress: () => void }> = ({
+  label,
+  selected,
+  onPress,
+}) => (
+  <TouchableOpacity
+    activeOpacity={0.8}
+    onPress={onPress}
+    style={[styles.chip, selected && styles.chipSelected]}
+  >
+    <Text variant="bodySmall" style={selected ? styles.chipTextSelected : styles.chipText}>
+      {label}
+    </Text>
+  </TouchableOpacity>
+);
+
+const styles = StyleSheet.create({
+  container: {
+    gap: spacing.sm,
+    marginBottom: spacing.lg,
+  },
+
+  row: {
+    gap: spacing.sm,
+  },
+
+  chip: {
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.sm,
+    borderRadius: borderRadius.full,
+    borderWidth: 1,
+    borderColor: colors.neutral[300],
+    backgroundColor: colors.neutral.surface,
+  },
+
+  chipSelected: {
+    borderColor: colors.primary[500],
+    backgroundColor: colors.primary[50],
+  },
+
+  chipText: {
+    color: colors.neutral.textSecondary,
+  },
+
+  chipTextSelected: {
+    color: colors.primary[500],
+  },
+});
+
+export default HistoryFilters;
@@ -0,0 +1,144 @@
+/**
+ * SessionListItem - Swipeable Workout Session Row
+ * TrynerApp - History Feature
+ *
+ * Shows exercise, date, sets, reps and score of a stored session.
+ * Swipe left to reveal the delete action.
+ *
+ * Usage:
+ * ```typescript
+ * <SessionListItem
+ *   session={session}
+ *   onPress={() => openDetail(session.id)}
+ *   onDelete={() => confirmDelete(session)}
+ * />
+ * ```
+ */
+
+import React, { useRef } from 'react';
+import { StyleSheet, View, TouchableOpacity } from 'react-native';
+import Swipeable, { SwipeableMethods } from 'react-native-gesture-handler/ReanimatedSwipeable';
+import Text from '@/shared/components/Text';
+import { colors, spacing, borderRadius } from '@/core/theme';
+import { WorkoutSessionWithSets } from '@/core/database/workoutOperations';
+import { formatSessionDate, getScoreStyle } from '../utils/formatters';
+
+interface SessionListItemProps {
+  session: WorkoutSessionWithSets;
+
+  onPress: () => void;
+
+  /**
+   * Called when the delete action is tapped.
+   * Return false (e.g. user cancelled) to close the row again.
+   */
+  onDelete: () => Promise<boolean>;
+}
+
+export const SessionListItem: React.FC<SessionListItemProps> = ({
+  session,
+  onPress,
+  onDelete,
+}) => {
+  const swipeableRef = useRef<SwipeableMethods>(null);
+
+  const totalReps = session.sets.reduce((sum, set) => sum + (set.reps_completed ?? 0), 0);
+  const score = session.total_score === null ? null : Math.round(session.total_score);
+  const scoreStyle = getScoreStyle(score);
+
+  const handleDelete = async () => {
+    const deleted = await onDelete();
+    if (!deleted) {
+      swipeableRef.current?.close();
+    }
+  };
+
+  const renderDeleteAction = () => (
+    <TouchableOpacity activeOpacity={0.8} onPress={handleDelete} style={styles.deleteAction}>
+      <Text variant="bodyBold" style={styles.deleteText}>
+        Eliminar
+      </Text>
+    </TouchableOpacity>
+  );
+
+  return (
+    <Swipeable
+      ref={swipeableRef}
+      friction={2}
+      rightThreshold={40}
+      renderRightActions={renderDeleteAction}
+      containerStyle={styles.swipeContainer}
+    >
+      <TouchableOpacity activeOpacity={0.8} onPress={onPress} style={styles.card}>
+        <View style={styles.info}>
+          <Text variant="h4" style={styles.exerciseName}>
+            {session.exercise_name ?? 'Entrenamiento'}
+          </Text>
+          <Text variant="bodySmall" style={styles.secondaryText}>
+            {formatSessionDate(session.started_at)}
+          </Text>
+          <Text variant="bodySmall" style={styles.secondaryText}>
+            {session.sets.length} series · {totalReps} reps
+          </Text>
+        </View>
+
+        <View style={[styles.scoreBadge, { backgroundColor: `${scoreStyle.color}20` }]}>
+          <Text variant="metric" style={{ color: scoreStyle.color }}>
+            {score ?? '–'}
+          </Text>
+        </View>
+      </TouchableOpacity>
+    </Swipeable>
+  );
+};
+
+const styles = StyleSheet.create({
+  swipeContainer: {
+    marginBottom: spacing.sm,
+    borderRadius: borderRadius.lg,
+    backgroundColor: colors.error[500],
+  },
+
+  card: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: colors.neutral.surface,
+    borderRadius: borderRadius.lg,
+    padding: spacing.md,
+    borderWidth: 1,
+    borderColor: colors.neutral[200],
+  },
+
+  info: {
+    flex: 1,
+    gap: spacing.xs,
+  },
+
+  exerciseName: {
+    color: colors.neutral[900],
+  },
+
+  secondaryText: {
+    color: colors.neutral.textSecondary,
+  },
+
+  scoreBadge: {
+    width: 56,
+    height: 56,
+    borderRadius: 28,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+
+  deleteAction: {
+    width: 96,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+
+  deleteText: {
+    color: colors.neutral.white,
+  },
+});
+
+export default SessionListItem;
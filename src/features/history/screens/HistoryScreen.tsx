@@ -0,0 +1,218 @@
+/**
+ * HistoryScreen - Workout Session History
+ * TrynerApp - History Feature
+ *
+ * Paginated list of the user's stored workouts.
+ *
+ * Features:
+ * - Infinite scroll (pages of PAGE_SIZE sessions)
+ * - Filters by exercise and date range
+ * - Swipe-to-delete with confirmation
+ * - Tap to open session detail
+ * - Reloads when the tab gains focus (new workouts appear)
+ */
+
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { StyleSheet, View, FlatList, ActivityIndicator, Alert } from 'react-native';
+import { useNavigation, useFocusEffect } from '@react-navigation/native';
+import { StackNavigationProp } from '@react-navigation/stack';
+import Screen from '@/shared/components/Screen';
+import Text from '@/shared/components/Text';
+import { colors, spacing } from '@/core/theme';
+import { useAuthStore } from '@/features/auth/store/authStore';
+import { getAllExercises } from '@/core/database';
+import { Exercise } from '@/core/database/types';
+import {
+  getUserWorkoutHistory,
+  deleteWorkoutSession,
+  WorkoutSessionWithSets,
+} from '@/core/database/workoutOperations';
+import { HistoryStackParamList } from '@/core/navigation/types';
+import { HistoryFilters, DateRangePreset, getDateRangeStart } from '../components/HistoryFilters';
+import { SessionListItem } from '../components/SessionListItem';
+
+const PAGE_SIZE = 20;
+
+type HistoryNavigationProp = StackNavigationProp<HistoryStackParamList, 'HistoryList'>;
+
+export const HistoryScreen = () => {
+  const navigation = useNavigation<HistoryNavigationProp>();
+  const { user } = useAuthStore();
+
+  const [sessions, setSessions] = useState<WorkoutSessionWithSets[]>([]);
+  const [exercises, setExercises] = useState<Exercise[]>([]);
+  const [exerciseId, setExerciseId] = useState<string | null>(null);
+  const [dateRange, setDateRange] = useState<DateRangePreset>('all');
+  const [isLoading, setIsLoading] = useState(true);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [hasMore, setHasMore] = useState(true);
+
+  // Ignore responses from requests superseded by a filter change
+  const requestIdRef = useRef(0);
+
+  useEffect(() => {
+    getAllExercises()
+      .then(setExercises)
+      .catch((error) => console.error('[History] Error loading exercises:', error));
+  }, []);
+
+  const loadPage = useCallback(
+    async (offset: number) => {
+      if (!user) return;
+
+      const requestId = ++requestIdRef.current;
+      const page = await getUserWorkoutHistory(user.id, PAGE_SIZE, {
+        exerciseId: exerciseId ?? undefined,
+        from: getDateRangeStart(dateRange),
+        offset,
+      });
+
+      if (requestId !== requestIdRef.current) return;
+
+      setSessions((current) => (offset === 0 ? page : [...current, ...page]));
+      setHasMore(page.length === PAGE_SIZE);
+    },
+    [user, exerciseId, dateRange]
+  );
+
+  // First page on focus and whenever filters change
+  useFocusEffect(
+    useCallback(() => {
+      setIsLoading(true);
+      loadPage(0)
+        .catch((error) => console.error('[History] Error loading sessions:', error))
+        .finally(() => setIsLoading(false));
+    }, [loadPage])
+  );
+
+  const handleLoadMore = async () => {
+    if (isLoading || isLoadingMore || !hasMore) return;
+
+    setIsLoadingMore(true);
+    try {
+      await loadPage(sessions.length);
+    } catch (error) {
+      console.error('[History] Error loading more sessions:', error);
+    } finally {
+      setIsLoadingMore(false);
+    }
+  };
+
+  const handleDelete = (session: WorkoutSessionWithSets): Promise<boolean> =>
+    new Promise((resolve) => {
+      Alert.alert(
+        'Eliminar entrenamiento',
+        '¿Seguro que quieres eliminar este entrenamiento? Esta acción no se puede deshacer.',
+        [
+          { text: 'Cancelar', style: 'cancel', onPress: () => resolve(false) },
+          {
+            text: 'Eliminar',
+            style: 'destructive',
+            onPress: async () => {
+              try {
+                await deleteWorkoutSession(session.id);
+                setSessions((current) => current.filter((s) => s.id !== session.id));
+                resolve(true);
+              } catch (error) {
+                console.error('[History] Error deleting session:', error);
+                Alert.alert('Error', 'No se pudo eliminar el entrenamiento.');
+                resolve(false);
+              }
+            },
+          },
+        ],
+        { cancelable: true, onDismiss: () => resolve(false) }
+      );
+    });
+
+  const renderEmpty = () => {
+    if (isLoading) {
+      return <ActivityIndicator size="large" color={colors.primary[500]} style={styles.loader} />;
+    }
+
+    const isFiltered = exerciseId !== null || dateRange !== 'all';
+    return (
+      <View style={styles.emptyState}>
+        <Text style={styles.emptyIcon}>📊</Text>
+        <Text variant="bodyLarge" style={styles.emptyText}>
+          {isFiltered
+            ? 'No hay entrenamientos con estos filtros'
+            : 'Aún no tienes entrenamientos guardados'}
+        </Text>
+      </View>
+    );
+  };
+
+  return (
+    <Screen safeAreaEdges={['top']}>
+      <FlatList
+        data={isLoading ? [] : sessions}
+        keyExtractor={(session) => session.id}
+        contentContainerStyle={styles.listContent}
+        ListHeaderComponent={
+          <>
+            <Text variant="h1" style={styles.title}>
+              Historial
+            </Text>
+            <HistoryFilters
+              exercises={exercises}
+              exerciseId={exerciseId}
+              dateRange={dateRange}
+              onExerciseChange={setExerciseId}
+              onDateRangeChange={setDateRange}
+            />
+          </>
+        }
+        renderItem={({ item }) => (
+          <SessionListItem
+            session={item}
+            onPress={() => navigation.navigate('SessionDetail', { sessionId: item.id })}
+            onDelete={() => handleDelete(item)}
+          />
+        )}
+        ListEmptyComponent={renderEmpty}
+        ListFooterComponent={
+          isLoadingMore ? <ActivityIndicator color={colors.primary[500]} style={styles.footerLoader} /> : null
+        }
+        onEndReached={handleLoadMore}
+        onEndReachedThreshold={0.5}
+      />
+    </Screen>
+  );
+};
+
+const styles = StyleSheet.create({
+  listContent: {
+    padding: spacing.lg,
+  },
+
+  title: {
+    color: colors.neutral[900],
+    marginBottom: spacing.lg,
+  },
+
+  loader: {
+    marginTop: spacing.xxl,
+  },
+
+  footerLoader: {
+    marginVertical: spacing.lg,
+  },
+
+  emptyState: {
+    alignItems: 'center',
+    marginTop: spacing.xxl,
+  },
+
+  emptyIcon: {
+    fontSize: 48,
+    marginBottom: spacing.md,
+  },
+
+  emptyText: {
+    color: colors.neutral.textSecondary,
+    textAlign: 'center',
+  },
+});
+
+export default HistoryScreen;
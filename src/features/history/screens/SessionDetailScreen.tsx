@@ -0,0 +1,275 @@
+/**
+ * SessionDetailScreen - Stored Workout Detail
+ * TrynerApp - History Feature
+ *
+ * Shows a stored session with each set and the score of every rep.
+ *
+ * Features:
+ * - Overall session score (CircularProgress)
+ * - Per-set reps, duration, average score, tempo adherence and velocity loss
+ * - Per-rep score chips colored by technique
+ * - Delete session
+ */
+
+import React, { useState, useEffect } from 'react';
+import { StyleSheet, View, ActivityIndicator, Alert } from 'react-native';
+import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
+import Screen from '@/shared/components/Screen';
+import Text from '@/shared/components/Text';
+import Button from '@/shared/components/Button';
+import Card from '@/shared/components/Card';
+import CircularProgress from '@/shared/components/CircularProgress';
+import { colors, spacing, borderRadius } from '@/core/theme';
+import {
+  getSessionDetails,
+  getSessionReps,
+  deleteWorkoutSession,
+  WorkoutSessionWithSets,
+  StoredRep,
+} from '@/core/database/workoutOperations';
+import { HistoryStackParamList } from '@/core/navigation/types';
+import { formatSessionDate, formatDuration, getScoreStyle } from '../utils/formatters';
+
+type SessionDetailRouteProp = RouteProp<HistoryStackParamList, 'SessionDetail'>;
+
+export const SessionDetailScreen = () => {
+  const navigation = useNavigation();
+  const { params } = useRoute<SessionDetailRouteProp>();
+
+  const [session, setSession] = useState<WorkoutSessionWithSets | null>(null);
+  const [repsBySet, setRepsBySet] = useState<Record<string, StoredRep[]>>({});
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    const loadSession = async () => {
+      try {
+        const [details, reps] = await Promise.all([
+          getSessionDetails(params.sessionId),
+          getSessionReps(params.sessionId),
+        ]);
+
+        const grouped: Record<string, StoredRep[]> = {};
+        reps.forEach((rep) => {
+          (grouped[rep.set_id] ??= []).push(rep);
+        });
+
+        setSession(details);
+        setRepsBySet(grouped);
+      } catch (error) {
+        console.error('[SessionDetail] Error loading session:', error);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadSession();
+  }, [params.sessionId]);
+
+  const handleDelete = () => {
+    Alert.alert(
+      'Eliminar entrenamiento',
+      '¿Seguro que quieres eliminar este entrenamiento? Esta acción no se puede deshacer.',
+      [
+        { text: 'Cancelar', style: 'cancel' },
+        {
+          text: 'Eliminar',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await deleteWorkoutSession(params.sessionId);
+              navigation.goBack();
+            } catch (error) {
+              console.error('[SessionDetail] Error deleting session:', error);
+              Alert.alert('Error', 'No se pudo eliminar el entrenamiento.');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  if (isLoading) {
+    return (
+      <Screen>
+        <ActivityIndicator size="large" color={colors.primary[500]} style={styles.loader} />
+      </Screen>
+    );
+  }
+
+  if (!session) {
+    return (
+      <Screen>
+        <View style={styles.container}>
+          <Text variant="bodyLarge" style={styles.secondaryText}>
+            Entrenamiento no encontrado
+          </Text>
+          <Button title="Volver" variant="outline" onPress={() => navigation.goBack()} />
+        </View>
+      </Screen>
+    );
+  }
+
+  const sessionScore = session.total_score === null ? null : Math.round(session.total_score);
+  const sessionScoreStyle = getScoreStyle(sessionScore);
+
+  return (
+    <Screen scroll safeAreaEdges={['top', 'bottom']}>
+      <View style={styles.container}>
+        <Button
+          title="← Historial"
+          variant="ghost"
+          size="small"
+          onPress={() => navigation.goBack()}
+          style={styles.backButton}
+        />
+
+        {/* Header */}
+        <View style={styles.header}>
+          <Text variant="h1" style={styles.title}>
+            {session.exercise_name ?? 'Entrenamiento'}
+          </Text>
+          <Text variant="body" style={styles.secondaryText}>
+            {formatSessionDate(session.started_at)}
+          </Text>
+        </View>
+
+        {/* Session score */}
+        <View style={styles.scoreContainer}>
+          <CircularProgress
+            value={sessionScore ?? 0}
+            color={sessionScoreStyle.color}
+            label={sessionScoreStyle.label}
+          />
+        </View>
+
+        {/* Sets */}
+        {session.sets.map((set) => {
+          const reps = repsBySet[set.id] ?? [];
+          const setScore = set.score === null ? null : Math.round(set.score);
+
+          return (
+            <Card key={set.id} variant="outlined" style={styles.setCard}>
+              <View style={styles.setHeader}>
+                <Text variant="h4" style={styles.title}>
+                  Serie {set.set_number}
+                </Text>
+                <Text variant="bodyBold" style={{ color: getScoreStyle(setScore).color }}>
+                  {setScore ?? '–'}
+                </Text>
+              </View>
+
+              <Text variant="bodySmall" style={styles.secondaryText}>
+                {set.reps_completed ?? 0}
+                {set.target_reps ? ` / ${set.target_reps}` : ''} reps
+                {set.duration ? ` · ${formatDuration(set.duration)}` : ''}
+                {set.tempo_score !== null ? ` · Tempo ${Math.round(set.tempo_score)}%` : ''}
+                {set.velocity_loss !== null ? ` · Velocidad -${Math.round(set.velocity_loss)}%` : ''}
+              </Text>
+
+              {reps.length > 0 ? (
+                <View style={styles.repGrid}>
+                  {reps.map((rep) => {
+                    const repScore = rep.score_overall === null ? null : Math.round(rep.score_overall);
+                    const { color } = getScoreStyle(repScore);
+                    return (
+                      <View key={rep.id} style={[styles.repChip, { borderColor: color }]}>
+                        <Text variant="caption" style={styles.secondaryText}>
+                          #{rep.rep_number}
+                        </Text>
+                        <Text variant="bodyBold" style={{ color }}>
+                          {repScore ?? '–'}
+                        </Text>
+                      </View>
+                    );
+                  })}
+                </View>
+              ) : (
+                <Text variant="caption" style={styles.emptyReps}>
+                  Sin detalle por repetición
+                </Text>
+              )}
+            </Card>
+          );
+        })}
+
+        <Button
+          title="Eliminar entrenamiento"
+          variant="outline"
+          fullWidth
+          onPress={handleDelete}
+          style={styles.deleteButton}
+        />
+      </View>
+    </Screen>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    padding: spacing.lg,
+  },
+
+  loader: {
+    marginTop: spacing.xxl,
+  },
+
+  backButton: {
+    alignSelf: 'flex-start',
+    marginBottom: spacing.md,
+  },
+
+  header: {
+    marginBottom: spacing.lg,
+  },
+
+  title: {
+    color: colors.neutral[900],
+  },
+
+  secondaryText: {
+    color: colors.neutral.textSecondary,
+  },
+
+  scoreContainer: {
+    alignItems: 'center',
+    marginBottom: spacing.xl,
+  },
+
+  setCard: {
+    marginBottom: spacing.md,
+  },
+
+  setHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: spacing.xs,
+  },
+
+  repGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: spacing.sm,
+    marginTop: spacing.md,
+  },
+
+  repChip: {
+    width: 56,
+    paddingVertical: spacing.xs,
+    borderRadius: borderRadius.sm,
+    borderWidth: 1,
+    alignItems: 'center',
+  },
+
+  emptyReps: {
+    color: colors.neutral.textTertiary,
+    marginTop: spacing.md,
+  },
+
+  deleteButton: {
+    marginTop: spacing.lg,
+  },
+});
+
+export default SessionDetailScreen;
@@ -0,0 +1,46 @@
+/**
+ * History Formatters - Display helpers for stored workouts
+ * TrynerApp - History Feature
+ */
+
+import { colors } from '@/core/theme';
+import { getScoreTechnique } from '@/motion-engine';
+
+const MONTHS = ['ene', 'feb', 'mar', 'abr', 'may', 'jun', 'jul', 'ago', 'sep', 'oct', 'nov', 'dic'];
+
+/**
+ * Format a timestamp as "12 mar 2025 · 18:04"
+ *
+ * @param timestamp - Milliseconds since epoch
+ */
+export const formatSessionDate = (timestamp: number): string => {
+  const date = new Date(timestamp);
+  const hours = date.getHours().toString().padStart(2, '0');
+  const minutes = date.getMinutes().toString().padStart(2, '0');
+  return `${date.getDate()} ${MONTHS[date.getMonth()]} ${date.getFullYear()} · ${hours}:${minutes}`;
+};
+
+/**
+ * Format a duration as MM:SS
+ *
+ * @param durationMs - Duration in milliseconds
+ */
+export const formatDuration = (durationMs: number): string => {
+  const totalSeconds = Math.max(0, Math.floor(durationMs / 1000));
+  const minutes = Math.floor(totalSeconds / 60).toString().padStart(2, '0');
+  const seconds = (totalSeconds % 60).toString().padStart(2, '0');
+  return `${minutes}:${seconds}`;
+};
+
+/**
+ * Accent color and label for a 0-100 score
+ *
+ * @param score - Score, or null when the session has none
+ */
+export const getScoreStyle = (score: number | null): { color: string; label: string } => {
+  if (score === null) {
+    return { color: colors.neutral.textTertiary, label: 'Sin puntuación' };
+  }
+  const { color, label } = colors.score[getScoreTechnique(score)];
+  return { color, label };
+};
@@ -1,23 +1,42 @@
-import React, { useEffect, useRef } from 'react';
+import React, { useEffect, useRef, useCallback } from 'react';
 import { View, StyleSheet, TouchableOpacity, Animated, Platform, ScrollView } from 'react-native';
+import { useNavigation, useFocusEffect } from '@react-navigation/native';
+import { BottomTabNavigationProp } from '@react-navigation/bottom-tabs';
 import Screen from '@/shared/components/Screen';
 import Text from '@/shared/components/Text';
 import Button from '@/shared/components/Button';
 import CircularProgress from '@/shared/components/CircularProgress/CircularProgress';
 import StatCard from '@/shared/components/StatCard/StatCard';
 import { spacing, colors, borderRadius } from '@/core/theme';
+import { MainTabParamList } from '@/core/navigation/types';
 import { useAuthStore } from '@/features/auth/store/authStore';
+import { formatSessionDate, getScoreStyle } from '@/features/history/utils/formatters';
+import { useUnfinishedWorkoutPrompt } from '@/features/workout/hooks/useUnfinishedWorkoutPrompt';
+import { useDashboardStore } from '../stores/dashboardStore';
+
+type HomeNavigationProp = BottomTabNavigationProp<MainTabParamList, 'Home'>;
 
 export const HomeScreen = () => {
+  const navigation = useNavigation<HomeNavigationProp>();
   const { user } = useAuthStore();
+  const { stats, load } = useDashboardStore();
   const fadeAnim = useRef(new Animated.Value(0)).current;
   const slideAnim = useRef(new Animated.Value(30)).current;
 
-  // Mock data - En el futuro vendrá de la base de datos
-  const todayScore = 85;
-  const totalExercises = 12;
-  const caloriesBurned = 450;
-  const activeMinutes = 45;
+  // Resume or finalise a workout interrupted by an app crash / kill
+  useUnfinishedWorkoutPrompt();
+
+  // Reload on focus so changes made in other tabs (e.g. deleted workouts) show up
+  useFocusEffect(
+    useCallback(() => {
+      if (user) {
+        load(user.id);
+      }
+    }, [user?.id, load])
+  );
+
+  const todayScore = stats?.todayScore ?? null;
+  const recentSessions = stats?.recentSessions ?? [];
 
   useEffect(() => {
     Animated.parallel([
@@ -95,10 +114,18 @@ export const HomeScreen = () => {
             RENDIMIENTO DE HOY
           </Text>
           <View style={styles.scoreCircleContainer}>
-            <CircularProgress value={todayScore} size={180} strokeWidth={14} />
+            <CircularProgress
+              value={todayScore ?? 0}
+              size={180}
+              strokeWidth={14}
+              color={todayScore === null ? colors.neutral.textTertiary : undefined}
+              label={todayScore === null ? 'Sin entrenar' : undefined}
+            />
           </View>
           <Text variant="bodySmall" style={styles.scoreDescription}>
-            {todayScore >= 85
+            {todayScore === null
+              ? 'Aún no has entrenado hoy. ¡Es un buen momento! 🎯'
+              : todayScore >= 85
               ? '¡Increíble rendimiento! Sigue así 🔥'
               : todayScore >= 70
               ? 'Buen trabajo, mantén el ritmo 💪'
@@ -125,22 +152,22 @@ export const HomeScreen = () => {
         >
           <StatCard
             icon="💪"
-            value={totalExercises}
-            label="Ejercicios"
+            value={stats?.weeklyReps ?? 0}
+            label="Reps esta semana"
             accentColor={colors.primary[500]}
             style={styles.statCard}
           />
           <StatCard
             icon="🔥"
-            value={caloriesBurned}
-            label="Kcal"
+            value={stats?.currentStreak ?? 0}
+            label={stats?.currentStreak === 1 ? 'Día de racha' : 'Días de racha'}
             accentColor={colors.warning[500]}
             style={styles.statCard}
           />
           <StatCard
             icon="⏱️"
-            value={activeMinutes}
-            label="Minutos"
+            value={stats?.weeklyActiveMinutes ?? 0}
+            label="Minutos activos esta semana"
             accentColor={colors.success[500]}
             style={styles.statCard}
           />
@@ -169,31 +196,52 @@ export const HomeScreen = () => {
           style={[
             styles.recentSection,
             {
-              opacity: fadeAnim.interpolate({
-                inputRange: [0, 1],
-                outputRange: [0, 0.6],
-              }),
+              opacity: fadeAnim,
             },
           ]}
         >
           <View style={styles.sectionHeader}>
             <Text variant="h4">Actividad Reciente</Text>
-            <TouchableOpacity>
+            <TouchableOpacity onPress={() => navigation.navigate('History')}>
               <Text variant="bodySmall" style={styles.seeAllText}>
                 Ver todo
               </Text>
             </TouchableOpacity>
           </View>
 
-          <View style={styles.emptyState}>
-            <Text style={styles.emptyStateIcon}>📊</Text>
-            <Text variant="body" style={styles.emptyStateText}>
-              Aún no tienes entrenamientos
-            </Text>
-            <Text variant="bodySmall" color="secondary">
-              Comienza tu primer workout ahora
-            </Text>
-          </View>
+          {recentSessions.length > 0 ? (
+            recentSessions.map((session) => {
+              const score = session.total_score === null ? null : Math.round(session.total_score);
+              const scoreStyle = getScoreStyle(score);
+              const reps = session.sets.reduce((sum, set) => sum + (set.reps_completed ?? 0), 0);
+
+              return (
+                <View key={session.id} style={styles.recentItem}>
+                  <View style={styles.recentInfo}>
+                    <Text variant="bodyBold" style={styles.nameText}>
+                      {session.exercise_name ?? 'Entrenamiento'}
+                    </Text>
+                    <Text variant="caption" color="secondary">
+                      {formatSessionDate(session.started_at)} · {reps} reps
+                    </Text>
+                  </View>
+                  <Text variant="h4" style={{ color: scoreStyle.color }}>
+                    {score ?? '–'}
+                  </Text>
+                </View>
+              );
+            })
+          ) : (
+            <View style={styles.emptyState}>
+              <Text style={styles.emptyStateIcon}>📊</Text>
+              <Text variant="body" style={styles.emptyStateText}>
+                Aún no tienes entrenamientos
+              </Text>
+              <Text variant="bodySmall" color="secondary">
+                Comienza tu primer workout ahora
+              </Text>
+            </View>
+          )}
         </Animated.View>
       </ScrollView>
     </Screen>
@@ -325,6 +373,20 @@ const styles = StyleSheet.create({
     fontWeight: '600',
   },
 
+  recentItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: colors.neutral.surface,
+    borderRadius: borderRadius.lg,
+    padding: spacing.md,
+    marginBottom: spacing.sm,
+  },
+
+  recentInfo: {
+    flex: 1,
+    marginRight: spacing.md,
+  },
+
   emptyState: {
     backgroundColor: colors.neutral[50],
     borderRadius: borderRadius.lg,
@@ -0,0 +1,155 @@
+/**
+ * Dashboard Store - Home Screen Statistics
+ * TrynerApp - Home Feature
+ *
+ * Loads the home dashboard numbers from the database and keeps them
+ * shared, so any screen that saves a workout can trigger a refresh.
+ *
+ * Flow:
+ * 1. HomeScreen calls load(userId) on mount / user change
+ * 2. WorkoutSummaryScreen calls load(userId) after saving a workout
+ * 3. HomeScreen re-renders with the new stats
+ */
+
+import { create } from 'zustand';
+import {
+  getUserWorkoutStats,
+  getUserActivityBetween,
+  getUserWorkoutDays,
+  getUserWorkoutHistory,
+  WorkoutSessionWithSets,
+} from '@/core/database/workoutOperations';
+
+// ============= TYPES =============
+
+export interface DashboardStats {
+  todayScore: number | null;     // Average session score today (null = no workout today)
+  weeklyReps: number;            // Since Monday 00:00
+  weeklyActiveMinutes: number;   // Since Monday 00:00
+  currentStreak: number;         // Consecutive days with a workout, ending today or yesterday
+  totalWorkouts: number;         // All time
+  recentSessions: WorkoutSessionWithSets[];
+}
+
+interface DashboardState {
+  stats: DashboardStats | null;
+  isLoading: boolean;
+  lastUpdated: number | null;
+
+  // Actions
+  load: (userId: string) => Promise<void>;
+  reset: () => void;
+}
+
+const RECENT_SESSIONS_LIMIT = 3;
+
+// ============= STORE =============
+
+export const useDashboardStore = create<DashboardState>((set) => ({
+  stats: null,
+  isLoading: false,
+  lastUpdated: null,
+
+  load: async (userId) => {
+    set({ isLoading: true });
+
+    try {
+      const stats = await loadDashboardStats(userId, new Date());
+      set({ stats, isLoading: false, lastUpdated: Date.now() });
+    } catch (error) {
+      console.error('[Dashboard] Error loading stats:', error);
+      set({ isLoading: false });
+    }
+  },
+
+  reset: () =>
+    set({
+      stats: null,
+      isLoading: false,
+      lastUpdated: null,
+    }),
+}));
+
+// ============= DATA =============
+
+/**
+ * Compute dashboard stats for a user
+ *
+ * @param userId - User ID
+ * @param now - Reference time (local calendar is used for day/week bounds)
+ */
+const loadDashboardStats = async (userId: string, now: Date): Promise<DashboardStats> => {
+  const todayStart = startOfDay(now);
+  const tomorrowStart = addDays(todayStart, 1);
+  const weekStart = startOfWeek(now);
+
+  const [overall, today, week, workoutDays, recentSessions] = await Promise.all([
+    getUserWorkoutStats(userId),
+    getUserActivityBetween(userId, todayStart.getTime(), tomorrowStart.getTime()),
+    getUserActivityBetween(userId, weekStart.getTime(), tomorrowStart.getTime()),
+    getUserWorkoutDays(userId),
+    getUserWorkoutHistory(userId, RECENT_SESSIONS_LIMIT),
+  ]);
+
+  return {
+    todayScore: today.averageScore === null ? null : Math.round(today.averageScore),
+    weeklyReps: week.totalReps,
+    weeklyActiveMinutes: Math.round(week.activeDuration / 60000),
+    currentStreak: calculateStreak(workoutDays, todayStart),
+    totalWorkouts: overall.totalWorkouts,
+    recentSessions,
+  };
+};
+
+/**
+ * Count consecutive workout days ending today, or yesterday if today
+ * has no workout yet (the streak isn't broken until the day is over)
+ *
+ * @param workoutDays - 'YYYY-MM-DD' local days, most recent first
+ * @param todayStart - Local midnight of today
+ */
+const calculateStreak = (workoutDays: string[], todayStart: Date): number => {
+  const days = new Set(workoutDays);
+  let cursor = days.has(toDayKey(todayStart)) ? todayStart : addDays(todayStart, -1);
+  let streak = 0;
+
+  while (days.has(toDayKey(cursor))) {
+    streak++;
+    cursor = addDays(cursor, -1);
+  }
+
+  return streak;
+};
+
+const startOfDay = (date: Date): Date => {
+  const start = new Date(date);
+  start.setHours(0, 0, 0, 0);
+  return start;
+};
+
+/**
+ * Monday 00:00 of the current week
+ */
+const startOfWeek = (date: Date): Date => {
+  const start = startOfDay(date);
+  const daysSinceMonday = (start.getDay() + 6) % 7;
+  return addDays(start, -daysSinceMonday);
+};
+
+/**
+ * Calendar-day arithmetic (safe across DST changes, unlike adding 24h)
+ */
+const addDays = (date: Date, days: number): Date => {
+  const result = new Date(date);
+  result.setDate(result.getDate() + days);
+  return result;
+};
+
+/**
+ * Local 'YYYY-MM-DD' key, matching SQLite date(..., 'localtime')
+ */
+const toDayKey = (date: Date): string => {
+  const month = (date.getMonth() + 1).toString().padStart(2, '0');
+  const day = date.getDate().toString().padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
@@ -0,0 +1,72 @@
+/**
+ * Profile Schema - Validation for the profile form
+ * TrynerApp - Profile Feature
+ *
+ * Form values are strings (TextInput); the schema trims them and turns
+ * numeric fields into numbers. An empty numeric field clears the value.
+ */
+
+import { z } from 'zod';
+import { User } from '@/core/database/types';
+
+export const FITNESS_LEVEL_OPTIONS: Array<{ value: NonNullable<User['fitness_level']>; label: string }> = [
+  { value: 'beginner', label: 'Principiante' },
+  { value: 'intermediate', label: 'Intermedio' },
+  { value: 'advanced', label: 'Avanzado' },
+];
+
+export const GOAL_OPTIONS: Array<{ value: NonNullable<User['goal']>; label: string }> = [
+  { value: 'strength', label: 'Fuerza' },
+  { value: 'hypertrophy', label: 'Hipertrofia' },
+  { value: 'endurance', label: 'Resistencia' },
+  { value: 'weight_loss', label: 'Pérdida de peso' },
+  { value: 'general_health', label: 'Salud general' },
+];
+
+/**
+ * Optional numeric text field within [min, max]
+ * Accepts a comma as decimal separator ("70,5").
+ */
+const optionalNumber = (min: number, max: number, unit: string, integer: boolean = false) =>
+  z
+    .string()
+    .trim()
+    .transform((value) => (value === '' ? null : Number(value.replace(',', '.'))))
+    .pipe(
+      z
+        .number({ error: 'Introduce un número válido' })
+        .refine((value) => !integer || Number.isInteger(value), 'Introduce un número entero')
+        .refine((value) => value >= min && value <= max, `Debe estar entre ${min} y ${max} ${unit}`)
+        .nullable()
+    );
+
+export const profileSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1, 'El nombre es requerido')
+    .max(60, 'Máximo 60 caracteres'),
+  age: optionalNumber(13, 100, 'años', true),
+  weight: optionalNumber(30, 300, 'kg'),
+  height: optionalNumber(100, 250, 'cm', true),
+  fitnessLevel: z.enum(['beginner', 'intermediate', 'advanced']).nullable(),
+  goal: z.enum(['strength', 'hypertrophy', 'endurance', 'weight_loss', 'general_health']).nullable(),
+});
+
+/** Raw form values (what the inputs hold) */
+export type ProfileFormValues = z.input<typeof profileSchema>;
+
+/** Validated, typed values (what gets saved) */
+export type ProfileData = z.output<typeof profileSchema>;
+
+/**
+ * Form values for a user (numbers back to strings)
+ */
+export const getProfileFormValues = (user: User): ProfileFormValues => ({
+  name: user.name,
+  age: user.age != null ? user.age.toString() : '',
+  weight: user.weight != null ? user.weight.toString() : '',
+  height: user.height != null ? user.height.toString() : '',
+  fitnessLevel: user.fitness_level ?? null,
+  goal: user.goal ?? null,
+});
@@ -0,0 +1,347 @@
+/**
+ * ProfileScreen - View and Edit User Profile
+ * TrynerApp - Profile Feature
+ *
+ * Features:
+ * - Name, age, weight and height inputs
+ * - Fitness level and goal selection
+ * - zod validation (react-hook-form)
+ * - Saves to the database, then mirrors the change in the auth store
+ * - Log out (revokes the persisted session)
+ */
+
+import React, { useEffect } from 'react';
+import { StyleSheet, View, TouchableOpacity, Alert } from 'react-native';
+import { useForm, Controller } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import Screen from '@/shared/components/Screen';
+import Text from '@/shared/components/Text';
+import Button from '@/shared/components/Button';
+import { Input } from '@/shared/components/Input';
+import { colors, spacing, borderRadius } from '@/core/theme';
+import { updateUserProfile } from '@/core/database';
+import { useAuthStore } from '@/features/auth/store/authStore';
+import {
+  profileSchema,
+  ProfileFormValues,
+  ProfileData,
+  getProfileFormValues,
+  FITNESS_LEVEL_OPTIONS,
+  GOAL_OPTIONS,
+} from '../schemas/profileSchema';
+
+export const ProfileScreen = () => {
+  const { user, updateUser, logout } = useAuthStore();
+
+  const {
+    control,
+    handleSubmit,
+    reset,
+    formState: { errors, isDirty, isSubmitting },
+  } = useForm<ProfileFormValues, unknown, ProfileData>({
+    resolver: zodResolver(profileSchema),
+    defaultValues: user ? getProfileFormValues(user) : undefined,
+  });
+
+  // Keep the form in sync if the user changes elsewhere (e.g. onboarding)
+  useEffect(() => {
+    if (user) {
+      reset(getProfileFormValues(user));
+    }
+  }, [user, reset]);
+
+  const onSubmit = async (data: ProfileData) => {
+    if (!user) return;
+
+    try {
+      // Update database
+      await updateUserProfile(user.id, {
+        name: data.name,
+        age: data.age,
+        weight: data.weight,
+        height: data.height,
+        fitnessLevel: data.fitnessLevel,
+        goal: data.goal,
+      });
+
+      // Update AuthStore (only after the write succeeded)
+      updateUser({
+        name: data.name,
+        age: data.age ?? undefined,
+        weight: data.weight ?? undefined,
+        height: data.height ?? undefined,
+        fitness_level: data.fitnessLevel ?? undefined,
+        goal: data.goal ?? undefined,
+      });
+
+      Alert.alert('Perfil actualizado', 'Tus cambios se han guardado.');
+    } catch (error) {
+      console.error('[Profile] Error saving profile:', error);
+      Alert.alert('Error', 'No pudimos guardar tu perfil. Intenta de nuevo.');
+    }
+  };
+
+  const handleLogout = () => {
+    Alert.alert('Cerrar sesión', '¿Seguro que quieres cerrar sesión?', [
+      { text: 'Cancelar', style: 'cancel' },
+      { text: 'Cerrar sesión', style: 'destructive', onPress: () => logout() },
+    ]);
+  };
+
+  if (!user) {
+    return null;
+  }
+
+  return (
+    <Screen scroll keyboardAvoiding safeAreaEdges={['top']}>
+      <View style={styles.container}>
+        {/* Header */}
+        <View style={styles.header}>
+          <View style={styles.avatar}>
+            <Text style={styles.avatarIcon}>👤</Text>
+          </View>
+          <Text variant="h1" style={styles.title}>
+            Perfil
+          </Text>
+          <Text variant="body" style={styles.subtitle}>
+            {user.email}
+          </Text>
+        </View>
+
+        {/* Basics */}
+        <Controller
+          control={control}
+          name="name"
+          render={({ field: { value, onChange, onBlur } }) => (
+            <Input
+              label="NOMBRE"
+              placeholder="Tu nombre"
+              value={value}
+              onChangeText={onChange}
+              onBlur={onBlur}
+              error={errors.name?.message}
+              containerStyle={styles.input}
+            />
+          )}
+        />
+
+        <Controller
+          control={control}
+          name="age"
+          render={({ field: { value, onChange, onBlur } }) => (
+            <Input
+              label="EDAD"
+              placeholder="25"
+              keyboardType="numeric"
+              maxLength={3}
+              value={value}
+              onChangeText={onChange}
+              onBlur={onBlur}
+              error={errors.age?.message}
+              containerStyle={styles.input}
+            />
+          )}
+        />
+
+        <View style={styles.inputRow}>
+          <Controller
+            control={control}
+            name="weight"
+            render={({ field: { value, onChange, onBlur } }) => (
+              <Input
+                label="PESO (KG)"
+                placeholder="70.5"
+                keyboardType="decimal-pad"
+                value={value}
+                onChangeText={onChange}
+                onBlur={onBlur}
+                error={errors.weight?.message}
+                containerStyle={styles.inputHalf}
+              />
+            )}
+          />
+
+          <Controller
+            control={control}
+            name="height"
+            render={({ field: { value, onChange, onBlur } }) => (
+              <Input
+                label="ALTURA (CM)"
+                placeholder="175"
+                keyboardType="numeric"
+                maxLength={3}
+                value={value}
+                onChangeText={onChange}
+                onBlur={onBlur}
+                error={errors.height?.message}
+                containerStyle={styles.inputHalf}
+              />
+            )}
+          />
+        </View>
+
+        {/* Fitness level */}
+        <Text variant="label" style={styles.sectionLabel}>
+          NIVEL
+        </Text>
+        <Controller
+          control={control}
+          name="fitnessLevel"
+          render={({ field: { value, onChange } }) => (
+            <OptionChips options={FITNESS_LEVEL_OPTIONS} value={value} onChange={onChange} />
+          )}
+        />
+
+        {/* Goal */}
+        <Text variant="label" style={styles.sectionLabel}>
+          OBJETIVO
+        </Text>
+        <Controller
+          control={control}
+          name="goal"
+          render={({ field: { value, onChange } }) => (
+            <OptionChips options={GOAL_OPTIONS} value={value} onChange={onChange} />
+          )}
+        />
+
+        <Button
+          title="Guardar cambios"
+          variant="primary"
+          size="large"
+          fullWidth
+          loading={isSubmitting}
+          disabled={!isDirty || isSubmitting}
+          onPress={handleSubmit(onSubmit)}
+          style={styles.saveButton}
+        />
+
+        <Button
+          title="Cerrar sesión"
+          variant="ghost"
+          fullWidth
+          onPress={handleLogout}
+          style={styles.logoutButton}
+        />
+      </View>
+    </Screen>
+  );
+};
+
+interface OptionChipsProps<T extends string> {
+  options: Array<{ value: T; label: string }>;
+  value: T | null;
+  onChange: (value: T) => void;
+}
+
+const OptionChips = <T extends string>({ options, value, onChange }: OptionChipsProps<T>) => (
+  <View style={styles.chipRow}>
+    {options.map((option) => {
+      const isSelected = option.value === value;
+      return (
+        <TouchableOpacity
+          key={option.value}
+          activeOpacity={0.8}
+          onPress={() => onChange(option.value)}
+          style={[styles.chip, isSelected && styles.chipSelected]}
+        >
+          <Text variant="bodySmall" style={isSelected ? styles.chipTextSelected : styles.chipText}>
+            {option.label}
+          </Text>
+        </TouchableOpacity>
+      );
+    })}
+  </View>
+);
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    padding: spacing.lg,
+  },
+
+  header: {
+    alignItems: 'center',
+    marginBottom: spacing.xl,
+  },
+
+  avatar: {
+    width: 96,
+    height: 96,
+    borderRadius: 48,
+    backgroundColor: colors.primary[50],
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginBottom: spacing.md,
+  },
+
+  avatarIcon: {
+    fontSize: 48,
+  },
+
+  title: {
+    color: colors.neutral[900],
+    marginBottom: spacing.xs,
+  },
+
+  subtitle: {
+    color: colors.neutral.textSecondary,
+  },
+
+  input: {
+    marginBottom: spacing.md,
+  },
+
+  inputRow: {
+    flexDirection: 'row',
+    gap: spacing.md,
+  },
+
+  inputHalf: {
+    flex: 1,
+    marginBottom: spacing.md,
+  },
+
+  sectionLabel: {
+    color: colors.neutral.textSecondary,
+    marginTop: spacing.md,
+    marginBottom: spacing.sm,
+  },
+
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: spacing.sm,
+  },
+
+  chip: {
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.sm,
+    borderRadius: borderRadius.full,
+    borderWidth: 1,
+    borderColor: colors.neutral[300],
+    backgroundColor: colors.neutral.surface,
+  },
+
+  chipSelected: {
+    borderColor: colors.primary[500],
+    backgroundColor: colors.primary[50],
+  },
+
+  chipText: {
+    color: colors.neutral.textSecondary,
+  },
+
+  chipTextSelected: {
+    color: colors.primary[500],
+  },
+
+  saveButton: {
+    marginTop: spacing.xl,
+  },
+
+  logoutButton: {
+    marginTop: spacing.md,
+  },
+});
+
+export default ProfileScreen;
@@ -0,0 +1,88 @@
+/**
+ * useUnfinishedWorkoutPrompt - Offer to resume an interrupted workout
+ * TrynerApp - Workout Feature
+ *
+ * If the app was killed mid-workout, the session is still open in the
+ * database (its finished sets already saved). On first mount this asks
+ * the user to either resume it or finalise it with the sets it has.
+ */
+
+import { useEffect, useRef } from 'react';
+import { Alert } from 'react-native';
+import { useNavigation } from '@react-navigation/native';
+import { BottomTabNavigationProp } from '@react-navigation/bottom-tabs';
+import { MainTabParamList } from '@/core/navigation/types';
+import { useAuthStore } from '@/features/auth/store/authStore';
+import { useDashboardStore } from '@/features/home/stores/dashboardStore';
+import {
+  getOpenWorkoutSession,
+  finishWorkoutSession,
+  OpenWorkoutSession,
+} from '@/core/database/workoutOperations';
+import { useWorkoutSessionStore } from '../stores/workoutSessionStore';
+
+type MainTabNavigationProp = BottomTabNavigationProp<MainTabParamList>;
+
+export const useUnfinishedWorkoutPrompt = () => {
+  const navigation = useNavigation<MainTabNavigationProp>();
+  const { user } = useAuthStore();
+
+  // Ask once per signed-in user, not on every re-render
+  const checkedUserIdRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    if (!user || checkedUserIdRef.current === user.id) return;
+    checkedUserIdRef.current = user.id;
+
+    const userId = user.id;
+
+    const handleFinish = async (open: OpenWorkoutSession) => {
+      try {
+        await finishWorkoutSession(open.session.id);
+        useDashboardStore.getState().load(userId);
+      } catch (error) {
+        console.error('[UnfinishedWorkout] Error finishing session:', error);
+        Alert.alert('Error', 'No se pudo finalizar el entrenamiento.');
+      }
+    };
+
+    const handleResume = (open: OpenWorkoutSession) => {
+      useWorkoutSessionStore.getState().resumeSession(open);
+      // Countdown first, with setup underneath so "back" still works
+      navigation.navigate('Workout', { screen: 'PreWorkout', initial: false });
+    };
+
+    const checkOpenSession = async () => {
+      try {
+        const open = await getOpenWorkoutSession(userId);
+
+        // Nothing to recover, or it's the workout currently running
+        if (!open || useWorkoutSessionStore.getState().sessionId === open.session.id) {
+          return;
+        }
+
+        const exerciseName = open.exercise?.name ?? 'tu entrenamiento';
+        const progress = open.session.planned_sets
+          ? `${open.sets.length} de ${open.session.planned_sets} series`
+          : `${open.sets.length} series`;
+
+        Alert.alert(
+          'Entrenamiento sin terminar',
+          `No terminaste ${exerciseName} (${progress} guardadas). ¿Quieres continuarlo?`,
+          [
+            { text: 'Finalizar', style: 'destructive', onPress: () => handleFinish(open) },
+            // Resuming needs the exercise (to pick the detector)
+            ...(open.exercise ? [{ text: 'Reanudar', onPress: () => handleResume(open) }] : []),
+          ],
+          { cancelable: false }
+        );
+      } catch (error) {
+        console.error('[UnfinishedWorkout] Error checking open session:', error);
+      }
+    };
+
+    checkOpenSession();
+  }, [user?.id, navigation]);
+};
+
+export default useUnfinishedWorkoutPrompt;
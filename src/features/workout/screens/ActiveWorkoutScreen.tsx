@@ -7,6 +7,9 @@
  *
  * Features:
  * - Live rep counter
+ * - Auto-completes the set when target reps are reached, the user stops moving,
+ *   or reps slow down past the workout's velocity-loss limit
+ * - Hands over to RestScreen between sets (a fresh mount runs each set)
  * - Accelerometer visualization
  * - Real-time stats
  * - Workout controls (pause/stop)
@@ -15,30 +18,53 @@
 import React, { useEffect, useState, useRef } from 'react';
 import { StyleSheet, View, Animated, Alert } from 'react-native';
 import { useNavigation } from '@react-navigation/native';
+import { StackNavigationProp } from '@react-navigation/stack';
 import Screen from '@/shared/components/Screen';
 import Text from '@/shared/components/Text';
 import { AccelerometerGraph } from '../components/AccelerometerGraph';
 import { WorkoutStats } from '../components/WorkoutStats';
 import { WorkoutControls } from '../components/WorkoutControls';
-import { useMotionEngine } from '@/motion-engine';
+import {
+  useMotionEngine,
+  detectorRegistry,
+  calculateVelocityLoss,
+  DetectedRep,
+  MovementStoppedEvent,
+  VelocityLossEvent,
+  MotionEngineConfig,
+  FatigueDetectionConfig,
+  DEFAULT_FATIGUE_DETECTION_CONFIG,
+} from '@/motion-engine';
 import { useWorkoutSessionStore } from '../stores/workoutSessionStore';
 import { colors, spacing } from '@/core/theme';
+import { WorkoutStackParamList } from '@/core/navigation/types';
+
+type ActiveWorkoutNavigationProp = StackNavigationProp<WorkoutStackParamList, 'ActiveWorkout'>;
 
 export const ActiveWorkoutScreen = () => {
-  const navigation = useNavigation();
+  const navigation = useNavigation<ActiveWorkoutNavigationProp>();
   const {
     config,
     currentSet,
     completeSet,
-    nextSet,
     endSession,
     isSessionComplete,
   } = useWorkoutSessionStore();
 
   const [isPaused, setIsPaused] = useState(false);
   const [sessionDuration, setSessionDuration] = useState(0);
-  const [currentSetReps, setCurrentSetReps] = useState<any[]>([]);
+  const [currentSetReps, setCurrentSetReps] = useState<DetectedRep[]>([]);
   const [currentSetStartTime, setCurrentSetStartTime] = useState(Date.now());
+  const [velocityLossRep, setVelocityLossRep] = useState<number | null>(null);
+
+  // Fatigue threshold follows the workout's limit (default threshold when there is none)
+  const fatigueDetection: FatigueDetectionConfig = {
+    ...DEFAULT_FATIGUE_DETECTION_CONFIG,
+    velocityLossThreshold: config?.velocityLossLimit ?? DEFAULT_FATIGUE_DETECTION_CONFIG.velocityLossThreshold,
+  };
+  const motionConfig: MotionEngineConfig | undefined = config
+    ? { ...detectorRegistry.createMotionConfig(config.sensorProfile), fatigueDetection }
+    : undefined;
 
   // Entrance animations
   const fadeAnim = useRef(new Animated.Value(0)).current;
@@ -57,23 +83,27 @@ export const ActiveWorkoutScreen = () => {
     stop,
     getStatus,
   } = useMotionEngine({
+    config: motionConfig,
+    userId: config?.userId,
     onRepDetected: (rep) => {
       try {
         setCurrentSetReps((prev) => {
           // Limit to last 50 reps to prevent memory issues
           const newArray = prev.length >= 50 ? prev.slice(-49) : prev.slice();
-          newArray.push({
-            repNumber: rep.repNumber,
-            score: rep.score?.overall || 0,
-            depth: rep.depth,
-            duration: rep.duration,
-          });
+          // Full rep (features + score) so the set can be stored rep by rep
+          newArray.push(rep);
           return newArray;
         });
       } catch (error) {
         console.error('[ActiveWorkout] Error adding rep to set:', error);
       }
     },
+    onMovementStopped: (event) => {
+      handleMovementStopped(event);
+    },
+    onVelocityLoss: (event) => {
+      handleVelocityLoss(event);
+    },
     onError: (error) => {
       console.error('[ActiveWorkout] Motion engine error:', error);
       Alert.alert('Error', 'Problema con el acelerómetro. Por favor reinicia el workout.');
@@ -98,6 +128,15 @@ export const ActiveWorkoutScreen = () => {
     }
   }, [repCount, config]);
 
+  // Close the set once the rep that crossed the velocity-loss limit is recorded
+  // (reaching the target on that same rep is handled by the effect above)
+  useEffect(() => {
+    if (!config || velocityLossRep === null) return;
+    if (currentSetReps.length < velocityLossRep || repCount >= config.targetRepsPerSet) return;
+
+    handleSetComplete();
+  }, [velocityLossRep, currentSetReps, repCount, config]);
+
   // Start motion engine on mount
   useEffect(() => {
     if (__DEV__) {
@@ -187,70 +226,80 @@ export const ActiveWorkoutScreen = () => {
     setIsPaused(false);
   };
 
-  const handleSetComplete = () => {
+  /**
+   * User racked / stopped short of the target: close the set with the reps done.
+   * Stillness before the first rep (getting into position) is ignored.
+   */
+  const handleMovementStopped = (event: MovementStoppedEvent) => {
+    if (isPaused || currentSetReps.length === 0) return;
+
+    if (__DEV__) {
+      console.log(`[ActiveWorkout] Movement stopped after ${currentSetReps.length} reps, closing set`);
+    }
+    handleSetComplete(event.timestamp - event.stillSince);
+  };
+
+  /**
+   * Reps slowed down past the limit: end the set at that rep (velocity-based training).
+   * Fires alongside onRepDetected, so the set is closed once the rep is in state.
+   */
+  const handleVelocityLoss = (event: VelocityLossEvent) => {
+    if (isPaused || !config || config.velocityLossLimit === null) return;
+
+    if (__DEV__) {
+      console.log(`[ActiveWorkout] Velocity loss ${event.velocityLoss.toFixed(1)}% at rep ${event.repNumber}, closing set`);
+    }
+    setVelocityLossRep(event.repNumber);
+  };
+
+  /**
+   * @param restDuration - Trailing stillness (ms) to exclude from the set duration
+   */
+  const handleSetComplete = (restDuration: number = 0) => {
     stop();
 
     // Calculate set metrics
-    const duration = Date.now() - currentSetStartTime;
+    const duration = Math.max(0, Date.now() - currentSetStartTime - restDuration);
     const scores = currentSetReps
-      .filter((rep) => rep.score)
-      .map((rep) => rep.score);
+      .map((rep) => rep.score?.overall ?? 0)
+      .filter((score) => score > 0);
     const averageScore = scores.length > 0
-      ? Math.round(scores.reduce((a: number, b: number) => a + b, 0) / scores.length)
+      ? Math.round(scores.reduce((a, b) => a + b, 0) / scores.length)
       : 0;
+    const tempoScores = currentSetReps.flatMap((rep) => (rep.score ? [rep.score.tempo] : []));
+    const tempoScore = tempoScores.length > 0
+      ? Math.round(tempoScores.reduce((a, b) => a + b, 0) / tempoScores.length)
+      : null;
 
-    // Save set data
+    // Save set data (written to the database in the background)
     completeSet({
       setNumber: currentSet,
       reps: currentSetReps,
       repsCompleted: currentSetReps.length,
       duration,
       averageScore,
+      tempoScore,
+      velocityLoss: calculateVelocityLoss(
+        currentSetReps.map((rep) => rep.features.concentricSpeed),
+        fatigueDetection.baselineReps
+      ),
       timestamp: Date.now(),
     });
 
     // Check if all sets completed
     if (isSessionComplete()) {
       endSession();
-      navigation.navigate('WorkoutSummary' as never);
+      navigation.navigate('WorkoutSummary');
     } else {
-      // Show rest screen or move to next set
-      Alert.alert(
-        'Set Completado',
-        `¡Bien hecho! Has completado ${currentSetReps.length} reps.\n\n¿Listo para el siguiente set?`,
-        [
-          {
-            text: 'Descansar',
-            onPress: () => {
-              handleNextSet();
-            },
-          },
-          {
-            text: 'Siguiente Set',
-            onPress: handleNextSet,
-          },
-        ]
-      );
-    }
-  };
-
-  const handleNextSet = async () => {
-    nextSet();
-    setCurrentSetReps([]);
-    setCurrentSetStartTime(Date.now());
-
-    // Restart motion engine
-    try {
-      await start();
-    } catch (error) {
-      console.error('[ActiveWorkout] Error restarting:', error);
+      // Rest screen moves on to the next set and mounts a fresh ActiveWorkout
+      navigation.replace('Rest');
     }
   };
 
   const handleStop = () => {
     stop();
     endSession();
-    navigation.navigate('WorkoutSummary' as never);
+    navigation.navigate('WorkoutSummary');
   };
 
   // Handle missing config in useEffect to avoid setState during render
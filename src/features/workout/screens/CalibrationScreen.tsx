@@ -0,0 +1,340 @@
+/**
+ * CalibrationScreen - Personal Detection Thresholds
+ * TrynerApp - Workout Feature
+ *
+ * Guided calibration for one exercise: the user does a few slow reference
+ * reps and the motion engine derives personal thresholds from them.
+ *
+ * Flow:
+ * 1. Instructions → "Empezar" starts recording raw samples
+ * 2. Reference reps (standing still between them) → "Terminar"
+ * 3. Review the derived thresholds → "Guardar" stores them in SQLite
+ *    (useMotionEngine applies them on the next workout of this exercise)
+ */
+
+import React, { useState, useEffect, useRef } from 'react';
+import { StyleSheet, View, Alert, Platform } from 'react-native';
+import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
+import { StackNavigationProp } from '@react-navigation/stack';
+import Screen from '@/shared/components/Screen';
+import Text from '@/shared/components/Text';
+import Button from '@/shared/components/Button';
+import { colors, spacing, borderRadius } from '@/core/theme';
+import { WorkoutStackParamList } from '@/core/navigation/types';
+import { saveDetectionCalibration } from '@/core/database/workoutOperations';
+import { useAuthStore } from '@/features/auth/store/authStore';
+import {
+  useMotionEngine,
+  detectorRegistry,
+  calibrateDetection,
+  CalibrationResult,
+  SessionRecorder,
+  MIN_CALIBRATION_REPS,
+} from '@/motion-engine';
+import { formatRestTime } from '../utils/formatters';
+
+type CalibrationNavigationProp = StackNavigationProp<WorkoutStackParamList, 'Calibration'>;
+type CalibrationRouteProp = RouteProp<WorkoutStackParamList, 'Calibration'>;
+
+type CalibrationStep = 'intro' | 'recording' | 'review';
+
+/** Reference reps asked for (more than the minimum, so one missed rep is fine) */
+const REFERENCE_REPS = 5;
+
+/** Readable names for the calibrated config keys */
+const THRESHOLD_LABELS: Record<string, string> = {
+  descentThreshold: 'Inicio de bajada',
+  riseThreshold: 'Detección del fondo',
+  minDepthThreshold: 'Profundidad mínima',
+  peakProminence: 'Prominencia de pico',
+};
+
+export const CalibrationScreen = () => {
+  const navigation = useNavigation<CalibrationNavigationProp>();
+  const { params } = useRoute<CalibrationRouteProp>();
+  const { user } = useAuthStore();
+
+  const motionConfig = detectorRegistry.createMotionConfig(params.sensorProfile);
+
+  const [step, setStep] = useState<CalibrationStep>('intro');
+  const [elapsed, setElapsed] = useState(0);
+  const [result, setResult] = useState<CalibrationResult | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [recorder, setRecorder] = useState<SessionRecorder | null>(null);
+  const recordingStartRef = useRef(0);
+
+  // Reps are found afterwards from the raw samples, not by the live detector
+  const { start, stop } = useMotionEngine({
+    config: motionConfig,
+    enableHaptics: false,
+    recorder,
+  });
+
+  // Elapsed time while recording
+  useEffect(() => {
+    if (step !== 'recording') return;
+
+    const interval = setInterval(() => {
+      setElapsed(Date.now() - recordingStartRef.current);
+    }, 500);
+
+    return () => clearInterval(interval);
+  }, [step]);
+
+  // The recorder must be attached to the engine before it starts
+  useEffect(() => {
+    if (!recorder) return;
+
+    const begin = async () => {
+      try {
+        recorder.start();
+        await start();
+        recordingStartRef.current = Date.now();
+        setElapsed(0);
+        setStep('recording');
+      } catch (error) {
+        console.error('[Calibration] Error starting motion engine:', error);
+        Alert.alert('Error', 'No se pudo iniciar el acelerómetro.');
+        setRecorder(null);
+      }
+    };
+
+    begin();
+  }, [recorder]);
+
+  const handleStart = () => {
+    setResult(null);
+    setRecorder(
+      new SessionRecorder({
+        device: { platform: Platform.OS },
+        exerciseType: params.sensorProfile,
+        detectionConfig: motionConfig.detectionConfig,
+        notes: 'calibration',
+      })
+    );
+  };
+
+  const handleFinish = () => {
+    if (!recorder) return;
+
+    stop();
+    const recording = recorder.stop();
+    setRecorder(null);
+
+    try {
+      setResult(calibrateDetection(recording.samples, params.sensorProfile));
+      setStep('review');
+    } catch (error) {
+      console.error('[Calibration] Calibration failed:', error);
+      Alert.alert(
+        'Calibración incompleta',
+        `Necesitamos al menos ${MIN_CALIBRATION_REPS} repeticiones claras. Quédate quieto un segundo entre cada una e inténtalo de nuevo.`
+      );
+      setStep('intro');
+    }
+  };
+
+  const handleSave = async () => {
+    if (!user || !result) return;
+
+    setIsSaving(true);
+    try {
+      await saveDetectionCalibration(
+        user.id,
+        params.sensorProfile,
+        result.overrides as Record<string, number>,
+        result.reps.length
+      );
+      navigation.goBack();
+    } catch (error) {
+      console.error('[Calibration] Error saving calibration:', error);
+      Alert.alert('Error', 'No se pudo guardar la calibración. Por favor intenta de nuevo.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Screen scroll safeAreaEdges={['top', 'bottom']}>
+      <View style={styles.container}>
+        {/* Header */}
+        <View style={styles.header}>
+          <Text variant="label" style={styles.headerLabel}>
+            CALIBRACIÓN
+          </Text>
+          <Text variant="h2" style={styles.title}>
+            {params.exerciseName}
+          </Text>
+        </View>
+
+        {step === 'intro' && (
+          <>
+            <View style={styles.card}>
+              <Text variant="body" style={styles.instruction}>
+                1. Coloca el teléfono donde lo llevarás durante el workout.
+              </Text>
+              <Text variant="body" style={styles.instruction}>
+                2. Pulsa Empezar y quédate quieto unos segundos.
+              </Text>
+              <Text variant="body" style={styles.instruction}>
+                3. Haz {REFERENCE_REPS} repeticiones lentas y completas, quieto un segundo entre cada una.
+              </Text>
+              <Text variant="body" style={styles.instruction}>
+                4. Pulsa Terminar.
+              </Text>
+            </View>
+            <Button
+              title="Empezar"
+              variant="primary"
+              size="large"
+              fullWidth
+              onPress={handleStart}
+              disabled={recorder !== null}
+            />
+          </>
+        )}
+
+        {step === 'recording' && (
+          <>
+            <View style={styles.recording}>
+              <Text variant="scoreLarge" style={styles.elapsed}>
+                {formatRestTime(elapsed)}
+              </Text>
+              <Text variant="bodyLarge" style={styles.recordingText}>
+                Haz {REFERENCE_REPS} repeticiones de referencia
+              </Text>
+            </View>
+            <Button
+              title="Terminar"
+              variant="primary"
+              size="large"
+              fullWidth
+              onPress={handleFinish}
+            />
+          </>
+        )}
+
+        {step === 'review' && result && (
+          <>
+            <View style={styles.card}>
+              <Text variant="bodyBold" style={styles.reviewTitle}>
+                {result.reps.length} repeticiones de referencia
+              </Text>
+              {Object.entries(result.overrides).map(([key, value]) => (
+                <View key={key} style={styles.thresholdRow}>
+                  <Text variant="body" style={styles.thresholdLabel}>
+                    {THRESHOLD_LABELS[key] ?? key}
+                  </Text>
+                  <Text variant="bodyBold" style={styles.thresholdValue}>
+                    {Number(value).toFixed(2)} G
+                  </Text>
+                </View>
+              ))}
+            </View>
+            <View style={styles.actions}>
+              <Button
+                title="Repetir"
+                variant="secondary"
+                size="large"
+                onPress={() => setStep('intro')}
+                disabled={isSaving}
+                style={styles.actionButton}
+              />
+              <Button
+                title="Guardar"
+                variant="primary"
+                size="large"
+                onPress={handleSave}
+                loading={isSaving}
+                style={styles.actionButton}
+              />
+            </View>
+          </>
+        )}
+      </View>
+    </Screen>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    padding: spacing.lg,
+  },
+
+  header: {
+    alignItems: 'center',
+    marginTop: spacing.xl,
+    marginBottom: spacing.xxl,
+  },
+
+  headerLabel: {
+    color: colors.primary[500],
+    marginBottom: spacing.xs,
+    letterSpacing: 1.5,
+  },
+
+  title: {
+    color: colors.neutral[900],
+    textAlign: 'center',
+  },
+
+  card: {
+    backgroundColor: colors.neutral.surface,
+    borderRadius: borderRadius.lg,
+    padding: spacing.lg,
+    marginBottom: spacing.xl,
+    borderWidth: 1,
+    borderColor: colors.neutral[200],
+  },
+
+  instruction: {
+    color: colors.neutral[900],
+    marginBottom: spacing.sm,
+  },
+
+  recording: {
+    alignItems: 'center',
+    marginVertical: spacing.xxl,
+  },
+
+  elapsed: {
+    color: colors.primary[500],
+    marginBottom: spacing.md,
+  },
+
+  recordingText: {
+    color: colors.neutral.textSecondary,
+    textAlign: 'center',
+  },
+
+  reviewTitle: {
+    color: colors.neutral[900],
+    marginBottom: spacing.md,
+  },
+
+  thresholdRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: spacing.xs,
+  },
+
+  thresholdLabel: {
+    color: colors.neutral.textSecondary,
+  },
+
+  thresholdValue: {
+    color: colors.neutral[900],
+  },
+
+  actions: {
+    flexDirection: 'row',
+    gap: spacing.md,
+  },
+
+  actionButton: {
+    flex: 1,
+  },
+});
+
+export default CalibrationScreen;
@@ -10,7 +10,7 @@
  */
 
 import React, { useState, useEffect, useRef } from 'react';
-import { StyleSheet, View, Animated } from 'react-native';
+import { StyleSheet, View, Animated, Alert } from 'react-native';
 import { useNavigation } from '@react-navigation/native';
 import * as Haptics from 'expo-haptics';
 import Screen from '@/shared/components/Screen';
@@ -62,9 +62,14 @@ export const PreWorkoutScreen = () => {
   // Handle navigation when countdown reaches 0
   useEffect(() => {
     if (countdown === 0) {
-      // GO! - navigate to active workout
-      startSession();
-      navigation.navigate('ActiveWorkout' as never);
+      // GO! - open the session in the database, then go to active workout
+      startSession()
+        .then(() => navigation.navigate('ActiveWorkout' as never))
+        .catch((error) => {
+          console.error('[PreWorkout] Error starting session:', error);
+          Alert.alert('Error', 'No se pudo iniciar el entrenamiento. Por favor intenta de nuevo.');
+          navigation.goBack();
+        });
     }
   }, [countdown, navigation, startSession]);
 
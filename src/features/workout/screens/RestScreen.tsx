@@ -0,0 +1,208 @@
+/**
+ * RestScreen - Timed Rest Between Sets
+ * TrynerApp - Workout Feature
+ *
+ * Shown after every set except the last.
+ *
+ * Features:
+ * - Countdown ring (CircularProgress) with the planned rest from WorkoutConfig
+ * - Warning haptic shortly before the rest ends
+ * - Extend (+30 s) or skip the rest
+ * - Records the rest actually taken on the previous set
+ *
+ * Flow:
+ * 1. Countdown runs from the planned rest
+ * 2. Time's up (or skip) → next set → ActiveWorkoutScreen
+ */
+
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import { StyleSheet, View } from 'react-native';
+import { useNavigation } from '@react-navigation/native';
+import { StackNavigationProp } from '@react-navigation/stack';
+import * as Haptics from 'expo-haptics';
+import Screen from '@/shared/components/Screen';
+import Text from '@/shared/components/Text';
+import Button from '@/shared/components/Button';
+import CircularProgress from '@/shared/components/CircularProgress/CircularProgress';
+import { colors, spacing } from '@/core/theme';
+import { WorkoutStackParamList } from '@/core/navigation/types';
+import { useWorkoutSessionStore } from '../stores/workoutSessionStore';
+import { formatRestTime } from '../utils/formatters';
+
+type RestNavigationProp = StackNavigationProp<WorkoutStackParamList, 'Rest'>;
+
+const TICK_INTERVAL = 250;          // ms between countdown updates
+const WARNING_BEFORE_END = 10000;   // ms before the end for the warning haptic
+const EXTEND_STEP = 30000;          // ms added by "+30 s"
+
+export const RestScreen = () => {
+  const navigation = useNavigation<RestNavigationProp>();
+  const { config, currentSet, completedSets, recordRest, nextSet } = useWorkoutSessionStore();
+
+  const plannedRest = config?.restDuration ?? 0;
+  const lastSet = completedSets[completedSets.length - 1];
+
+  // Timestamps rather than a decrementing counter, so the countdown stays
+  // correct even if intervals are delayed (e.g. app briefly in background)
+  const restStartRef = useRef(Date.now());
+  const [totalRest, setTotalRest] = useState(plannedRest);
+  const [remaining, setRemaining] = useState(plannedRest);
+  const warnedRef = useRef(false);
+  const finishedRef = useRef(false);
+
+  const finish = useCallback(() => {
+    if (finishedRef.current) return;
+    finishedRef.current = true;
+
+    if (lastSet) {
+      recordRest(lastSet.setNumber, Date.now() - restStartRef.current);
+    }
+    nextSet();
+    navigation.replace('ActiveWorkout');
+  }, [lastSet, recordRest, nextSet, navigation]);
+
+  // Countdown
+  useEffect(() => {
+    const interval = setInterval(() => {
+      const left = totalRest - (Date.now() - restStartRef.current);
+      setRemaining(Math.max(0, left));
+
+      if (!warnedRef.current && left <= WARNING_BEFORE_END && left > 0) {
+        warnedRef.current = true;
+        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning);
+      }
+
+      if (left <= 0) {
+        clearInterval(interval);
+        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+        finish();
+      }
+    }, TICK_INTERVAL);
+
+    return () => clearInterval(interval);
+  }, [totalRest, finish]);
+
+  const handleExtend = () => {
+    setTotalRest((prev) => prev + EXTEND_STEP);
+    setRemaining((prev) => prev + EXTEND_STEP);
+    // Warn again before the new end
+    warnedRef.current = false;
+  };
+
+  const handleSkip = () => {
+    finish();
+  };
+
+  // Handle missing config in useEffect to avoid setState during render
+  useEffect(() => {
+    if (!config) {
+      navigation.goBack();
+    }
+  }, [config, navigation]);
+
+  if (!config) {
+    return null;
+  }
+
+  const progress = totalRest > 0 ? (remaining / totalRest) * 100 : 0;
+
+  return (
+    <Screen safeAreaEdges={['top', 'bottom']}>
+      <View style={styles.container}>
+        {/* Up next */}
+        <View style={styles.header}>
+          <Text variant="label" style={styles.nextLabel}>
+            SIGUIENTE: SET {currentSet + 1} / {config.totalSets}
+          </Text>
+          <Text variant="bodyLarge" style={styles.exerciseName}>
+            {config.exerciseName}
+          </Text>
+        </View>
+
+        {/* Countdown */}
+        <View style={styles.countdownContainer}>
+          <CircularProgress
+            value={progress}
+            size={240}
+            strokeWidth={16}
+            color={remaining <= WARNING_BEFORE_END ? colors.warning[500] : colors.primary[500]}
+            displayValue={formatRestTime(remaining)}
+            label="Descanso"
+          />
+
+          {lastSet && (
+            <Text variant="body" style={styles.lastSetText}>
+              Set {lastSet.setNumber}: {lastSet.repsCompleted} de {config.targetRepsPerSet} reps
+              {lastSet.averageScore > 0 ? ` · ${lastSet.averageScore} pts` : ''}
+            </Text>
+          )}
+        </View>
+
+        {/* Controls */}
+        <View style={styles.footer}>
+          <Button
+            title="+30 s"
+            variant="secondary"
+            size="large"
+            onPress={handleExtend}
+            style={styles.footerButton}
+          />
+          <Button
+            title="Saltar"
+            variant="primary"
+            size="large"
+            onPress={handleSkip}
+            style={styles.footerButton}
+          />
+        </View>
+      </View>
+    </Screen>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    justifyContent: 'space-between',
+    padding: spacing.lg,
+  },
+
+  header: {
+    alignItems: 'center',
+    paddingTop: spacing.xxl,
+  },
+
+  nextLabel: {
+    color: colors.primary[500],
+    marginBottom: spacing.xs,
+    letterSpacing: 1.5,
+  },
+
+  exerciseName: {
+    color: colors.neutral[900],
+    textAlign: 'center',
+  },
+
+  countdownContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+
+  lastSetText: {
+    color: colors.neutral.textSecondary,
+    marginTop: spacing.xl,
+  },
+
+  footer: {
+    flexDirection: 'row',
+    gap: spacing.md,
+    paddingBottom: spacing.lg,
+  },
+
+  footerButton: {
+    flex: 1,
+  },
+});
+
+export default RestScreen;
@@ -5,29 +5,90 @@
  * Allows user to configure workout parameters before starting.
  *
  * Features:
- * - Exercise selection (MVP: only Squats)
+ * - Exercise selection (exercises with a registered detector profile)
+ * - Per-exercise calibration status (calibrate / back to defaults)
  * - Sets configuration
  * - Reps per set configuration
+ * - Rest between sets configuration
+ * - Optional velocity-loss cut-off (ends a set once reps slow down)
  * - Start workout button
  */
 
-import React, { useState, useRef } from 'react';
-import { StyleSheet, View, Animated, Alert } from 'react-native';
-import { useNavigation } from '@react-navigation/native';
+import React, { useState, useRef, useEffect, useCallback } from 'react';
+import { StyleSheet, View, Animated, Alert, TouchableOpacity } from 'react-native';
+import { useNavigation, useFocusEffect } from '@react-navigation/native';
+import { StackNavigationProp } from '@react-navigation/stack';
 import Screen from '@/shared/components/Screen';
 import Text from '@/shared/components/Text';
 import Button from '@/shared/components/Button';
 import { colors, spacing, borderRadius } from '@/core/theme';
-import { useWorkoutSessionStore } from '../stores/workoutSessionStore';
+import { useWorkoutSessionStore, DEFAULT_REST_DURATION } from '../stores/workoutSessionStore';
+import { formatRestTime } from '../utils/formatters';
 import { useAuthStore } from '@/features/auth/store/authStore';
+import { getAllExercises } from '@/core/database';
+import { Exercise } from '@/core/database/types';
+import {
+  DetectionCalibration,
+  getDetectionCalibration,
+  deleteDetectionCalibration,
+} from '@/core/database/workoutOperations';
+import { WorkoutStackParamList } from '@/core/navigation/types';
+import { formatSessionDate } from '@/features/history/utils/formatters';
+import { detectorRegistry } from '@/motion-engine';
+
+type WorkoutSetupNavigationProp = StackNavigationProp<WorkoutStackParamList, 'WorkoutSetup'>;
 
 export const WorkoutSetupScreen = () => {
-  const navigation = useNavigation();
+  const navigation = useNavigation<WorkoutSetupNavigationProp>();
   const { user } = useAuthStore();
   const { configureWorkout } = useWorkoutSessionStore();
 
   const [sets, setSets] = useState(3);
   const [repsPerSet, setRepsPerSet] = useState(10);
+  const [restSeconds, setRestSeconds] = useState(DEFAULT_REST_DURATION / 1000);
+  const [velocityLossLimit, setVelocityLossLimit] = useState<number | null>(null);
+  const [exercises, setExercises] = useState<Exercise[]>([]);
+  const [selectedExercise, setSelectedExercise] = useState<Exercise | null>(null);
+  const [calibration, setCalibration] = useState<DetectionCalibration | null>(null);
+
+  const canCalibrate = selectedExercise
+    ? !!detectorRegistry.get(selectedExercise.sensor_profile).calibrate
+    : false;
+
+  // Load exercises the motion engine can detect
+  useEffect(() => {
+    const loadExercises = async () => {
+      try {
+        const allExercises = await getAllExercises();
+        const supported = allExercises.filter((exercise) =>
+          detectorRegistry.has(exercise.sensor_profile)
+        );
+        setExercises(supported);
+        setSelectedExercise((current) => current ?? supported[0] ?? null);
+      } catch (error) {
+        console.error('[WorkoutSetup] Error loading exercises:', error);
+      }
+    };
+
+    loadExercises();
+  }, []);
+
+  // Reload on focus so a calibration saved on CalibrationScreen shows up
+  useFocusEffect(
+    useCallback(() => {
+      if (!user || !selectedExercise) {
+        setCalibration(null);
+        return;
+      }
+
+      getDetectionCalibration(user.id, selectedExercise.sensor_profile)
+        .then(setCalibration)
+        .catch((error) => {
+          console.error('[WorkoutSetup] Error loading calibration:', error);
+          setCalibration(null);
+        });
+    }, [user?.id, selectedExercise?.sensor_profile])
+  );
 
   // Entrance animations
   const fadeAnim = useRef(new Animated.Value(0)).current;
@@ -55,17 +116,59 @@ export const WorkoutSetupScreen = () => {
       return;
     }
 
+    if (!selectedExercise) {
+      Alert.alert('Error', 'Selecciona un ejercicio');
+      return;
+    }
+
     // Configure workout session
     configureWorkout({
-      exerciseId: 'squat-001', // MVP: hardcoded Squats
-      exerciseName: 'Sentadillas',
+      exerciseId: selectedExercise.id,
+      exerciseName: selectedExercise.name,
+      sensorProfile: selectedExercise.sensor_profile,
       totalSets: sets,
       targetRepsPerSet: repsPerSet,
+      restDuration: restSeconds * 1000,
+      velocityLossLimit,
       userId: user.id,
     });
 
     // Navigate to PreWorkout countdown
-    navigation.navigate('PreWorkout' as never);
+    navigation.navigate('PreWorkout');
+  };
+
+  const handleCalibrate = () => {
+    if (!selectedExercise) return;
+
+    navigation.navigate('Calibration', {
+      sensorProfile: selectedExercise.sensor_profile,
+      exerciseName: selectedExercise.name,
+    });
+  };
+
+  const handleResetCalibration = () => {
+    if (!user || !selectedExercise) return;
+
+    Alert.alert(
+      'Usar valores predeterminados',
+      '¿Borrar tu calibración de este ejercicio?',
+      [
+        { text: 'Cancelar', style: 'cancel' },
+        {
+          text: 'Borrar',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await deleteDetectionCalibration(user.id, selectedExercise.sensor_profile);
+              setCalibration(null);
+            } catch (error) {
+              console.error('[WorkoutSetup] Error deleting calibration:', error);
+              Alert.alert('Error', 'No se pudo borrar la calibración.');
+            }
+          },
+        },
+      ]
+    );
   };
 
   const incrementSets = () => setSets((prev) => Math.min(prev + 1, 10));
@@ -74,6 +177,15 @@ export const WorkoutSetupScreen = () => {
   const incrementReps = () => setRepsPerSet((prev) => Math.min(prev + 5, 50));
   const decrementReps = () => setRepsPerSet((prev) => Math.max(prev - 5, 5));
 
+  const incrementRest = () => setRestSeconds((prev) => Math.min(prev + 15, 300));
+  const decrementRest = () => setRestSeconds((prev) => Math.max(prev - 15, 15));
+
+  // Off (null) → 10% → ... → 50%
+  const incrementVelocityLoss = () =>
+    setVelocityLossLimit((prev) => (prev === null ? 10 : Math.min(prev + 5, 50)));
+  const decrementVelocityLoss = () =>
+    setVelocityLossLimit((prev) => (prev === null || prev <= 10 ? null : prev - 5));
+
   return (
     <Screen scroll safeAreaEdges={['top', 'bottom']}>
       <Animated.View
@@ -98,19 +210,63 @@ export const WorkoutSetupScreen = () => {
           </Text>
         </View>
 
-        {/* Exercise Card (MVP: only Squats) */}
-        <View style={styles.exerciseCard}>
+        {/* Exercise Selection */}
+        <View style={styles.exerciseList}>
           <Text variant="label" style={styles.exerciseLabel}>
             EJERCICIO
           </Text>
-          <Text variant="h3" style={styles.exerciseName}>
-            🏋️ Sentadillas
-          </Text>
-          <Text variant="bodySmall" style={styles.exerciseDescription}>
-            Detección automática con acelerómetro
-          </Text>
+          {exercises.map((exercise) => {
+            const isSelected = exercise.id === selectedExercise?.id;
+            return (
+              <TouchableOpacity
+                key={exercise.id}
+                activeOpacity={0.8}
+                onPress={() => setSelectedExercise(exercise)}
+                style={[styles.exerciseCard, isSelected && styles.exerciseCardSelected]}
+              >
+                <Text variant="h3" style={styles.exerciseName}>
+                  🏋️ {exercise.name}
+                </Text>
+                <Text variant="bodySmall" style={styles.exerciseDescription}>
+                  {exercise.muscle_group} · Detección automática con acelerómetro
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
         </View>
 
+        {/* Calibration */}
+        {canCalibrate && (
+          <View style={styles.calibrationCard}>
+            <View style={styles.calibrationInfo}>
+              <Text variant="label" style={styles.exerciseLabel}>
+                CALIBRACIÓN
+              </Text>
+              <Text variant="bodySmall" style={styles.exerciseDescription}>
+                {calibration
+                  ? `Personal · ${calibration.referenceReps} reps · ${formatSessionDate(calibration.createdAt)}`
+                  : 'Valores predeterminados'}
+              </Text>
+            </View>
+            <View style={styles.calibrationActions}>
+              {calibration && (
+                <Button
+                  title="Restablecer"
+                  variant="ghost"
+                  size="small"
+                  onPress={handleResetCalibration}
+                />
+              )}
+              <Button
+                title={calibration ? 'Recalibrar' : 'Calibrar'}
+                variant="outline"
+                size="small"
+                onPress={handleCalibrate}
+              />
+            </View>
+          </View>
+        )}
+
         {/* Sets Configuration */}
         <View style={styles.configSection}>
           <Text variant="label" style={styles.configLabel}>
@@ -167,6 +323,62 @@ export const WorkoutSetupScreen = () => {
           </View>
         </View>
 
+        {/* Rest Configuration */}
+        <View style={styles.configSection}>
+          <Text variant="label" style={styles.configLabel}>
+            DESCANSO ENTRE SERIES
+          </Text>
+          <View style={styles.configRow}>
+            <Button
+              title="-"
+              variant="secondary"
+              size="medium"
+              onPress={decrementRest}
+              style={styles.counterButton}
+            />
+            <View style={styles.valueContainer}>
+              <Text variant="scoreLarge" style={styles.configValue}>
+                {formatRestTime(restSeconds * 1000)}
+              </Text>
+            </View>
+            <Button
+              title="+"
+              variant="secondary"
+              size="medium"
+              onPress={incrementRest}
+              style={styles.counterButton}
+            />
+          </View>
+        </View>
+
+        {/* Velocity Loss Configuration */}
+        <View style={styles.configSection}>
+          <Text variant="label" style={styles.configLabel}>
+            CORTAR SET AL PERDER VELOCIDAD
+          </Text>
+          <View style={styles.configRow}>
+            <Button
+              title="-"
+              variant="secondary"
+              size="medium"
+              onPress={decrementVelocityLoss}
+              style={styles.counterButton}
+            />
+            <View style={styles.valueContainer}>
+              <Text variant="scoreLarge" style={styles.configValue}>
+                {velocityLossLimit === null ? 'No' : `${velocityLossLimit}%`}
+              </Text>
+            </View>
+            <Button
+              title="+"
+              variant="secondary"
+              size="medium"
+              onPress={incrementVelocityLoss}
+              style={styles.counterButton}
+            />
+          </View>
+        </View>
+
         {/* Summary */}
         <View style={styles.summary}>
           <Text variant="bodyLarge" style={styles.summaryText}>
@@ -181,6 +393,7 @@ export const WorkoutSetupScreen = () => {
           size="large"
           fullWidth
           onPress={handleStartWorkout}
+          disabled={!selectedExercise}
           style={styles.startButton}
         />
 
@@ -231,12 +444,20 @@ const styles = StyleSheet.create({
     textAlign: 'center',
   },
 
+  exerciseList: {
+    marginBottom: spacing.xxl,
+  },
+
   exerciseCard: {
     backgroundColor: colors.neutral.surface,
     borderRadius: borderRadius.lg,
     padding: spacing.lg,
-    marginBottom: spacing.xxl,
+    marginBottom: spacing.sm,
     borderWidth: 2,
+    borderColor: colors.neutral[200],
+  },
+
+  exerciseCardSelected: {
     borderColor: colors.primary[500],
   },
 
@@ -254,6 +475,28 @@ const styles = StyleSheet.create({
     color: colors.neutral.textSecondary,
   },
 
+  calibrationCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    backgroundColor: colors.neutral.surface,
+    borderRadius: borderRadius.lg,
+    padding: spacing.md,
+    marginTop: -spacing.lg,
+    marginBottom: spacing.xxl,
+    borderWidth: 1,
+    borderColor: colors.neutral[200],
+  },
+
+  calibrationInfo: {
+    flex: 1,
+  },
+
+  calibrationActions: {
+    flexDirection: 'row',
+    gap: spacing.xs,
+  },
+
   configSection: {
     marginBottom: spacing.xl,
   },
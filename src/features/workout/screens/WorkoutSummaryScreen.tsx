@@ -7,7 +7,7 @@
  * Features:
  * - Overall score (CircularProgress)
  * - Total reps, duration, average score
- * - Per-set breakdown
+ * - Per-set breakdown (score, time, tempo adherence, velocity loss)
  * - Save to database
  * - Navigate back to home
  */
@@ -21,13 +21,10 @@ import Button from '@/shared/components/Button';
 import StatCard from '@/shared/components/StatCard';
 import CircularProgress from '@/shared/components/CircularProgress';
 import { colors, spacing } from '@/core/theme';
+import { detectorRegistry, formatTempo } from '@/motion-engine';
 import { useWorkoutSessionStore } from '../stores/workoutSessionStore';
 import { useAuthStore } from '@/features/auth/store/authStore';
-import {
-  createWorkoutSession,
-  createExerciseSet,
-  endWorkoutSession,
-} from '@/core/database/workoutOperations';
+import { useDashboardStore } from '@/features/home/stores/dashboardStore';
 
 export const WorkoutSummaryScreen = () => {
   const navigation = useNavigation();
@@ -39,6 +36,7 @@ export const WorkoutSummaryScreen = () => {
     getTotalReps,
     getSessionDuration,
     getAverageScore,
+    finalizeSession,
     reset,
   } = useWorkoutSessionStore();
 
@@ -74,31 +72,14 @@ export const WorkoutSummaryScreen = () => {
     setIsSaving(true);
 
     try {
-      // Create workout session in DB
-      const dbSessionId = await createWorkoutSession(user.id, config.exerciseId);
-
-      // Save each completed set
-      for (const set of completedSets) {
-        await createExerciseSet({
-          sessionId: dbSessionId.id,
-          exerciseId: config.exerciseId,
-          setNumber: set.setNumber,
-          repsCompleted: set.repsCompleted,
-          targetReps: config.targetRepsPerSet,
-          duration: set.duration,
-          score: set.averageScore,
-          stabilityScore: 0, // MVP: Simplified scoring
-          rangeScore: 0,
-          consistencyScore: 0,
-          rawData: set.reps, // Store all rep details
-        });
-      }
-
-      // End session with total score
-      await endWorkoutSession(dbSessionId.id, getAverageScore());
+      // Sets were saved as they completed; close the session with its total score
+      await finalizeSession();
 
       setIsSaved(true);
       console.log('[WorkoutSummary] Workout saved successfully');
+
+      // Refresh home dashboard with the new workout
+      useDashboardStore.getState().load(user.id);
     } catch (error) {
       console.error('[WorkoutSummary] Error saving workout:', error);
       Alert.alert('Error', 'No se pudo guardar el workout. Por favor intenta de nuevo.');
@@ -127,6 +108,9 @@ export const WorkoutSummaryScreen = () => {
   const totalReps = getTotalReps();
   const duration = getSessionDuration();
   const averageScore = getAverageScore();
+  const targetTempo = formatTempo(
+    detectorRegistry.get(config.sensorProfile).defaultConfig.targetTempo
+  );
 
   // Format duration
   const minutes = Math.floor(duration / 60000);
@@ -187,6 +171,9 @@ export const WorkoutSummaryScreen = () => {
           <Text variant="label" style={styles.breakdownTitle}>
             DESGLOSE POR SET
           </Text>
+          <Text variant="caption" style={styles.tempoTarget}>
+            Tempo objetivo {targetTempo} (bajada-pausa-subida, segundos)
+          </Text>
 
           {completedSets.map((set) => (
             <View key={set.setNumber} style={styles.setCard}>
@@ -218,6 +205,22 @@ export const WorkoutSummaryScreen = () => {
                     {Math.floor(set.duration / 1000)}s
                   </Text>
                 </View>
+                <View style={styles.setStat}>
+                  <Text variant="caption" style={styles.setStatLabel}>
+                    Tempo
+                  </Text>
+                  <Text variant="metricSmall" style={styles.setStatValue}>
+                    {set.tempoScore === null ? '–' : `${set.tempoScore}%`}
+                  </Text>
+                </View>
+                <View style={styles.setStat}>
+                  <Text variant="caption" style={styles.setStatLabel}>
+                    Velocidad
+                  </Text>
+                  <Text variant="metricSmall" style={styles.setStatValue}>
+                    {set.velocityLoss === null ? '–' : `-${Math.round(set.velocityLoss)}%`}
+                  </Text>
+                </View>
               </View>
             </View>
           ))}
@@ -290,10 +293,15 @@ const styles = StyleSheet.create({
 
   breakdownTitle: {
     color: colors.neutral.textSecondary,
-    marginBottom: spacing.md,
+    marginBottom: spacing.xs,
     letterSpacing: 1.5,
   },
 
+  tempoTarget: {
+    color: colors.neutral.textTertiary,
+    marginBottom: spacing.md,
+  },
+
   setCard: {
     backgroundColor: colors.neutral.surface,
     borderRadius: 12,
@@ -6,31 +6,55 @@
  *
  * Flow:
  * 1. Configure workout (exercise, sets, reps) → PreWorkoutScreen
- * 2. Execute sets → ActiveWorkoutScreen
- * 3. Complete session → WorkoutSummaryScreen
- * 4. Reset for next workout
+ * 2. Start session → open row in workout_sessions
+ * 3. Execute sets → ActiveWorkoutScreen (each set is saved as it completes)
+ * 4. Rest between sets → RestScreen (actual rest recorded on the set)
+ * 5. Complete session → WorkoutSummaryScreen closes the session
+ * 6. Reset for next workout
+ *
+ * If the app dies mid-workout the session stays open in the database;
+ * resumeSession() rebuilds this store from it on the next launch.
  */
 
 import { create } from 'zustand';
 import { DetectedRep } from '@/motion-engine';
+import {
+  createWorkoutSession,
+  createExerciseSet,
+  endWorkoutSession,
+  updateSetRestDuration,
+  toDetectedRep,
+  OpenWorkoutSession,
+  StoredRep,
+} from '@/core/database/workoutOperations';
 
 // ============= TYPES =============
 
 export interface WorkoutConfig {
   exerciseId: string;
   exerciseName: string;
+  sensorProfile: string; // exercises.sensor_profile → detector profile
   totalSets: number;
   targetRepsPerSet: number;
+  restDuration: number; // milliseconds between sets
+  velocityLossLimit: number | null; // % velocity loss that ends a set (null = never)
   userId: string;
 }
 
+/** Rest used when a resumed session has no stored plan */
+export const DEFAULT_REST_DURATION = 90000;
+
 export interface CompletedSet {
   setNumber: number;
   reps: DetectedRep[];
   repsCompleted: number;
   duration: number; // milliseconds
   averageScore: number;
+  tempoScore: number | null; // Average rep tempo adherence, 0-100 (null = no scored reps)
+  velocityLoss: number | null; // Last rep's % speed loss vs the first reps (null = too few reps)
   timestamp: number;
+  restDuration: number | null; // Rest actually taken after this set (null until known / last set)
+  savedSetId: string | null; // exercise_sets.id once persisted (null until the write succeeds)
 }
 
 interface WorkoutSessionState {
@@ -48,10 +72,13 @@ interface WorkoutSessionState {
 
   // Actions
   configureWorkout: (config: WorkoutConfig) => void;
-  startSession: () => void;
-  completeSet: (setData: CompletedSet) => void;
+  startSession: () => Promise<void>;
+  resumeSession: (open: OpenWorkoutSession) => void;
+  completeSet: (setData: Omit<CompletedSet, 'savedSetId' | 'restDuration'>) => Promise<void>;
+  recordRest: (setNumber: number, restDuration: number) => Promise<void>;
   nextSet: () => void;
   endSession: () => void;
+  finalizeSession: () => Promise<void>;
   reset: () => void;
 
   // Computed getters
@@ -72,6 +99,9 @@ const initialState = {
   sessionStartTime: null,
 };
 
+/** Set writes started by completeSet that haven't finished yet */
+const pendingSaves = new Set<Promise<void>>();
+
 // ============= STORE =============
 
 export const useWorkoutSessionStore = create<WorkoutSessionState>((set, get) => ({
@@ -83,35 +113,135 @@ export const useWorkoutSessionStore = create<WorkoutSessionState>((set, get) =>
    */
   configureWorkout: (config) => {
     set({
+      ...initialState,
       config,
-      currentSet: 1,
-      completedSets: [],
     });
   },
 
   /**
    * Start workout session
-   * Generates session ID and records start time
+   * Creates the open session row in the database and records start time.
+   * A resumed session already has one, so it is only reactivated.
    */
-  startSession: () => {
-    const sessionId = `session-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+  startSession: async () => {
+    const { config, sessionId } = get();
+    if (!config) return;
+
+    if (sessionId) {
+      set({ isActive: true });
+      return;
+    }
+
+    const session = await createWorkoutSession(config.userId, config.exerciseId, {
+      plannedSets: config.totalSets,
+      targetReps: config.targetRepsPerSet,
+      restDuration: config.restDuration,
+      velocityLossLimit: config.velocityLossLimit,
+    });
+
     set({
       isActive: true,
-      sessionId,
-      sessionStartTime: Date.now(),
+      sessionId: session.id,
+      sessionStartTime: session.started_at,
       currentSet: 1,
       completedSets: [],
     });
   },
 
+  /**
+   * Rebuild state from an unfinished database session
+   * Continues with the set after the last saved one.
+   */
+  resumeSession: (open) => {
+    const { session, exercise, sets, reps } = open;
+    if (!exercise) return;
+
+    const repsBySet: Record<string, StoredRep[]> = {};
+    reps.forEach((rep) => {
+      (repsBySet[rep.set_id] ??= []).push(rep);
+    });
+
+    const completedSets: CompletedSet[] = sets.map((stored) => ({
+      setNumber: stored.set_number,
+      reps: (repsBySet[stored.id] ?? []).map(toDetectedRep),
+      repsCompleted: stored.reps_completed ?? 0,
+      duration: stored.duration ?? 0,
+      averageScore: stored.score ?? 0,
+      tempoScore: stored.tempo_score,
+      velocityLoss: stored.velocity_loss,
+      timestamp: stored.created_at,
+      restDuration: stored.rest_duration,
+      savedSetId: stored.id,
+    }));
+
+    set({
+      config: {
+        exerciseId: exercise.id,
+        exerciseName: exercise.name,
+        sensorProfile: exercise.sensor_profile,
+        // Sessions from before schema v4 have no plan: allow at least one more set
+        totalSets: session.planned_sets ?? completedSets.length + 1,
+        targetRepsPerSet: session.target_reps ?? sets[0]?.target_reps ?? 10,
+        restDuration: session.planned_rest ?? DEFAULT_REST_DURATION,
+        velocityLossLimit: session.velocity_loss_limit,
+        userId: session.user_id,
+      },
+      isActive: false,
+      currentSet: completedSets.length + 1,
+      completedSets,
+      sessionId: session.id,
+      sessionStartTime: session.started_at,
+    });
+  },
+
   /**
    * Mark current set as completed
-   * Stores set data for later database persistence
+   * Saves it to the database right away, so it survives a crash.
+   * A failed write is retried by finalizeSession.
    */
-  completeSet: (setData) => {
+  completeSet: async (setData) => {
+    const completed: CompletedSet = { ...setData, restDuration: null, savedSetId: null };
     set((state) => ({
-      completedSets: [...state.completedSets, setData],
+      completedSets: [...state.completedSets, completed],
     }));
+
+    const { config, sessionId } = get();
+    if (!config || !sessionId) return;
+
+    const saving = saveCompletedSet(sessionId, config, completed)
+      .then((savedSetId) => markSetSaved(set, completed, savedSetId))
+      .catch((error) => {
+        console.error('[WorkoutSession] Error saving set, will retry on finish:', error);
+      })
+      .finally(() => {
+        pendingSaves.delete(saving);
+      });
+    pendingSaves.add(saving);
+    await saving;
+  },
+
+  /**
+   * Record the rest actually taken after a set
+   * Waits for a set write still in flight (it was started without the rest);
+   * if the set couldn't be saved, finalizeSession writes it with the rest included.
+   */
+  recordRest: async (setNumber, restDuration) => {
+    set((state) => ({
+      completedSets: state.completedSets.map((s) =>
+        s.setNumber === setNumber ? { ...s, restDuration } : s
+      ),
+    }));
+
+    await Promise.all(pendingSaves);
+
+    const completed = get().completedSets.find((s) => s.setNumber === setNumber);
+    if (!completed?.savedSetId) return;
+
+    try {
+      await updateSetRestDuration(completed.savedSetId, restDuration);
+    } catch (error) {
+      console.error('[WorkoutSession] Error saving rest duration:', error);
+    }
   },
 
   /**
@@ -134,6 +264,28 @@ export const useWorkoutSessionStore = create<WorkoutSessionState>((set, get) =>
     });
   },
 
+  /**
+   * Close the session in the database
+   * Waits for set writes still in flight (the last set isn't awaited before
+   * navigating here), saves any set whose write failed, then records the
+   * final score. Called from WorkoutSummaryScreen.
+   */
+  finalizeSession: async () => {
+    const { config, sessionId } = get();
+    if (!config || !sessionId) return;
+
+    // Writing an in-flight set again would insert it (and its reps) twice
+    await Promise.all(pendingSaves);
+
+    for (const completed of get().completedSets) {
+      if (completed.savedSetId) continue;
+      const savedSetId = await saveCompletedSet(sessionId, config, completed);
+      markSetSaved(set, completed, savedSetId);
+    }
+
+    await endWorkoutSession(sessionId, get().getAverageScore());
+  },
+
   /**
    * Reset store to initial state
    * Called after viewing summary or canceling workout
@@ -181,3 +333,52 @@ export const useWorkoutSessionStore = create<WorkoutSessionState>((set, get) =>
     return completedSets.length >= config.totalSets;
   },
 }));
+
+// ============= PERSISTENCE =============
+
+/**
+ * Write one completed set (and its reps)
+ *
+ * @returns exercise_sets.id
+ */
+const saveCompletedSet = async (
+  sessionId: string,
+  config: WorkoutConfig,
+  completed: CompletedSet
+): Promise<string> => {
+  const consistencyScores = completed.reps.flatMap((rep) => (rep.score ? [rep.score.consistency] : []));
+  const consistencyScore = consistencyScores.length > 0
+    ? Math.round(consistencyScores.reduce((a, b) => a + b, 0) / consistencyScores.length)
+    : 0;
+
+  const saved = await createExerciseSet({
+    sessionId,
+    exerciseId: config.exerciseId,
+    setNumber: completed.setNumber,
+    repsCompleted: completed.repsCompleted,
+    targetReps: config.targetRepsPerSet,
+    duration: completed.duration,
+    score: completed.averageScore,
+    stabilityScore: 0, // MVP: Simplified scoring
+    rangeScore: 0,
+    consistencyScore, // Average rep-to-rep consistency
+    tempoScore: completed.tempoScore,
+    velocityLoss: completed.velocityLoss,
+    reps: completed.reps, // Stored one row per rep
+    restDuration: completed.restDuration,
+  });
+
+  return saved.id;
+};
+
+const markSetSaved = (
+  set: (fn: (state: WorkoutSessionState) => Partial<WorkoutSessionState>) => void,
+  completed: CompletedSet,
+  savedSetId: string
+): void => {
+  set((state) => ({
+    completedSets: state.completedSets.map((s) =>
+      s.setNumber === completed.setNumber ? { ...s, savedSetId } : s
+    ),
+  }));
+};
@@ -0,0 +1,17 @@
+/**
+ * Workout Formatters - Display helpers for the workout flow
+ * TrynerApp - Workout Feature
+ */
+
+/**
+ * Format a rest duration as M:SS
+ * Rounds up, so a countdown shows 0:00 only once time is actually up.
+ *
+ * @param durationMs - Duration in milliseconds
+ */
+export const formatRestTime = (durationMs: number): string => {
+  const totalSeconds = Math.max(0, Math.ceil(durationMs / 1000));
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = (totalSeconds % 60).toString().padStart(2, '0');
+  return `${minutes}:${seconds}`;
+};
@@ -0,0 +1,215 @@
+/**
+ * Replay Sensor Adapter - Deterministic Playback of Recorded Sessions
+ * TrynerApp - Motion Engine
+ *
+ * Feeds a recorded AccelerometerData array through the same SensorSource
+ * interface as the live SensorAdapter, so the full pipeline can run
+ * without a phone.
+ *
+ * Samples keep their recorded timestamps, so detection results only depend
+ * on the recording, not on playback timing.
+ *
+ * Usage:
+ * ```typescript
+ * const replay = new ReplaySensorAdapter(recordedSamples, { speed: 0 });
+ * const engine = new MotionEngine(DEFAULT_MOTION_CONFIG, callbacks, replay);
+ *
+ * await engine.start();
+ * await replay.waitForCompletion();
+ * engine.stop();
+ * ```
+ */
+
+import { AccelerometerData } from '../types';
+import { SensorSource } from './SensorSource';
+import { BUFFER } from '../core/constants';
+
+interface ReplaySensorAdapterConfig {
+  speed: number;        // 1 = real time, 4 = 4× faster, 0 = as fast as possible
+  bufferSize: number;   // Max samples to store (default: 240 = 4s)
+}
+
+const DEFAULT_REPLAY_CONFIG: ReplaySensorAdapterConfig = {
+  speed: 1,
+  bufferSize: BUFFER.MAX_SIZE,
+};
+
+export class ReplaySensorAdapter implements SensorSource {
+  private samples: AccelerometerData[];
+  private config: ReplaySensorAdapterConfig;
+  private buffer: AccelerometerData[] = [];
+  private nextIndex: number = 0;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private onData: ((data: AccelerometerData) => void) | null = null;
+  private isActive: boolean = false;
+
+  // Resolved when playback finishes or is stopped
+  private completion: Promise<void> = Promise.resolve();
+  private resolveCompletion: (() => void) | null = null;
+
+  /**
+   * @param samples - Recorded samples, ordered by timestamp
+   * @param config - Playback speed and buffer size
+   */
+  constructor(samples: AccelerometerData[], config: Partial<ReplaySensorAdapterConfig> = {}) {
+    this.samples = samples;
+    this.config = { ...DEFAULT_REPLAY_CONFIG, ...config };
+
+    if (this.config.speed < 0) {
+      throw new Error('ReplaySensorAdapter: speed must be 0 (instant) or positive');
+    }
+  }
+
+  /**
+   * Start playback
+   *
+   * Samples are emitted asynchronously, after this promise resolves,
+   * so the engine is already active when the first one arrives.
+   *
+   * @param onData - Callback invoked on each replayed sample
+   * @throws Error if already started
+   */
+  async start(onData: (data: AccelerometerData) => void): Promise<void> {
+    if (this.isActive) {
+      throw new Error('ReplaySensorAdapter: Already started');
+    }
+
+    this.onData = onData;
+    this.buffer = [];
+    this.nextIndex = 0;
+    this.isActive = true;
+    this.completion = new Promise((resolve) => {
+      this.resolveCompletion = resolve;
+    });
+
+    this.scheduleNext(0);
+  }
+
+  /**
+   * Stop playback (can be resumed only by starting again from the beginning)
+   */
+  stop(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    this.isActive = false;
+    this.onData = null;
+
+    if (this.resolveCompletion) {
+      this.resolveCompletion();
+      this.resolveCompletion = null;
+    }
+  }
+
+  /**
+   * Wait until every sample has been emitted (or playback was stopped)
+   */
+  waitForCompletion(): Promise<void> {
+    return this.completion;
+  }
+
+  /**
+   * Schedule emission of the next sample
+   *
+   * @param delayMs - Wall-clock delay before emitting
+   */
+  private scheduleNext(delayMs: number): void {
+    this.timer = setTimeout(() => {
+      this.timer = null;
+
+      if (this.config.speed === 0) {
+        this.emitRemaining();
+      } else {
+        this.emitNext();
+      }
+    }, delayMs);
+  }
+
+  /**
+   * Emit one sample and schedule the following one at recorded spacing
+   */
+  private emitNext(): void {
+    if (this.nextIndex >= this.samples.length || !this.emit()) {
+      this.stop();
+      return;
+    }
+
+    if (this.nextIndex >= this.samples.length) {
+      this.stop();
+      return;
+    }
+
+    const previous = this.samples[this.nextIndex - 1];
+    const next = this.samples[this.nextIndex];
+    const gapMs = Math.max(0, next.timestamp - previous.timestamp);
+    this.scheduleNext(gapMs / this.config.speed);
+  }
+
+  /**
+   * Instant mode: emit every remaining sample in one go
+   */
+  private emitRemaining(): void {
+    while (this.isActive && this.nextIndex < this.samples.length) {
+      this.emit();
+    }
+    this.stop();
+  }
+
+  /**
+   * Emit the sample at nextIndex
+   *
+   * @returns False if playback is no longer active
+   */
+  private emit(): boolean {
+    if (!this.isActive || !this.onData) return false;
+
+    const sample = this.samples[this.nextIndex];
+    this.nextIndex++;
+
+    // Copy so consumers can't mutate the recording
+    const data: AccelerometerData = { ...sample };
+    this.addToBuffer(data);
+    this.onData(data);
+    return true;
+  }
+
+  /**
+   * Add sample to circular buffer
+   */
+  private addToBuffer(data: AccelerometerData): void {
+    this.buffer.push(data);
+
+    if (this.buffer.length > this.config.bufferSize) {
+      this.buffer.shift();
+    }
+  }
+
+  /**
+   * Get recent replayed samples (copy)
+   */
+  getBuffer(): AccelerometerData[] {
+    return [...this.buffer];
+  }
+
+  /**
+   * Check if playback is in progress
+   */
+  isRunning(): boolean {
+    return this.isActive;
+  }
+
+  /**
+   * Get playback progress
+   */
+  getProgress(): { emitted: number; total: number } {
+    return { emitted: this.nextIndex, total: this.samples.length };
+  }
+
+  /**
+   * Get current configuration
+   */
+  getConfig(): ReplaySensorAdapterConfig {
+    return { ...this.config };
+  }
+}
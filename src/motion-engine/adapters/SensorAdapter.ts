@@ -4,24 +4,32 @@
  *
  * Responsibilities:
  * - Subscribe to device accelerometer via expo-sensors
+ * - Optionally subscribe to the gyroscope or DeviceMotion and attach the
+ *   latest rotation rate to each accelerometer sample (sensor fusion input)
  * - Maintain circular buffer of recent readings (240 samples = 4s)
  * - Normalize timestamps relative to session start
  * - Provide buffer access for peak detection algorithms
  */
 
-import { Accelerometer } from 'expo-sensors';
+import { Platform } from 'react-native';
+import { Accelerometer, DeviceMotion, Gyroscope } from 'expo-sensors';
 import type { Subscription } from 'expo-sensors/build/Pedometer';
-import { AccelerometerData } from '../types';
+import { AccelerometerData, SensorFusionMode } from '../types';
+import { RotationRate } from '../processors/OrientationFilter';
+import { SensorSource } from './SensorSource';
 
 interface SensorAdapterConfig {
   samplingRate: number;  // Target Hz (default: 60)
   bufferSize: number;    // Max samples to store (default: 240 = 4s)
+  fusion?: SensorFusionMode; // Rotation input to attach (default: 'none')
 }
 
-export class SensorAdapter {
+export class SensorAdapter implements SensorSource {
   private config: SensorAdapterConfig;
   private buffer: AccelerometerData[] = [];
   private subscription: Subscription | null = null;
+  private rotationSubscription: Subscription | null = null;
+  private latestRotation: RotationRate | null = null;
   private sessionStartTime: number = 0;
   private isActive: boolean = false;
 
@@ -84,6 +92,9 @@ export class SensorAdapter {
     }
     Accelerometer.setUpdateInterval(intervalMs);
 
+    // Rotation input first, so the earliest accelerometer samples can carry it
+    await this.startRotationInput(intervalMs);
+
     // Subscribe to accelerometer updates
     let dataReceivedCount = 0;
     this.subscription = Accelerometer.addListener((sensorData) => {
@@ -106,6 +117,13 @@ export class SensorAdapter {
         timestamp: Date.now() - this.sessionStartTime, // Relative timestamp (ms)
       };
 
+      // Attach the latest rotation reading (sample-and-hold between gyro updates)
+      if (this.latestRotation) {
+        data.gyroX = this.latestRotation.x;
+        data.gyroY = this.latestRotation.y;
+        data.gyroZ = this.latestRotation.z;
+      }
+
       // Add to circular buffer
       this.addToBuffer(data);
 
@@ -128,9 +146,61 @@ export class SensorAdapter {
       this.subscription.remove();
       this.subscription = null;
     }
+    if (this.rotationSubscription) {
+      this.rotationSubscription.remove();
+      this.rotationSubscription = null;
+    }
+    this.latestRotation = null;
     this.isActive = false;
   }
 
+  /**
+   * Subscribe to the configured rotation input
+   *
+   * A missing gyroscope or motion service is not fatal: the session
+   * continues on the accelerometer alone.
+   *
+   * @param intervalMs - Update interval matching the accelerometer
+   */
+  private async startRotationInput(intervalMs: number): Promise<void> {
+    const fusion = this.config.fusion ?? 'none';
+    this.latestRotation = null;
+
+    if (fusion === 'gyroscope') {
+      if (!(await Gyroscope.isAvailableAsync())) {
+        console.warn('[SensorAdapter] Gyroscope not available, using accelerometer only');
+        return;
+      }
+      Gyroscope.setUpdateInterval(intervalMs);
+      // expo-sensors reports the gyroscope in rad/s
+      this.rotationSubscription = Gyroscope.addListener(({ x, y, z }) => {
+        this.latestRotation = { x, y, z };
+      });
+    } else if (fusion === 'deviceMotion') {
+      if (!(await DeviceMotion.isAvailableAsync())) {
+        console.warn('[SensorAdapter] DeviceMotion not available, using accelerometer only');
+        return;
+      }
+      DeviceMotion.setUpdateInterval(intervalMs);
+      // rotationRate is in deg/s. Android sends alpha/beta/gamma around
+      // X/Y/Z; iOS sends them around Z/Y/X (alpha = rotationRate.z)
+      const isIOS = Platform.OS === 'ios';
+      this.rotationSubscription = DeviceMotion.addListener(({ rotationRate }) => {
+        if (!rotationRate) return;
+        const { alpha, beta, gamma } = rotationRate;
+        this.latestRotation = {
+          x: ((isIOS ? gamma : alpha) * Math.PI) / 180,
+          y: (beta * Math.PI) / 180,
+          z: ((isIOS ? alpha : gamma) * Math.PI) / 180,
+        };
+      });
+    }
+
+    if (__DEV__ && this.rotationSubscription) {
+      console.log(`[SensorAdapter] 🔄 Rotation input: ${fusion}`);
+    }
+  }
+
   /**
    * Add sample to circular buffer
    * If buffer exceeds max size, remove oldest sample (FIFO)
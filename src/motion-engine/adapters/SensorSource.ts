@@ -0,0 +1,35 @@
+/**
+ * Sensor Source - Abstract Accelerometer Input
+ * TrynerApp - Motion Engine
+ *
+ * Anything that can feed accelerometer samples into the Motion Engine:
+ * - SensorAdapter: live device accelerometer (expo-sensors)
+ * - ReplaySensorAdapter: recorded sessions, for deterministic playback
+ */
+
+import { AccelerometerData } from '../types';
+
+export interface SensorSource {
+  /**
+   * Start emitting samples
+   *
+   * @param onData - Callback invoked on each accelerometer reading
+   * @throws Error if the source is unavailable or already started
+   */
+  start(onData: (data: AccelerometerData) => void): Promise<void>;
+
+  /**
+   * Stop emitting samples
+   */
+  stop(): void;
+
+  /**
+   * Get recent samples (copy)
+   */
+  getBuffer(): AccelerometerData[];
+
+  /**
+   * Check if the source is currently emitting
+   */
+  isRunning(): boolean;
+}
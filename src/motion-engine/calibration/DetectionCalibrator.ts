@@ -0,0 +1,153 @@
+/**
+ * Detection Calibrator - Per-User Thresholds from Reference Reps
+ * TrynerApp - Motion Engine
+ *
+ * The default detection configs use fixed, lenient thresholds. During
+ * calibration the user performs a few reference reps (standing still
+ * between them); this module finds those reps in the raw samples and
+ * lets the exercise's profile turn them into personal thresholds.
+ *
+ * Pipeline:
+ * 1. Run the raw samples through SignalProcessor
+ * 2. Baseline = median filteredMagnitude (standing still dominates)
+ * 3. A rep = a run of samples outside the still band, short gaps merged
+ * 4. Measure drop / swing / prominence per rep, from its opening dip and
+ *    the highest point after it (a squat's descent and the braking at the
+ *    bottom, not the deeper dip where the faster ascent decelerates)
+ * 5. profile.calibrate(typical rep) → config overrides, where the typical
+ *    rep takes the median of each measure (one odd rep doesn't skew it)
+ *
+ * Works on raw samples only, so recorded calibrations replay to the
+ * same result.
+ *
+ * Usage:
+ * ```typescript
+ * const { overrides } = calibrateDetection(recording.samples, 'squat');
+ * const config = { ...DEFAULT_SQUAT_CONFIG, ...overrides };
+ * ```
+ */
+
+import { AccelerometerData, BaseDetectionConfig, CalibrationRep, ProcessedSensorData } from '../types';
+import { SignalProcessor } from '../processors/SignalProcessor';
+import { detectorRegistry, DetectorRegistry } from '../detectors/DetectorRegistry';
+
+// ============= CONSTANTS =============
+
+/** Fewest reference reps a calibration accepts */
+export const MIN_CALIBRATION_REPS = 3;
+
+/** G around the baseline that still counts as standing still */
+const STILL_BAND = 0.05;
+
+/** Movement gaps shorter than this (ms) belong to the same rep (e.g. a pause at the bottom) */
+const MERGE_GAP_MS = 400;
+
+/** Movement shorter than this (ms) is a bump, not a rep */
+const MIN_REP_MS = 300;
+
+// ============= TYPES =============
+
+export interface CalibrationResult<TConfig extends BaseDetectionConfig = BaseDetectionConfig> {
+  /** Personal values to apply on top of the profile's default config */
+  overrides: Partial<TConfig>;
+
+  /** Reference reps the values were derived from */
+  reps: CalibrationRep[];
+}
+
+// ============= CALIBRATION =============
+
+/**
+ * Derive personal detection thresholds from a calibration recording
+ *
+ * @param samples - Raw samples captured while the user did the reference reps
+ * @param profileId - sensor_profile being calibrated
+ * @param registry - Registry to look the profile up in (default: shared registry)
+ * @returns Config overrides and the reference reps they came from
+ * @throws Error if the profile can't be calibrated or fewer than MIN_CALIBRATION_REPS reps were found
+ */
+export function calibrateDetection(
+  samples: AccelerometerData[],
+  profileId: string,
+  registry: DetectorRegistry = detectorRegistry
+): CalibrationResult {
+  const profile = registry.get(profileId);
+  if (!profile.calibrate) {
+    throw new Error(`DetectionCalibrator: Profile '${profileId}' does not support calibration`);
+  }
+
+  const processor = SignalProcessor.fromConfig(profile.defaultConfig);
+  const processed: ProcessedSensorData[] = [];
+  for (const sample of samples) {
+    // Glitched readings are dropped, as the live engine does
+    if (!isFinite(sample.x) || !isFinite(sample.y) || !isFinite(sample.z)) continue;
+    processed.push(processor.process(sample));
+  }
+
+  const reps = findCalibrationReps(processed);
+  if (reps.length < MIN_CALIBRATION_REPS) {
+    throw new Error(
+      `DetectionCalibrator: Found ${reps.length} reference reps, need at least ${MIN_CALIBRATION_REPS}`
+    );
+  }
+
+  const typical: CalibrationRep = {
+    startTime: reps[0].startTime,
+    endTime: reps[reps.length - 1].endTime,
+    drop: median(reps.map((rep) => rep.drop)),
+    swing: median(reps.map((rep) => rep.swing)),
+    prominence: median(reps.map((rep) => rep.prominence)),
+  };
+
+  return { overrides: profile.calibrate(typical), reps };
+}
+
+/**
+ * Find reference reps in processed samples
+ *
+ * @param data - Processed samples of the whole calibration
+ * @returns Reps in time order (empty if the signal never leaves the still band)
+ */
+export function findCalibrationReps(data: ProcessedSensorData[]): CalibrationRep[] {
+  if (data.length === 0) return [];
+
+  const baseline = median(data.map((d) => d.filteredMagnitude));
+
+  // Runs of samples outside the still band, as [startIndex, endIndex]
+  const runs: Array<[number, number]> = [];
+  data.forEach((d, index) => {
+    if (Math.abs(d.filteredMagnitude - baseline) <= STILL_BAND) return;
+
+    const last = runs[runs.length - 1];
+    if (last && d.timestamp - data[last[1]].timestamp <= MERGE_GAP_MS) {
+      last[1] = index;
+    } else {
+      runs.push([index, index]);
+    }
+  });
+
+  return runs
+    .filter(([start, end]) => data[end].timestamp - data[start].timestamp >= MIN_REP_MS)
+    .map(([start, end]) => {
+      const magnitudes = data.slice(start, end + 1).map((d) => d.filteredMagnitude);
+      const highest = Math.max(...magnitudes);
+      const lowest = Math.min(...magnitudes.slice(0, magnitudes.indexOf(highest) + 1));
+
+      return {
+        startTime: data[start].timestamp,
+        endTime: data[end].timestamp,
+        drop: Math.max(0, baseline - lowest),
+        swing: highest - lowest,
+        prominence: Math.max(0, highest - baseline),
+      };
+    });
+}
+
+/**
+ * Median of a non-empty list
+ */
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+}
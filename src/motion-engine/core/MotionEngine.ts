@@ -5,6 +5,14 @@
  * Orchestrates the complete motion detection pipeline:
  * Sensor → Signal Processing → Rep Detection → Scoring → Callbacks
  *
+ * In parallel, a StillnessDetector watches the processed signal and
+ * fires onMovementStopped once the user has been still for a while,
+ * and a FatigueDetector fires onVelocityLoss once reps slow down past
+ * the configured velocity loss.
+ *
+ * Sensor input is any SensorSource: the live SensorAdapter by default,
+ * or a ReplaySensorAdapter to run recorded sessions without a device.
+ *
  * Public API:
  * - start() / pause() / resume() / stop()
  * - getStatus() - Current state and metrics
@@ -21,20 +29,34 @@ import {
   AccelerometerData,
 } from '../types';
 import { SensorAdapter } from '../adapters/SensorAdapter';
+import { SensorSource } from '../adapters/SensorSource';
+import { SessionRecorder } from '../recording/SessionRecorder';
 import { SignalProcessor } from '../processors/SignalProcessor';
-import { SquatDetector } from '../detectors/SquatDetector';
+import { RepDetector } from '../detectors/RepDetector';
+import { detectorRegistry } from '../detectors/DetectorRegistry';
 import { ScoringEngine } from '../scoring/ScoringEngine';
-import { DEFAULT_MOTION_CONFIG } from './constants';
+import { StillnessDetector } from '../processors/StillnessDetector';
+import { FatigueDetector } from '../processors/FatigueDetector';
+import {
+  DEFAULT_MOTION_CONFIG,
+  DEFAULT_REST_DETECTION_CONFIG,
+  DEFAULT_FATIGUE_DETECTION_CONFIG,
+} from './constants';
 
 export class MotionEngine {
   private config: MotionEngineConfig;
   private callbacks: MotionEngineCallbacks;
 
   // Pipeline components
-  private sensorAdapter: SensorAdapter;
+  private sensorAdapter: SensorSource;
   private signalProcessor: SignalProcessor;
-  private detector: SquatDetector;
+  private detector: RepDetector;
   private scorer: ScoringEngine;
+  private stillnessDetector: StillnessDetector;
+  private fatigueDetector: FatigueDetector;
+
+  // Optional raw capture of the full sensor stream
+  private recorder: SessionRecorder | null = null;
 
   // State
   private state: MotionEngineState = 'idle';
@@ -50,25 +72,40 @@ export class MotionEngine {
   /**
    * @param config - Motion Engine configuration
    * @param callbacks - Event callbacks
+   * @param sensorSource - Optional sensor input (default: live accelerometer)
    */
   constructor(
     config: MotionEngineConfig = DEFAULT_MOTION_CONFIG,
-    callbacks: MotionEngineCallbacks
+    callbacks: MotionEngineCallbacks,
+    sensorSource?: SensorSource
   ) {
     this.config = config;
     this.callbacks = callbacks;
 
     // Initialize pipeline components
-    this.sensorAdapter = new SensorAdapter({
+    this.sensorAdapter = sensorSource ?? new SensorAdapter({
       samplingRate: config.detectionConfig.samplingRate,
       bufferSize: config.detectionConfig.bufferSize,
+      fusion: config.sensorFusion,
     });
 
-    this.signalProcessor = new SignalProcessor(config.detectionConfig.lowPassAlpha);
+    this.signalProcessor = SignalProcessor.fromConfig(config.detectionConfig);
+
+    // Detector and scoring weights come from the exercise's sensor profile
+    // (throws if the profile is not registered)
+    const profile = detectorRegistry.get(config.exerciseType);
+
+    this.detector = profile.createDetector(config.detectionConfig);
 
-    this.detector = new SquatDetector(config.detectionConfig);
+    this.scorer = new ScoringEngine(profile.scoringWeights);
 
-    this.scorer = new ScoringEngine();
+    this.stillnessDetector = new StillnessDetector(
+      config.restDetection ?? DEFAULT_REST_DETECTION_CONFIG
+    );
+
+    this.fatigueDetector = new FatigueDetector(
+      config.fatigueDetection ?? DEFAULT_FATIGUE_DETECTION_CONFIG
+    );
   }
 
   /**
@@ -90,6 +127,9 @@ export class MotionEngine {
       // Reset all components
       this.signalProcessor.reset();
       this.detector.reset();
+      this.stillnessDetector.reset();
+      this.scorer.resetSet();
+      this.fatigueDetector.reset();
       this.recentData = [];
       this.sessionStartTime = Date.now();
       this.lastRepTimestamp = null;
@@ -129,6 +169,8 @@ export class MotionEngine {
     if (this.state !== 'paused') {
       throw new Error('MotionEngine: Not paused');
     }
+    // Time spent paused doesn't count towards stillness
+    this.stillnessDetector.reset();
     this.setState('active');
   }
 
@@ -169,6 +211,19 @@ export class MotionEngine {
     // Don't process if paused
     if (this.state !== 'active') return;
 
+    // Raw capture happens before processing so recordings stay replayable
+    if (this.recorder) {
+      try {
+        this.recorder.record(rawData);
+      } catch (recorderError) {
+        console.error('[MotionEngine] ❌ Recorder error:', recorderError);
+      }
+    }
+
+    // Glitched readings (NaN/Infinity) are skipped, not pipeline errors: a
+    // burst of them must not stop the session
+    if (!isFinite(rawData.x) || !isFinite(rawData.y) || !isFinite(rawData.z)) return;
+
     // CRITICAL FIX: Stop processing if too many errors (prevent crash loop)
     if (this.consecutivePipelineErrors >= this.MAX_CONSECUTIVE_ERRORS) {
       console.error('[MotionEngine] 🚨 Too many consecutive errors, stopping engine');
@@ -225,6 +280,8 @@ export class MotionEngine {
             // Don't increment error counter for callback errors - those are user code issues
           }
 
+          this.checkFatigue(repWithScore);
+
           // Only log in dev mode or when debug is enabled
           if (__DEV__ && this.config.enableDebugMode) {
             console.log('[MotionEngine] Rep detected:', {
@@ -241,6 +298,9 @@ export class MotionEngine {
         }
       }
 
+      // 5. Rest detection (movement stopped)
+      this.checkStillness(processed);
+
       // Reset error counter on successful pipeline run
       this.consecutivePipelineErrors = 0;
     } catch (error) {
@@ -258,6 +318,53 @@ export class MotionEngine {
     }
   }
 
+  /**
+   * Feed the stillness detector and fire onMovementStopped
+   * Errors here never count against the pipeline: rest detection is optional
+   */
+  private checkStillness(data: ProcessedSensorData): void {
+    try {
+      const event = this.stillnessDetector.update(data, this.detector.getRepCount());
+
+      if (event && this.callbacks.onMovementStopped) {
+        if (__DEV__ && this.config.enableDebugMode) {
+          console.log('[MotionEngine] Movement stopped:', {
+            stillFor: event.timestamp - event.stillSince,
+            variance: event.variance.toExponential(2),
+            repCount: event.repCount,
+          });
+        }
+        this.callbacks.onMovementStopped(event);
+      }
+    } catch (error) {
+      console.error('[MotionEngine] ❌ Stillness detection error:', error);
+    }
+  }
+
+  /**
+   * Feed a valid rep to the fatigue detector and fire onVelocityLoss
+   * Errors here never count against the pipeline: fatigue detection is optional
+   */
+  private checkFatigue(rep: DetectedRep): void {
+    try {
+      const event = this.fatigueDetector.update(rep);
+
+      if (event && this.callbacks.onVelocityLoss) {
+        if (__DEV__ && this.config.enableDebugMode) {
+          console.log('[MotionEngine] Velocity loss:', {
+            repNumber: event.repNumber,
+            velocityLoss: `${event.velocityLoss.toFixed(1)}%`,
+            speed: event.concentricSpeed.toFixed(2),
+            baseline: event.baselineSpeed.toFixed(2),
+          });
+        }
+        this.callbacks.onVelocityLoss(event);
+      }
+    } catch (error) {
+      console.error('[MotionEngine] ❌ Fatigue detection error:', error);
+    }
+  }
+
   /**
    * Add processed data to recent buffer (for graphing)
    * Maintains circular buffer of last N samples
@@ -330,9 +437,30 @@ export class MotionEngine {
     // Update detector config if provided
     if (config.detectionConfig) {
       this.detector.setConfig(config.detectionConfig);
+
+      if (config.detectionConfig.filters) {
+        this.signalProcessor.setFilters(config.detectionConfig.filters);
+      }
+    }
+
+    if (config.restDetection) {
+      this.stillnessDetector.setConfig(config.restDetection);
+    }
+
+    if (config.fatigueDetection) {
+      this.fatigueDetector.setConfig(config.fatigueDetection);
     }
   }
 
+  /**
+   * Attach a recorder to capture raw samples while active
+   *
+   * @param recorder - Recorder to feed, or null to detach
+   */
+  setRecorder(recorder: SessionRecorder | null): void {
+    this.recorder = recorder;
+  }
+
   /**
    * Check if engine is currently running
    */
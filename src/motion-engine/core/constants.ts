@@ -3,7 +3,15 @@
  * TrynerApp - Real-time Squat Detection System
  */
 
-import { SquatDetectionConfig, MotionEngineConfig } from '../types';
+import {
+  SquatDetectionConfig,
+  PushupDetectionConfig,
+  PullupDetectionConfig,
+  MotionEngineConfig,
+  RestDetectionConfig,
+  FatigueDetectionConfig,
+  TempoTarget,
+} from '../types';
 
 // ============= DEFAULT SQUAT DETECTION CONFIG =============
 
@@ -11,12 +19,20 @@ import { SquatDetectionConfig, MotionEngineConfig } from '../types';
  * Default configuration optimized for TESTING AND DEVELOPMENT
  * More lenient thresholds to ensure reps are detected during development
  *
+ * Per-user values for the phase and depth thresholds come from the
+ * calibration routine (see calibration/DetectionCalibrator).
+ *
  * Tuning guide:
  * - Increase minDepthThreshold for stricter depth requirements
  * - Decrease minStabilityScore to be more permissive
- * - Adjust lowPassAlpha: lower = smoother but more lag
+ * - Adjust the low-pass cutoffHz: lower = smoother but more lag
  */
 export const DEFAULT_SQUAT_CONFIG: SquatDetectionConfig = {
+  // Phase transitions
+  descentThreshold: 0.2,             // G drop below standing peak to start a rep (braking check rejects steps)
+  riseThreshold: 0.15,               // G rise above valley to reach bottom
+  adaptiveThresholds: true,          // Scale phase/depth thresholds with recent reps (bounded) and follow idle drift
+
   // Depth thresholds (VERY lenient for testing - real squats show ~0.1-0.2 G change)
   minDepthThreshold: 0.08,           // Minimum magnitude change (G) - VERY LOW for testing
   minZAxisChange: -0.1,              // Minimum vertical drop (G) - VERY LOW for testing
@@ -24,34 +40,160 @@ export const DEFAULT_SQUAT_CONFIG: SquatDetectionConfig = {
   // Timing constraints (DISABLED for testing)
   minRepDuration: 100,               // Min rep time in ms (0.1 seconds) - Very fast allowed
   maxRepDuration: 60000,             // Max rep time in ms (60 seconds) - Effectively disabled for testing
+  targetTempo: { eccentric: 2000, pause: 0, concentric: 1000 }, // 2-0-1
 
   // Peak detection (signal processing)
-  peakProminence: 0.05,              // Minimum peak height above surroundings - Very sensitive
-  minPeakDistance: 15,               // Min samples between peaks (~0.25s at 60Hz)
+  peakProminence: 0.05,              // Min G of the bottom braking peak above standing - Very sensitive
 
   // Quality thresholds (DISABLED for testing - accept all reps)
   minStabilityScore: 0,              // Accept any stability
   minDepthScore: 0,                  // Accept any depth
 
-  // Signal processing
-  lowPassAlpha: 0.22,                // Low-pass filter coefficient (0-1)
-                                     // Lower = smoother but more lag
-                                     // Higher = more responsive but noisier
+  // Signal processing (cutoffs follow the measured sampling rate)
+  filters: [
+    { type: 'median', windowSize: 5 }, // Drop single-sample spikes (bumps, glitches)
+    { type: 'ema', cutoffHz: 2.4 },    // Low-pass; squats move below ~1 Hz
+  ],                                 // Lower cutoff = smoother but more lag
   samplingRate: 60,                  // Target Hz (expo-sensors default)
   bufferSize: 240,                   // Samples to keep (4 seconds at 60Hz)
 };
 
+// ============= DEFAULT PUSH-UP DETECTION CONFIG =============
+
+/**
+ * Default push-up configuration
+ * Push-ups move the phone less than squats, so magnitude thresholds are lower
+ *
+ * Tuning guide:
+ * - Increase minDepthThreshold to require deeper push-ups
+ * - Lower minPlankAlignment if the phone sits at an angle on the back
+ */
+export const DEFAULT_PUSHUP_CONFIG: PushupDetectionConfig = {
+  // Phase transitions
+  descentThreshold: 0.12,            // G drop below plank value to start a rep
+  riseThreshold: 0.08,               // G rise above valley to reach bottom
+  maxPhaseDuration: 4000,            // Abandon rep after 4s in one phase
+
+  // Depth thresholds
+  minDepthThreshold: 0.1,            // Minimum magnitude change (G)
+
+  // Body position
+  minPlankAlignment: 0.7,            // ~45° max tilt from horizontal
+
+  // Timing constraints
+  minRepDuration: 400,               // Min rep time in ms
+  maxRepDuration: 8000,              // Max rep time in ms
+  targetTempo: { eccentric: 2000, pause: 0, concentric: 1000 }, // 2-0-1
+
+  // Quality thresholds (DISABLED for testing - accept all reps)
+  minStabilityScore: 0,
+
+  // Signal processing (cutoff follows the measured sampling rate)
+  filters: [{ type: 'ema', cutoffHz: 2.4 }], // Same smoothing as the old alpha 0.22 at 60 Hz
+  samplingRate: 60,
+  bufferSize: 240,
+};
+
+// ============= DEFAULT PULL-UP DETECTION CONFIG =============
+
+/**
+ * Default pull-up configuration
+ *
+ * Tuning guide:
+ * - Increase minHangSettle to require a clear dead hang between reps
+ * - Increase minPeakVelocity to ignore swinging on the bar
+ */
+export const DEFAULT_PULLUP_CONFIG: PullupDetectionConfig = {
+  // Dead hang
+  stillBand: 0.04,                   // G around hang baseline
+  minHangSettle: 300,                // ms still before the first pull
+  baselineAlpha: 0.05,               // Slow baseline tracking while hanging
+
+  // Phase transitions
+  pullThreshold: 0.1,                // G above/below baseline to start a phase
+  minPeakVelocity: 0.2,              // m/s
+  maxPhaseDuration: 4000,            // Abandon rep after 4s in one phase
+
+  // Depth thresholds
+  minDepthThreshold: 0.15,           // Minimum magnitude change (G)
+
+  // Timing constraints
+  minRepDuration: 600,               // Min rep time in ms
+  maxRepDuration: 10000,             // Max rep time in ms
+  targetTempo: { eccentric: 2000, pause: 1000, concentric: 1000 }, // 2-1-1, pause held at the top
+
+  // Quality thresholds (DISABLED for testing - accept all reps)
+  minStabilityScore: 0,
+
+  // Signal processing (cutoff follows the measured sampling rate)
+  filters: [{ type: 'ema', cutoffHz: 2.4 }], // Same smoothing as the old alpha 0.22 at 60 Hz
+  samplingRate: 60,
+  bufferSize: 240,
+};
+
+// ============= DEFAULT REST DETECTION CONFIG =============
+
+/**
+ * Default rest detection (movement stopped)
+ * Long enough that the pause at the top of a rep, or a breath between
+ * reps, does not count as stopping.
+ *
+ * Tuning guide:
+ * - Increase varianceThreshold if fidgeting while resting keeps it from firing
+ * - Decrease stillnessDuration to close sets sooner after the last rep
+ */
+export const DEFAULT_REST_DETECTION_CONFIG: RestDetectionConfig = {
+  enabled: true,
+  stillnessDuration: 6000,           // 6 seconds without movement
+  varianceThreshold: 0.0004,         // Std dev ≈ 0.02 G (hand/pocket tremor)
+  windowSize: 60,                    // 1 second at 60Hz
+};
+
+// ============= DEFAULT FATIGUE DETECTION CONFIG =============
+
+/**
+ * Default fatigue detection (velocity loss within a set)
+ * 20% loss is a common cut-off in velocity-based training for
+ * strength work; hypertrophy programs often allow 30-40%.
+ *
+ * Tuning guide:
+ * - Increase baselineReps if the first rep is often slow (setting up)
+ */
+export const DEFAULT_FATIGUE_DETECTION_CONFIG: FatigueDetectionConfig = {
+  enabled: true,
+  velocityLossThreshold: 20,         // % below the first reps
+  baselineReps: 2,                   // First 2 reps of the set
+};
+
 // ============= DEFAULT MOTION ENGINE CONFIG =============
 
 /**
  * Default Motion Engine configuration for squat detection
  */
 export const DEFAULT_MOTION_CONFIG: MotionEngineConfig = {
-  exerciseType: 'squat',             // MVP: only squat supported
+  exerciseType: 'squat',
   detectionConfig: DEFAULT_SQUAT_CONFIG,
   enableDebugMode: __DEV__,          // Enable debug mode in development
 };
 
+/**
+ * Default Motion Engine configuration for push-up detection
+ */
+export const DEFAULT_PUSHUP_MOTION_CONFIG: MotionEngineConfig = {
+  exerciseType: 'pushup',
+  detectionConfig: DEFAULT_PUSHUP_CONFIG,
+  enableDebugMode: __DEV__,
+};
+
+/**
+ * Default Motion Engine configuration for pull-up detection
+ */
+export const DEFAULT_PULLUP_MOTION_CONFIG: MotionEngineConfig = {
+  exerciseType: 'pullup',
+  detectionConfig: DEFAULT_PULLUP_CONFIG,
+  enableDebugMode: __DEV__,
+};
+
 // ============= SCORE QUALITY THRESHOLDS =============
 
 /**
@@ -75,6 +217,17 @@ export function getScoreTechnique(score: number): 'excellent' | 'optimal' | 'goo
   return 'poor';
 }
 
+// ============= TEMPO =============
+
+/**
+ * Format a target tempo in the usual "3-1-1" notation (whole seconds)
+ */
+export function formatTempo(tempo: TempoTarget): string {
+  return [tempo.eccentric, tempo.pause, tempo.concentric]
+    .map((ms) => Math.round(ms / 1000))
+    .join('-');
+}
+
 // ============= PHYSICS CONSTANTS =============
 
 /**
@@ -109,4 +262,5 @@ export const VALIDATION_MESSAGES = {
   TOO_SLOW: 'Repetición demasiado lenta',
   LOW_STABILITY: 'Movimiento inestable',
   LOW_RANGE: 'Rango de movimiento inconsistente',
+  NOT_IN_PLANK: 'Posición de plancha no detectada',
 } as const;
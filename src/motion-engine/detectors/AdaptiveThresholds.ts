@@ -0,0 +1,215 @@
+/**
+ * Adaptive Thresholds - Self-Tuning Phase Transitions
+ * TrynerApp - Motion Engine
+ *
+ * Fixed descent/rise/depth thresholds are tuned for fresh, full reps. Late
+ * in a set reps get shallower and the same thresholds start missing them.
+ * This helper tunes them online, within bounds:
+ *
+ * 1. Amplitude: the first accepted reps of a set are the reference; the
+ *    thresholds scale with recent rep amplitude relative to it
+ *    (never below MIN_SCALE or above MAX_SCALE of the configured values)
+ * 2. Baseline: idle magnitude is tracked with a slow EMA, and the standing
+ *    peak that descents are measured from settles back toward it, so drift
+ *    or an old spike does not fake a descent
+ *
+ * Walking guard: while the thresholds are lowered, a rep must also be paced
+ * like the set (steps come far more often than reps), and the scale returns
+ * to 1 once reps stop (end of set). Pacing is measured from the last
+ * accepted rep only, so a rejected half-rep never delays the real one.
+ */
+
+// ============= CONSTANTS =============
+
+/** Accepted reps that set the set's reference amplitude */
+const REFERENCE_REPS = 2;
+
+/** Recent accepted reps averaged into the current amplitude */
+const RECENT_REPS = 3;
+
+/** Bounds on the threshold scale (fraction of the configured thresholds) */
+const MIN_SCALE = 0.6;
+const MAX_SCALE = 1.25;
+
+/** While lowered, reps sooner than this fraction of the set's reference rep interval are rejected */
+const MIN_INTERVAL_RATIO = 0.5;
+
+/** Without a rep within bounds for this long (ms) the set is over: back to configured values */
+const STALE_AFTER_MS = 15000;
+
+/** Idle baseline EMA time constant (ms) - longer than the dip that starts a rep */
+const BASELINE_TIME_CONSTANT = 1000;
+
+/** Time constant (ms) of the standing peak settling toward the baseline - slower than a rep */
+const PEAK_SETTLE_TIME_CONSTANT = 5000;
+
+// ============= ADAPTIVE THRESHOLDS =============
+
+export class AdaptiveThresholds {
+  private descentThreshold: number;
+  private riseThreshold: number;
+  private minDepthThreshold: number;
+
+  private referenceAmplitudes: number[] = [];
+  private recentAmplitudes: number[] = [];
+  private referenceIntervals: number[] = [];
+  private lastRepTime: number | null = null;
+  private lastSetRepTime: number | null = null;
+
+  private baseline: number | null = null;
+  private lastBaselineTime: number = 0;
+
+  /**
+   * @param descentThreshold - Configured G drop that starts a descent
+   * @param riseThreshold - Configured G rise that marks the bottom
+   * @param minDepthThreshold - Configured minimum rep magnitude change (G)
+   */
+  constructor(descentThreshold: number, riseThreshold: number, minDepthThreshold: number) {
+    this.descentThreshold = descentThreshold;
+    this.riseThreshold = riseThreshold;
+    this.minDepthThreshold = minDepthThreshold;
+  }
+
+  /**
+   * Track the idle baseline and settle the standing peak toward it
+   * (call only while idle)
+   *
+   * @param magnitude - Filtered magnitude (G)
+   * @param peak - Highest magnitude since the last rep (G)
+   * @param timestamp - Sample time (ms)
+   * @returns Standing peak to measure descents from (G)
+   */
+  updateBaseline(magnitude: number, peak: number, timestamp: number): number {
+    if (this.baseline === null) {
+      this.baseline = magnitude;
+      this.lastBaselineTime = timestamp;
+      return peak;
+    }
+
+    // Clamp dt: out-of-order samples freeze, long gaps jump at most one time constant
+    const dt = Math.min(Math.max(timestamp - this.lastBaselineTime, 0), BASELINE_TIME_CONSTANT);
+    this.baseline += (dt / (BASELINE_TIME_CONSTANT + dt)) * (magnitude - this.baseline);
+    this.lastBaselineTime = timestamp;
+
+    if (peak <= this.baseline) return peak;
+    return Math.max(
+      magnitude,
+      this.baseline + (peak - this.baseline) * Math.exp(-dt / PEAK_SETTLE_TIME_CONSTANT)
+    );
+  }
+
+  /**
+   * Feed an accepted rep
+   *
+   * @param amplitude - Rep magnitude change, peak to valley (G)
+   * @param timestamp - Rep completion time (ms)
+   */
+  recordRep(amplitude: number, timestamp: number): void {
+    if (!(amplitude > 0)) return;
+
+    // A long gap since the last rep starts a new reference
+    if (this.isStale(timestamp)) {
+      this.referenceAmplitudes = [];
+      this.recentAmplitudes = [];
+      this.referenceIntervals = [];
+    } else if (this.lastRepTime !== null && this.referenceIntervals.length < REFERENCE_REPS) {
+      // Pace is learned from the set's first reps only, so steps can't teach it
+      this.referenceIntervals.push(timestamp - this.lastRepTime);
+    }
+
+    if (this.referenceAmplitudes.length < REFERENCE_REPS) {
+      this.referenceAmplitudes.push(amplitude);
+    }
+    this.recentAmplitudes.push(amplitude);
+    if (this.recentAmplitudes.length > RECENT_REPS) {
+      this.recentAmplitudes.shift();
+    }
+    this.lastRepTime = timestamp;
+
+    // Reps smaller than the bounds allow for don't keep the set going
+    if (amplitude >= MIN_SCALE * this.mean(this.referenceAmplitudes)) {
+      this.lastSetRepTime = timestamp;
+    }
+  }
+
+  /**
+   * Check a rep candidate's pace against the set (walking guard)
+   *
+   * Always true at or above the configured thresholds, and for reps as big
+   * as the set's reference reps (only small reps can be steps). Measured
+   * from the last accepted rep; rejected candidates don't move it.
+   *
+   * @param amplitude - Candidate magnitude change, peak to valley (G)
+   * @param timestamp - Candidate completion time (ms)
+   */
+  isPacedLikeSet(amplitude: number, timestamp: number): boolean {
+    if (this.getScale(timestamp) >= 1 || this.referenceIntervals.length === 0) return true;
+    if (this.lastRepTime === null || amplitude >= this.mean(this.referenceAmplitudes)) return true;
+    return timestamp - this.lastRepTime >= MIN_INTERVAL_RATIO * this.mean(this.referenceIntervals);
+  }
+
+  /**
+   * Current threshold scale (1 = configured values)
+   *
+   * @param timestamp - Current sample time (ms)
+   */
+  getScale(timestamp: number): number {
+    if (this.referenceAmplitudes.length < REFERENCE_REPS || this.isStale(timestamp)) {
+      return 1;
+    }
+
+    const scale = this.mean(this.recentAmplitudes) / this.mean(this.referenceAmplitudes);
+    return Math.min(MAX_SCALE, Math.max(MIN_SCALE, scale));
+  }
+
+  /**
+   * G drop below the standing peak that starts a descent
+   */
+  getDescentThreshold(timestamp: number): number {
+    return this.descentThreshold * this.getScale(timestamp);
+  }
+
+  /**
+   * G rise above the valley that marks the bottom
+   */
+  getRiseThreshold(timestamp: number): number {
+    return this.riseThreshold * this.getScale(timestamp);
+  }
+
+  /**
+   * Minimum G magnitude change for a rep to complete and count
+   */
+  getMinDepthThreshold(timestamp: number): number {
+    return this.minDepthThreshold * this.getScale(timestamp);
+  }
+
+  /**
+   * Update the configured thresholds (adaptation state is kept)
+   */
+  setThresholds(descentThreshold: number, riseThreshold: number, minDepthThreshold: number): void {
+    this.descentThreshold = descentThreshold;
+    this.riseThreshold = riseThreshold;
+    this.minDepthThreshold = minDepthThreshold;
+  }
+
+  /**
+   * Forget reps and baseline (new set)
+   */
+  reset(): void {
+    this.referenceAmplitudes = [];
+    this.recentAmplitudes = [];
+    this.referenceIntervals = [];
+    this.lastRepTime = null;
+    this.lastSetRepTime = null;
+    this.baseline = null;
+    this.lastBaselineTime = 0;
+  }
+
+  private isStale(timestamp: number): boolean {
+    return this.lastSetRepTime !== null && timestamp - this.lastSetRepTime > STALE_AFTER_MS;
+  }
+
+  private mean(values: number[]): number {
+    return values.reduce((sum, value) => sum + value, 0) / values.length;
+  }
+}
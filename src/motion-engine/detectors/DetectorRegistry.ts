@@ -0,0 +1,128 @@
+/**
+ * Detector Registry - Exercise Profiles by sensor_profile
+ * TrynerApp - Motion Engine
+ *
+ * Maps an exercise's `sensor_profile` (exercises table) to everything the
+ * Motion Engine needs to run it:
+ * - Detector factory (RepDetector subclass)
+ * - Default detection config (including the target tempo)
+ * - Scoring weights
+ * - Optional calibration rule (personal thresholds from reference reps)
+ *
+ * New exercises are added by registering a profile, without touching
+ * MotionEngine:
+ * ```typescript
+ * detectorRegistry.register({
+ *   id: 'lunge',
+ *   createDetector: (config) => new LungeDetector(config),
+ *   defaultConfig: DEFAULT_LUNGE_CONFIG,
+ *   scoringWeights: { depth: 0.4, stability: 0.25, consistency: 0.15, tempo: 0.2 },
+ * });
+ * ```
+ */
+
+import { BaseDetectionConfig, CalibrationRep, MotionEngineConfig } from '../types';
+import { RepDetector } from './RepDetector';
+import { ScoringWeights } from '../scoring/ScoringEngine';
+import { BUILT_IN_PROFILES } from './builtInProfiles';
+
+/**
+ * Profile for one exercise
+ *
+ * createDetector / calibrate are declared as methods, so a profile for a
+ * specific config (e.g. DetectorProfile<SquatDetectionConfig>) can be
+ * stored and looked up as DetectorProfile<BaseDetectionConfig>.
+ */
+export interface DetectorProfile<TConfig extends BaseDetectionConfig = BaseDetectionConfig> {
+  /** Matches exercises.sensor_profile */
+  id: string;
+
+  /** Build a detector for one workout session */
+  createDetector(config: TConfig): RepDetector<TConfig>;
+
+  /** Config used when the caller doesn't provide one */
+  defaultConfig: TConfig;
+
+  /** Weights for ScoringEngine (must sum to 1.0) */
+  scoringWeights: ScoringWeights;
+
+  /** Personal config overrides from the user's typical reference rep (omit if not calibratable) */
+  calibrate?(typical: CalibrationRep): Partial<TConfig>;
+}
+
+export class DetectorRegistry {
+  private profiles = new Map<string, DetectorProfile>();
+
+  /**
+   * @param profiles - Profiles to register up front
+   */
+  constructor(profiles: DetectorProfile[] = []) {
+    profiles.forEach((profile) => this.register(profile));
+  }
+
+  /**
+   * Register (or replace) a detector profile
+   *
+   * @param profile - Profile keyed by sensor_profile
+   */
+  register<TConfig extends BaseDetectionConfig>(profile: DetectorProfile<TConfig>): void {
+    if (__DEV__ && this.profiles.has(profile.id)) {
+      console.log(`[DetectorRegistry] Replacing profile '${profile.id}'`);
+    }
+    this.profiles.set(profile.id, profile);
+  }
+
+  /**
+   * Remove a detector profile
+   */
+  unregister(id: string): void {
+    this.profiles.delete(id);
+  }
+
+  /**
+   * Check if a sensor_profile has a detector
+   */
+  has(id: string): boolean {
+    return this.profiles.has(id);
+  }
+
+  /**
+   * Get profile for a sensor_profile
+   *
+   * @throws Error if the profile is not registered
+   */
+  get(id: string): DetectorProfile {
+    const profile = this.profiles.get(id);
+    if (!profile) {
+      throw new Error(`DetectorRegistry: No detector registered for sensor profile '${id}'`);
+    }
+    return profile;
+  }
+
+  /**
+   * Get all registered sensor_profile ids
+   */
+  getIds(): string[] {
+    return Array.from(this.profiles.keys());
+  }
+
+  /**
+   * Build a Motion Engine config from a profile's defaults
+   *
+   * @param id - sensor_profile to run
+   * @returns Config ready to pass to MotionEngine / useMotionEngine
+   */
+  createMotionConfig(id: string): MotionEngineConfig {
+    const profile = this.get(id);
+    return {
+      exerciseType: profile.id,
+      detectionConfig: { ...profile.defaultConfig },
+      enableDebugMode: __DEV__,
+    };
+  }
+}
+
+/**
+ * Shared registry with the built-in squat, push-up and pull-up profiles
+ */
+export const detectorRegistry = new DetectorRegistry(BUILT_IN_PROFILES);
@@ -0,0 +1,414 @@
+/**
+ * Pull-up Detector - Dead Hang to Chin-over-Bar Detection
+ * TrynerApp - Motion Engine
+ *
+ * Detects pull-up repetitions with the phone in a trouser pocket or
+ * strapped to the arm. Only magnitude is used, so phone orientation
+ * does not matter.
+ *
+ * Detection Strategy:
+ * - Dead hang: magnitude settles around a baseline (tracked with a slow EMA)
+ * - Vertical velocity is integrated from the deviation to that baseline
+ * - Pulling: velocity goes positive, top is reached when it returns to zero
+ * - Lowering: velocity goes negative, dead hang when it returns to zero
+ *
+ * State Machine:
+ * idle → hang (still at baseline) → ascending (pull) → top (chin over bar) →
+ * descending (lowering) → completed (back at dead hang) → hang
+ */
+
+import { ProcessedSensorData, DetectedRep, PullupDetectionConfig } from '../types';
+import { RepDetector } from './RepDetector';
+import { RepFeatureExtractor } from '../extractors/RepFeatureExtractor';
+import { PHYSICS, VALIDATION_MESSAGES } from '../core/constants';
+
+export class PullupDetector extends RepDetector<PullupDetectionConfig> {
+  private featureExtractor: RepFeatureExtractor;
+
+  // Dead-hang baseline (G) and stillness tracking
+  private baseline: number | null = null;
+  private stillSince: number | null = null;
+  private hangStartTime: number = 0;
+
+  // Vertical velocity estimate (m/s), integrated from baseline deviation
+  private velocity: number = 0;
+  private peakVelocity: number = 0;
+  private lastTimestamp: number | null = null;
+
+  // Pull-up phase timestamps
+  private topTime: number = 0;
+
+  constructor(config: PullupDetectionConfig) {
+    super(config);
+    this.featureExtractor = new RepFeatureExtractor();
+  }
+
+  /**
+   * Detect pull-up repetition from sensor data
+   *
+   * @param data - Processed sensor data
+   * @returns DetectedRep if completed, null otherwise
+   */
+  detect(data: ProcessedSensorData): DetectedRep | null {
+    const { filteredMagnitude, filteredZ, timestamp } = data;
+
+    if (this.baseline === null) {
+      this.baseline = filteredMagnitude;
+    }
+
+    const dt = this.lastTimestamp === null ? 0 : (timestamp - this.lastTimestamp) / 1000;
+    this.lastTimestamp = timestamp;
+    const deviation = filteredMagnitude - this.baseline;
+    this.updateStillness(deviation, timestamp);
+
+    // Track movement extremes only while a rep is in progress
+    if (this.isRepInProgress()) {
+      this.velocity += deviation * PHYSICS.GRAVITY * dt;
+      this.updatePeakMagnitude(filteredMagnitude);
+      this.updateValleyMagnitude(filteredMagnitude);
+      this.updateZAxisTracking(filteredZ);
+    }
+
+    switch (this.currentPhase) {
+      case 'idle':
+        return this.handleIdlePhase(filteredMagnitude, timestamp);
+
+      case 'hang':
+        return this.handleHangPhase(deviation, filteredMagnitude, filteredZ, timestamp);
+
+      case 'ascending':
+        return this.handleAscendingPhase(timestamp);
+
+      case 'top':
+        return this.handleTopPhase(deviation, timestamp);
+
+      case 'descending':
+        return this.handleDescendingPhase(timestamp);
+
+      case 'completed':
+        this.enterHang(timestamp);
+        return null;
+
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * IDLE PHASE: Not on the bar yet (or swinging)
+   * Transition: Still around baseline for minHangSettle → HANG
+   */
+  private handleIdlePhase(magnitude: number, timestamp: number): DetectedRep | null {
+    this.updateBaseline(magnitude);
+
+    if (this.stillSince !== null && timestamp - this.stillSince >= this.config.minHangSettle) {
+      if (__DEV__) {
+        console.log(`[PullupDetector] 🪢 IDLE → HANG | Baseline: ${this.baseline?.toFixed(2)} G`);
+      }
+      this.enterHang(this.stillSince);
+    }
+
+    return null;
+  }
+
+  /**
+   * HANG PHASE: Settled at dead hang
+   * Transition: Magnitude rises above baseline (pulling) → ASCENDING
+   */
+  private handleHangPhase(
+    deviation: number,
+    magnitude: number,
+    z: number,
+    timestamp: number
+  ): DetectedRep | null {
+    if (Math.abs(deviation) <= this.config.stillBand) {
+      this.updateBaseline(magnitude);
+      return null;
+    }
+
+    if (deviation > this.config.pullThreshold) {
+      if (__DEV__) {
+        console.log(`[PullupDetector] 🔼 HANG → ASCENDING | Rise: ${deviation.toFixed(2)} G`);
+      }
+      this.resetRepState();
+      this.repStartTime = timestamp;
+      this.ascendStartTime = timestamp;
+      this.velocity = deviation * PHYSICS.GRAVITY * (1 / this.config.samplingRate);
+      this.updatePeakMagnitude(magnitude);
+      this.updateValleyMagnitude(magnitude);
+      this.updateZAxisTracking(z);
+      this.transitionToPhase('ascending');
+      return null;
+    }
+
+    // Dropping below baseline from dead hang = let go of the bar
+    if (deviation < -this.config.pullThreshold) {
+      this.returnToIdle('Dropped from bar');
+    }
+
+    return null;
+  }
+
+  /**
+   * ASCENDING PHASE: Pulling up
+   * Transition: Velocity back to zero (or body still) after a real pull → TOP
+   */
+  private handleAscendingPhase(timestamp: number): DetectedRep | null {
+    if (this.hasPhaseTimedOut(this.ascendStartTime, timestamp, 'ASCENDING')) {
+      return null;
+    }
+
+    this.peakVelocity = Math.max(this.peakVelocity, this.velocity);
+
+    const stopTime = this.getStopTime(timestamp);
+    if (this.peakVelocity >= this.config.minPeakVelocity && stopTime !== null) {
+      if (__DEV__) {
+        console.log(`[PullupDetector] ⏫ ASCENDING → TOP | Peak velocity: ${this.peakVelocity.toFixed(2)} m/s`);
+      }
+      this.topTime = stopTime;
+      this.velocity = 0; // Zero-velocity point: drop integration drift
+      this.peakVelocity = 0;
+      this.transitionToPhase('top');
+    }
+
+    return null;
+  }
+
+  /**
+   * TOP PHASE: Chin over bar
+   * Transition: Magnitude drops below baseline (lowering starts) → DESCENDING
+   */
+  private handleTopPhase(deviation: number, timestamp: number): DetectedRep | null {
+    if (this.hasPhaseTimedOut(this.topTime, timestamp, 'TOP')) {
+      return null;
+    }
+
+    if (deviation < -this.config.pullThreshold) {
+      if (__DEV__) {
+        console.log(`[PullupDetector] 🔽 TOP → DESCENDING | Pause: ${timestamp - this.topTime}ms`);
+      }
+      this.descendStartTime = timestamp;
+      this.velocity = Math.min(this.velocity, 0);
+      this.transitionToPhase('descending');
+    } else if (Math.abs(deviation) <= this.config.stillBand) {
+      // Holding still at the top: keep velocity anchored at zero
+      this.velocity = 0;
+    }
+
+    return null;
+  }
+
+  /**
+   * DESCENDING PHASE: Lowering to dead hang
+   * Transition: Velocity back to zero (or body still) after a real descent → COMPLETED
+   */
+  private handleDescendingPhase(timestamp: number): DetectedRep | null {
+    if (this.hasPhaseTimedOut(this.descendStartTime, timestamp, 'DESCENDING')) {
+      return null;
+    }
+
+    this.peakVelocity = Math.max(this.peakVelocity, -this.velocity);
+
+    const stopTime = this.getStopTime(timestamp);
+    if (this.peakVelocity < this.config.minPeakVelocity || stopTime === null) {
+      return null;
+    }
+
+    this.transitionToPhase('completed');
+    const rep = this.createDetectedRep(stopTime);
+
+    if (this.validateRep(rep)) {
+      this.repCount++;
+      if (__DEV__) {
+        console.log(`[PullupDetector] ✅ REP #${this.repCount} COUNTED! (duration: ${rep.duration}ms, depth: ${rep.depth.toFixed(2)}G)`);
+      }
+      this.enterHang(stopTime);
+      return rep;
+    }
+
+    if (__DEV__) {
+      console.log(`[PullupDetector] ❌ Rep rejected: ${this.getValidationFailureReason(rep)}`);
+    }
+    this.enterHang(stopTime);
+    return null;
+  }
+
+  /**
+   * Settle at dead hang and start timing the hang pause
+   */
+  private enterHang(timestamp: number): void {
+    this.resetRepState();
+    this.hangStartTime = timestamp;
+    this.transitionToPhase('hang');
+  }
+
+  /**
+   * Abandon any rep in progress and wait for a new dead hang
+   */
+  private returnToIdle(reason: string): void {
+    if (__DEV__) {
+      console.log(`[PullupDetector] ↩️ ${this.currentPhase.toUpperCase()} → IDLE | ${reason}`);
+    }
+    this.resetRepState();
+    this.stillSince = null;
+    this.transitionToPhase('idle');
+  }
+
+  /**
+   * Reset to idle if a phase lasts longer than maxPhaseDuration
+   *
+   * @returns True if the rep in progress was abandoned
+   */
+  private hasPhaseTimedOut(phaseStartTime: number, timestamp: number, phaseName: string): boolean {
+    const timeInPhase = timestamp - phaseStartTime;
+    if (timeInPhase <= this.config.maxPhaseDuration) {
+      return false;
+    }
+
+    this.returnToIdle(`${phaseName} timeout (${(timeInPhase / 1000).toFixed(1)}s)`);
+    return true;
+  }
+
+  /**
+   * Track dead-hang magnitude with a slow EMA
+   */
+  private updateBaseline(magnitude: number): void {
+    const alpha = this.config.baselineAlpha;
+    this.baseline = this.baseline === null
+      ? magnitude
+      : alpha * magnitude + (1 - alpha) * this.baseline;
+  }
+
+  /**
+   * Track since when the magnitude has stayed inside the still band
+   */
+  private updateStillness(deviation: number, timestamp: number): void {
+    if (Math.abs(deviation) > this.config.stillBand) {
+      this.stillSince = null;
+    } else if (this.stillSince === null) {
+      this.stillSince = timestamp;
+    }
+  }
+
+  /**
+   * Zero-velocity check for the phase in progress
+   *
+   * Integrated velocity drifts with filter lag, so the body also counts
+   * as stopped once it has been still for minHangSettle. In that case
+   * the movement ended when the stillness began.
+   *
+   * @returns Time the movement stopped, or null if still moving
+   */
+  private getStopTime(timestamp: number): number | null {
+    const velocityCrossed = this.currentPhase === 'ascending'
+      ? this.velocity <= 0
+      : this.velocity >= 0;
+    if (velocityCrossed) {
+      return timestamp;
+    }
+
+    if (this.stillSince !== null && timestamp - this.stillSince >= this.config.minHangSettle) {
+      return this.stillSince;
+    }
+
+    return null;
+  }
+
+  private isRepInProgress(): boolean {
+    return this.currentPhase === 'ascending'
+      || this.currentPhase === 'top'
+      || this.currentPhase === 'descending';
+  }
+
+  /**
+   * Create DetectedRep object from current state
+   */
+  private createDetectedRep(timestamp: number): DetectedRep {
+    const features = this.featureExtractor.extractPullup({
+      hangStartTime: this.hangStartTime,
+      concentricStartTime: this.ascendStartTime,
+      topTime: this.topTime,
+      eccentricStartTime: this.descendStartTime,
+      completionTime: timestamp,
+      peakMagnitude: this.peakMagnitude,
+      valleyMagnitude: this.valleyMagnitude,
+      peakZValue: this.peakZValue,
+      valleyZValue: this.valleyZValue,
+      targetTempo: this.config.targetTempo,
+    });
+
+    return {
+      repNumber: this.repCount + 1,
+      timestamp,
+      duration: this.calculateDuration(this.repStartTime, timestamp),
+      depth: this.calculateMagnitudeChange(),
+      isValid: false, // Will be set by validateRep()
+      features,
+    };
+  }
+
+  /**
+   * Validate rep against thresholds
+   *
+   * All checks must pass for rep to count:
+   * ✅ Sufficient depth (magnitude change)
+   * ✅ Duration within valid range
+   * ✅ Stability score above threshold
+   *
+   * @param rep - Detected rep to validate
+   * @returns True if rep meets all quality criteria
+   */
+  protected validateRep(rep: DetectedRep): boolean {
+    if (this.getValidationFailureReason(rep) !== null) {
+      return false;
+    }
+
+    rep.isValid = true;
+    return true;
+  }
+
+  /**
+   * Get human-readable validation failure reason
+   *
+   * @returns Failure message, or null if the rep passes every check
+   */
+  private getValidationFailureReason(rep: DetectedRep): string | null {
+    const { features, duration, depth } = rep;
+
+    if (depth < this.config.minDepthThreshold) {
+      return VALIDATION_MESSAGES.INSUFFICIENT_DEPTH;
+    }
+    if (duration < this.config.minRepDuration) {
+      return VALIDATION_MESSAGES.TOO_FAST;
+    }
+    if (duration > this.config.maxRepDuration) {
+      return VALIDATION_MESSAGES.TOO_SLOW;
+    }
+    if (features.stabilityScore < this.config.minStabilityScore) {
+      return VALIDATION_MESSAGES.LOW_STABILITY;
+    }
+
+    return null;
+  }
+
+  /**
+   * Reset detector state (for new workout session or set)
+   */
+  reset(): void {
+    super.reset();
+    this.baseline = null;
+    this.stillSince = null;
+    this.hangStartTime = 0;
+    this.lastTimestamp = null;
+  }
+
+  /**
+   * Reset state for current rep in progress
+   */
+  protected resetRepState(): void {
+    super.resetRepState();
+    this.velocity = 0;
+    this.peakVelocity = 0;
+    this.topTime = 0;
+  }
+}
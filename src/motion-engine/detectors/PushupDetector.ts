@@ -0,0 +1,292 @@
+/**
+ * Push-up Detector - Plank-Position Rep Detection
+ * TrynerApp - Motion Engine
+ *
+ * Detects push-up repetitions with the phone lying flat on the upper back
+ * or in a back/thigh pocket. In plank position gravity sits on the Z axis,
+ * which lets us reject movements made while standing (walking, squats).
+ *
+ * Detection Strategy:
+ * - Lowering the chest: magnitude dips below the resting plank value
+ * - Bottom: deceleration makes magnitude rise back from the valley
+ * - Pressing up: magnitude recovers by at least minDepthThreshold
+ *
+ * State Machine:
+ * idle → descending (magnitude drops) → bottom (magnitude rises from valley) →
+ * ascending (pressing up) → completed (recovery reached) → idle
+ */
+
+import { ProcessedSensorData, DetectedRep, PushupDetectionConfig } from '../types';
+import { RepDetector } from './RepDetector';
+import { RepFeatureExtractor } from '../extractors/RepFeatureExtractor';
+import { VALIDATION_MESSAGES } from '../core/constants';
+
+export class PushupDetector extends RepDetector<PushupDetectionConfig> {
+  private featureExtractor: RepFeatureExtractor;
+
+  // Plank alignment tracking for current rep (|Z| / magnitude)
+  private alignmentSum: number = 0;
+  private alignmentSamples: number = 0;
+
+  constructor(config: PushupDetectionConfig) {
+    super(config);
+    this.featureExtractor = new RepFeatureExtractor();
+  }
+
+  /**
+   * Detect push-up repetition from sensor data
+   *
+   * @param data - Processed sensor data
+   * @returns DetectedRep if completed, null otherwise
+   */
+  detect(data: ProcessedSensorData): DetectedRep | null {
+    const { filteredMagnitude, filteredZ } = data;
+
+    // Update peak tracking always (resting plank value while idle)
+    this.updatePeakMagnitude(filteredMagnitude);
+
+    // Valley stays fixed during ascending so we can measure recovery
+    if (this.currentPhase === 'descending' || this.currentPhase === 'bottom') {
+      this.updateValleyMagnitude(filteredMagnitude);
+      this.updateZAxisTracking(filteredZ);
+    }
+
+    if (this.currentPhase === 'idle') {
+      this.updateZAxisTracking(filteredZ);
+    } else {
+      this.trackAlignment(data);
+    }
+
+    switch (this.currentPhase) {
+      case 'idle':
+        return this.handleIdlePhase(data);
+
+      case 'descending':
+        return this.handleDescendingPhase(data);
+
+      case 'bottom':
+        return this.handleBottomPhase(data);
+
+      case 'ascending':
+        return this.handleAscendingPhase(data);
+
+      case 'completed':
+        this.transitionToPhase('idle');
+        return null;
+
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * IDLE PHASE: Holding plank, waiting for chest to lower
+   * Transition: Magnitude drops below resting value → DESCENDING
+   */
+  private handleIdlePhase(data: ProcessedSensorData): DetectedRep | null {
+    const { filteredMagnitude, timestamp } = data;
+
+    const magnitudeChange = this.peakMagnitude - filteredMagnitude;
+
+    if (magnitudeChange > this.config.descentThreshold) {
+      if (__DEV__) {
+        console.log(`[PushupDetector] 🔽 IDLE → DESCENDING | Drop: ${magnitudeChange.toFixed(2)} G`);
+      }
+      this.resetRepState();
+      this.repStartTime = timestamp;
+      this.descendStartTime = timestamp;
+      this.updatePeakMagnitude(filteredMagnitude);
+      this.trackAlignment(data);
+      this.transitionToPhase('descending');
+    }
+
+    return null;
+  }
+
+  /**
+   * DESCENDING PHASE: Chest is lowering towards the floor
+   * Transition: Magnitude rises from valley (braking at bottom) → BOTTOM
+   */
+  private handleDescendingPhase(data: ProcessedSensorData): DetectedRep | null {
+    const { filteredMagnitude, timestamp } = data;
+
+    if (this.hasPhaseTimedOut(this.descendStartTime, timestamp, 'DESCENDING')) {
+      return null;
+    }
+
+    const magnitudeRise = filteredMagnitude - this.valleyMagnitude;
+    if (magnitudeRise > this.config.riseThreshold) {
+      if (__DEV__) {
+        console.log(`[PushupDetector] ⬇️ DESCENDING → BOTTOM | Rise: ${magnitudeRise.toFixed(2)} G`);
+      }
+      this.bottomTime = timestamp;
+      this.transitionToPhase('bottom');
+    }
+
+    return null;
+  }
+
+  /**
+   * BOTTOM PHASE: Chest near the floor, press starts
+   * Transition: Immediate → ASCENDING
+   */
+  private handleBottomPhase(data: ProcessedSensorData): DetectedRep | null {
+    this.ascendStartTime = data.timestamp;
+    this.transitionToPhase('ascending');
+    return null;
+  }
+
+  /**
+   * ASCENDING PHASE: Pressing back up to plank
+   * Transition: Magnitude recovers from valley → COMPLETED
+   */
+  private handleAscendingPhase(data: ProcessedSensorData): DetectedRep | null {
+    const { filteredMagnitude, timestamp } = data;
+
+    if (this.hasPhaseTimedOut(this.ascendStartTime, timestamp, 'ASCENDING')) {
+      return null;
+    }
+
+    const magnitudeRecovery = filteredMagnitude - this.valleyMagnitude;
+    if (magnitudeRecovery < this.config.minDepthThreshold) {
+      return null;
+    }
+
+    const rep = this.createDetectedRep(timestamp);
+
+    if (this.validateRep(rep)) {
+      this.repCount++;
+      if (__DEV__) {
+        console.log(`[PushupDetector] ✅ REP #${this.repCount} COUNTED! (duration: ${rep.duration}ms, depth: ${rep.depth.toFixed(2)}G)`);
+      }
+      this.transitionToPhase('idle');
+      this.resetRepState();
+      return rep;
+    }
+
+    if (__DEV__) {
+      console.log(`[PushupDetector] ❌ Rep rejected: ${this.getValidationFailureReason(rep)}`);
+    }
+    this.transitionToPhase('idle');
+    this.resetRepState();
+    return null;
+  }
+
+  /**
+   * Reset to idle if a phase lasts longer than maxPhaseDuration
+   *
+   * @returns True if the rep in progress was abandoned
+   */
+  private hasPhaseTimedOut(phaseStartTime: number, timestamp: number, phaseName: string): boolean {
+    const timeInPhase = timestamp - phaseStartTime;
+    if (timeInPhase <= this.config.maxPhaseDuration) {
+      return false;
+    }
+
+    if (__DEV__) {
+      console.log(`[PushupDetector] ⏰ ${phaseName} timeout (${(timeInPhase / 1000).toFixed(1)}s) → IDLE`);
+    }
+    this.transitionToPhase('idle');
+    this.resetRepState();
+    return true;
+  }
+
+  /**
+   * Accumulate how much of the acceleration lies on the Z axis
+   */
+  private trackAlignment(data: ProcessedSensorData): void {
+    if (data.filteredMagnitude <= 0) return;
+    this.alignmentSum += Math.abs(data.filteredZ) / data.filteredMagnitude;
+    this.alignmentSamples++;
+  }
+
+  /**
+   * Average plank alignment over the rep (0-1)
+   */
+  private getAverageAlignment(): number {
+    return this.alignmentSamples > 0 ? this.alignmentSum / this.alignmentSamples : 0;
+  }
+
+  /**
+   * Create DetectedRep object from current state
+   */
+  private createDetectedRep(timestamp: number): DetectedRep {
+    const features = this.featureExtractor.extract({
+      descendStartTime: this.descendStartTime,
+      bottomTime: this.bottomTime,
+      ascendStartTime: this.ascendStartTime,
+      completionTime: timestamp,
+      peakMagnitude: this.peakMagnitude,
+      valleyMagnitude: this.valleyMagnitude,
+      peakZValue: this.peakZValue,
+      valleyZValue: this.valleyZValue,
+      targetTempo: this.config.targetTempo,
+    });
+
+    return {
+      repNumber: this.repCount + 1,
+      timestamp,
+      duration: this.calculateDuration(this.repStartTime, timestamp),
+      depth: this.calculateMagnitudeChange(),
+      isValid: false, // Will be set by validateRep()
+      features,
+    };
+  }
+
+  /**
+   * Validate rep against thresholds
+   *
+   * All checks must pass for rep to count:
+   * ✅ Sufficient depth (magnitude change)
+   * ✅ Body held in plank (gravity on Z axis)
+   * ✅ Duration within valid range
+   * ✅ Stability score above threshold
+   *
+   * @param rep - Detected rep to validate
+   * @returns True if rep meets all quality criteria
+   */
+  protected validateRep(rep: DetectedRep): boolean {
+    if (this.getValidationFailureReason(rep) !== null) {
+      return false;
+    }
+
+    rep.isValid = true;
+    return true;
+  }
+
+  /**
+   * Get human-readable validation failure reason
+   *
+   * @returns Failure message, or null if the rep passes every check
+   */
+  private getValidationFailureReason(rep: DetectedRep): string | null {
+    const { features, duration, depth } = rep;
+
+    if (depth < this.config.minDepthThreshold) {
+      return VALIDATION_MESSAGES.INSUFFICIENT_DEPTH;
+    }
+    if (this.getAverageAlignment() < this.config.minPlankAlignment) {
+      return VALIDATION_MESSAGES.NOT_IN_PLANK;
+    }
+    if (duration < this.config.minRepDuration) {
+      return VALIDATION_MESSAGES.TOO_FAST;
+    }
+    if (duration > this.config.maxRepDuration) {
+      return VALIDATION_MESSAGES.TOO_SLOW;
+    }
+    if (features.stabilityScore < this.config.minStabilityScore) {
+      return VALIDATION_MESSAGES.LOW_STABILITY;
+    }
+
+    return null;
+  }
+
+  /**
+   * Reset state for current rep in progress
+   */
+  protected resetRepState(): void {
+    super.resetRepState();
+    this.alignmentSum = 0;
+    this.alignmentSamples = 0;
+  }
+}
@@ -5,16 +5,20 @@
  * Base class for exercise-specific repetition detectors.
  * Subclasses implement detection logic for specific exercises:
  * - SquatDetector
- * - PushupDetector (future)
- * - PullupDetector (future)
+ * - PushupDetector
+ * - PullupDetector
  *
- * State Machine:
+ * State Machine (squat/push-up):
  * idle → descending → bottom → ascending → completed → idle
+ *
+ * Pull-ups start concentric instead:
+ * idle → hang → ascending → top → descending → completed → hang
  */
 
-import { ProcessedSensorData, DetectedRep, RepPhase } from '../types';
+import { ProcessedSensorData, DetectedRep, RepPhase, BaseDetectionConfig } from '../types';
 
-export abstract class RepDetector {
+export abstract class RepDetector<TConfig extends BaseDetectionConfig = BaseDetectionConfig> {
+  protected config: TConfig;
   protected currentPhase: RepPhase = 'idle';
   protected repCount: number = 0;
 
@@ -30,6 +34,13 @@ export abstract class RepDetector {
   protected peakZValue: number = 0;
   protected valleyZValue: number = 0;
 
+  /**
+   * @param config - Exercise-specific detection configuration
+   */
+  constructor(config: TConfig) {
+    this.config = config;
+  }
+
   /**
    * Process new sensor data and detect repetition
    *
@@ -64,6 +75,20 @@ export abstract class RepDetector {
     return this.repCount;
   }
 
+  /**
+   * Update configuration (for runtime tuning)
+   */
+  setConfig(config: Partial<TConfig>): void {
+    this.config = { ...this.config, ...config };
+  }
+
+  /**
+   * Get current configuration
+   */
+  getConfig(): TConfig {
+    return { ...this.config };
+  }
+
   /**
    * Reset detector state (for new workout session or set)
    */
@@ -7,31 +7,71 @@
  *
  * Detection Strategy:
  * - Magnitude peaks = standing position (upright)
- * - Z-axis valleys = bottom position (dropped down)
+ * - Vertical acceleration swing = real up/down travel, measured along the
+ *   estimated gravity so the phone's orientation in the pocket does not matter
  * - Strict thresholds ensure only full-depth, controlled squats count
+ * - Descent/rise/depth thresholds can adapt to the set (see AdaptiveThresholds):
+ *   shallower reps late in a set lower them, within bounds
  *
  * State Machine:
- * idle → descending (magnitude drops) → bottom (Z-axis valley) →
- * ascending (magnitude rises) → completed (peak reached) → idle
+ * idle → descending (magnitude drops) → bottom (magnitude valley) →
+ * ascending (magnitude rises) → completed (back to standing) → idle
+ *
+ * A squat dips the magnitude twice: when the descent starts and again at
+ * the top, where the ascent decelerates. Only a descent is followed by
+ * braking at least peakProminence above the standing level at the bottom;
+ * a dip that just settles back to standing is dropped. The rep completes
+ * after the second dip (or once the magnitude settles at the standing
+ * level), so the top deceleration is never mistaken for the start of
+ * another rep.
  */
 
 import { ProcessedSensorData, DetectedRep, SquatDetectionConfig } from '../types';
 import { RepDetector } from './RepDetector';
 import { RepFeatureExtractor } from '../extractors/RepFeatureExtractor';
+import { AdaptiveThresholds } from './AdaptiveThresholds';
 import { VALIDATION_MESSAGES } from '../core/constants';
 
-export class SquatDetector extends RepDetector {
-  private config: SquatDetectionConfig;
+// ============= CONSTANTS =============
+
+/** Time (ms) at the standing level that ends a rep without a visible top dip (or drops a false start) */
+const STANDING_SETTLE_MS = 500;
+
+// ============= SQUAT DETECTOR =============
+
+export class SquatDetector extends RepDetector<SquatDetectionConfig> {
   private featureExtractor: RepFeatureExtractor;
+  private thresholds: AdaptiveThresholds;
 
-  // Thresholds for phase transitions
-  private readonly MAGNITUDE_DROP_THRESHOLD = 0.30; // G drop to enter descending
-  private readonly MAGNITUDE_RISE_THRESHOLD = 0.15; // G rise to enter ascending
+  // Top of the rep in progress
+  private standingMagnitude: number = 0;       // Gravity estimate when the descent started (G)
+  private startPeakMagnitude: number = 0;      // Idle peak the descent was measured from (G)
+  private hasBrakedAtBottom: boolean = false;
+  private topValleyMagnitude: number = Infinity; // Lowest magnitude since braking at the bottom
+  private standingSince: number | null = null;
 
   constructor(config: SquatDetectionConfig) {
-    super();
-    this.config = config;
+    super(config);
     this.featureExtractor = new RepFeatureExtractor();
+    this.thresholds = new AdaptiveThresholds(
+      config.descentThreshold,
+      config.riseThreshold,
+      config.minDepthThreshold
+    );
+  }
+
+  setConfig(config: Partial<SquatDetectionConfig>): void {
+    super.setConfig(config);
+    this.thresholds.setThresholds(
+      this.config.descentThreshold,
+      this.config.riseThreshold,
+      this.config.minDepthThreshold
+    );
+  }
+
+  reset(): void {
+    super.reset();
+    this.thresholds.reset();
   }
 
   /**
@@ -43,7 +83,7 @@ export class SquatDetector extends RepDetector {
    * @returns DetectedRep if completed, null otherwise
    */
   detect(data: ProcessedSensorData): DetectedRep | null {
-    const { filteredMagnitude, filteredZ, timestamp } = data;
+    const { filteredMagnitude, verticalAcceleration, timestamp } = data;
 
     // Update peak tracking always (for idle detection)
     this.updatePeakMagnitude(filteredMagnitude);
@@ -52,12 +92,17 @@ export class SquatDetector extends RepDetector {
     // During ascending, we want the valley to stay fixed so we can measure recovery
     if (this.currentPhase === 'descending' || this.currentPhase === 'bottom') {
       this.updateValleyMagnitude(filteredMagnitude);
-      this.updateZAxisTracking(filteredZ);
+      this.updateZAxisTracking(verticalAcceleration);
     }
 
-    // In idle phase, update Z tracking for baseline
+    // In idle phase, update vertical tracking for baseline
     if (this.currentPhase === 'idle') {
-      this.updateZAxisTracking(filteredZ);
+      this.updateZAxisTracking(verticalAcceleration);
+
+      // Standing peak follows drift in the idle magnitude
+      if (this.config.adaptiveThresholds) {
+        this.peakMagnitude = this.thresholds.updateBaseline(filteredMagnitude, this.peakMagnitude, timestamp);
+      }
     }
 
     // Debug logging only in non-idle states, ~every 2 seconds
@@ -99,10 +144,14 @@ export class SquatDetector extends RepDetector {
     // Check if user starts descending (magnitude drops)
     const magnitudeChange = this.peakMagnitude - filteredMagnitude;
 
-    if (magnitudeChange > this.MAGNITUDE_DROP_THRESHOLD) {
+    if (magnitudeChange > this.getDescentThreshold(timestamp)) {
       // Start of descent detected
       console.log(`[SquatDetector] 🔽 IDLE → DESCENDING | Drop: ${magnitudeChange.toFixed(2)} G`);
+      const startPeakMagnitude = this.peakMagnitude;
       this.resetRepState(); // Reset peak/valley tracking for new rep FIRST
+      // The slow gravity estimate still holds the standing level (a spike or drift in the peak doesn't)
+      this.standingMagnitude = Math.hypot(data.gravityX, data.gravityY, data.gravityZ);
+      this.startPeakMagnitude = startPeakMagnitude;
       this.repStartTime = timestamp; // Now set timestamps after reset
       this.descendStartTime = timestamp;
       this.updatePeakMagnitude(filteredMagnitude); // Re-initialize peak
@@ -114,7 +163,7 @@ export class SquatDetector extends RepDetector {
 
   /**
    * DESCENDING PHASE: User is going down
-   * Transition: Z-axis valley detected (bottom position) → BOTTOM
+   * Transition: Magnitude valley passed (bottom position) → BOTTOM
    */
   private handleDescendingPhase(data: ProcessedSensorData): DetectedRep | null {
     const { filteredMagnitude, timestamp } = data;
@@ -130,7 +179,7 @@ export class SquatDetector extends RepDetector {
 
     // Check if we've hit bottom (magnitude starts rising)
     const magnitudeRise = filteredMagnitude - this.valleyMagnitude;
-    if (magnitudeRise > this.MAGNITUDE_RISE_THRESHOLD) {
+    if (magnitudeRise > this.getRiseThreshold(timestamp)) {
       console.log(`[SquatDetector] ⬇️ DESCENDING → BOTTOM | Rise: ${magnitudeRise.toFixed(2)} G | Valley: ${this.valleyMagnitude.toFixed(2)}`);
       this.bottomTime = timestamp;
       this.transitionToPhase('bottom');
@@ -170,10 +219,29 @@ export class SquatDetector extends RepDetector {
       return null;
     }
 
-    // Check if we've returned to standing (magnitude peak)
+    // Braking at the bottom pushes the magnitude above standing, and above
+    // the peak the descent started from, by at least peakProminence; a dip
+    // that only recovers to standing was the top of a rep (or a stumble),
+    // one that only returns to its starting peak is more likely a step
     const magnitudeRecovery = filteredMagnitude - this.valleyMagnitude;
+    if (!this.hasBrakedAtBottom) {
+      const brakeLevel = Math.max(this.standingMagnitude, this.startPeakMagnitude);
+      if (
+        magnitudeRecovery >= this.getMinDepthThreshold(timestamp) &&
+        filteredMagnitude >= brakeLevel + this.config.peakProminence
+      ) {
+        this.hasBrakedAtBottom = true;
+        this.standingSince = null;
+      } else if (this.hasSettledAtStanding(filteredMagnitude, timestamp)) {
+        console.log(`[SquatDetector] ↩️ ASCENDING → IDLE | Back to standing without braking at the bottom`);
+        this.transitionToPhase('idle');
+        this.resetRepState();
+      }
+      return null;
+    }
 
-    if (magnitudeRecovery >= this.config.minDepthThreshold) {
+    // Then wait for the top of the rep
+    if (this.isAtTop(filteredMagnitude, timestamp)) {
       console.log(`[SquatDetector] 🔼 ASCENDING → COMPLETED | Recovery: ${magnitudeRecovery.toFixed(3)} G`);
 
       // Rep completed - create DetectedRep object
@@ -182,6 +250,7 @@ export class SquatDetector extends RepDetector {
       // Validate rep quality (minimal validation for testing)
       if (this.validateRep(rep)) {
         this.repCount++;
+        this.thresholds.recordRep(rep.depth, timestamp);
         console.log(`[SquatDetector] ✅ REP #${this.repCount} COUNTED! (duration: ${rep.duration}ms, depth: ${rep.depth.toFixed(2)}G)`);
         this.transitionToPhase('idle');
         this.resetRepState();
@@ -198,6 +267,74 @@ export class SquatDetector extends RepDetector {
     return null;
   }
 
+  /**
+   * Check if the rep has reached the top (call once braked at the bottom)
+   *
+   * Either the ascent's deceleration dip is over (the magnitude dropped
+   * below standing and rose again by the rise threshold), or the magnitude
+   * has stayed at the standing level for STANDING_SETTLE_MS (slow finish).
+   */
+  private isAtTop(filteredMagnitude: number, timestamp: number): boolean {
+    const riseThreshold = this.getRiseThreshold(timestamp);
+
+    this.topValleyMagnitude = Math.min(this.topValleyMagnitude, filteredMagnitude);
+    const topDip = this.standingMagnitude - this.topValleyMagnitude;
+    if (topDip >= riseThreshold && filteredMagnitude - this.topValleyMagnitude >= riseThreshold) {
+      return true;
+    }
+
+    return this.hasSettledAtStanding(filteredMagnitude, timestamp);
+  }
+
+  /**
+   * Check if the magnitude has stayed at the standing level for STANDING_SETTLE_MS
+   */
+  private hasSettledAtStanding(filteredMagnitude: number, timestamp: number): boolean {
+    if (Math.abs(filteredMagnitude - this.standingMagnitude) > this.getStandingBand(timestamp)) {
+      this.standingSince = null;
+      return false;
+    }
+    this.standingSince ??= timestamp;
+    return timestamp - this.standingSince >= STANDING_SETTLE_MS;
+  }
+
+  /**
+   * Distance (G) from the standing magnitude that still counts as standing
+   */
+  private getStandingBand(timestamp: number): number {
+    return this.getRiseThreshold(timestamp) / 2;
+  }
+
+  protected resetRepState(): void {
+    super.resetRepState();
+    this.standingMagnitude = 0;
+    this.startPeakMagnitude = 0;
+    this.hasBrakedAtBottom = false;
+    this.topValleyMagnitude = Infinity;
+    this.standingSince = null;
+  }
+
+  /**
+   * Phase and depth thresholds in effect (configured values unless adaptive)
+   */
+  private getDescentThreshold(timestamp: number): number {
+    return this.config.adaptiveThresholds
+      ? this.thresholds.getDescentThreshold(timestamp)
+      : this.config.descentThreshold;
+  }
+
+  private getRiseThreshold(timestamp: number): number {
+    return this.config.adaptiveThresholds
+      ? this.thresholds.getRiseThreshold(timestamp)
+      : this.config.riseThreshold;
+  }
+
+  private getMinDepthThreshold(timestamp: number): number {
+    return this.config.adaptiveThresholds
+      ? this.thresholds.getMinDepthThreshold(timestamp)
+      : this.config.minDepthThreshold;
+  }
+
   /**
    * Create DetectedRep object from current state
    */
@@ -215,6 +352,7 @@ export class SquatDetector extends RepDetector {
       valleyMagnitude: this.valleyMagnitude,
       peakZValue: this.peakZValue,
       valleyZValue: this.valleyZValue,
+      targetTempo: this.config.targetTempo,
     });
 
     return {
@@ -232,31 +370,33 @@ export class SquatDetector extends RepDetector {
    *
    * All checks must pass for rep to count:
    * ✅ Sufficient depth (magnitude change)
-   * ✅ Sufficient Z-axis drop (vertical movement)
+   * ✅ Sufficient vertical acceleration swing (real up/down movement)
    * ✅ Duration within valid range
    * ✅ Stability score above threshold
    * ✅ Depth score above threshold
+   * ✅ Paced like the set while adaptive thresholds are lowered
    *
    * @param rep - Detected rep to validate
    * @returns True if rep meets all quality criteria
    */
   protected validateRep(rep: DetectedRep): boolean {
     const { features, duration, depth } = rep;
+    const minDepth = this.getMinDepthThreshold(rep.timestamp);
 
     console.log(`[SquatDetector] 🔍 Validating rep:
-      Depth: ${depth.toFixed(2)} (min: ${this.config.minDepthThreshold})
+      Depth: ${depth.toFixed(2)} (min: ${minDepth.toFixed(2)})
       Z-change: ${features.zAxisChange.toFixed(2)} (min: ${this.config.minZAxisChange})
       Duration: ${duration}ms (min: ${this.config.minRepDuration}, max: ${this.config.maxRepDuration})
       Stability: ${features.stabilityScore.toFixed(0)} (min: ${this.config.minStabilityScore})
       Depth Score: ${features.depthScore.toFixed(0)} (min: ${this.config.minDepthScore})`);
 
     // 1. Check depth (magnitude change)
-    if (depth < this.config.minDepthThreshold) {
-      console.log(`[SquatDetector] ❌ Failed: Depth ${depth.toFixed(2)} < ${this.config.minDepthThreshold}`);
+    if (depth < minDepth) {
+      console.log(`[SquatDetector] ❌ Failed: Depth ${depth.toFixed(2)} < ${minDepth.toFixed(2)}`);
       return false;
     }
 
-    // 2. Check Z-axis change (vertical drop)
+    // 2. Check vertical change (swing of acceleration along gravity)
     // Use Math.abs() for clearer comparison (both values are negative)
     const zChange = Math.abs(features.zAxisChange);
     const minZChange = Math.abs(this.config.minZAxisChange);
@@ -289,6 +429,12 @@ export class SquatDetector extends RepDetector {
       return false;
     }
 
+    // 6. Lowered thresholds only accept reps paced like the set (not walking steps)
+    if (this.config.adaptiveThresholds && !this.thresholds.isPacedLikeSet(rep.depth, rep.timestamp)) {
+      console.log(`[SquatDetector] ❌ Failed: Too soon after the previous rep for this set`);
+      return false;
+    }
+
     // All checks passed
     console.log(`[SquatDetector] ✅ All validation checks passed!`);
     rep.isValid = true;
@@ -301,7 +447,7 @@ export class SquatDetector extends RepDetector {
   private getValidationFailureReason(rep: DetectedRep): string {
     const { features, duration, depth } = rep;
 
-    if (depth < this.config.minDepthThreshold) {
+    if (depth < this.getMinDepthThreshold(rep.timestamp)) {
       return VALIDATION_MESSAGES.INSUFFICIENT_DEPTH;
     }
     if (Math.abs(features.zAxisChange) < Math.abs(this.config.minZAxisChange)) {
@@ -319,21 +465,10 @@ export class SquatDetector extends RepDetector {
     if (features.depthScore < this.config.minDepthScore) {
       return VALIDATION_MESSAGES.LOW_RANGE;
     }
+    if (this.config.adaptiveThresholds && !this.thresholds.isPacedLikeSet(rep.depth, rep.timestamp)) {
+      return VALIDATION_MESSAGES.TOO_FAST;
+    }
 
     return 'Unknown validation failure';
   }
-
-  /**
-   * Update configuration (for runtime tuning)
-   */
-  setConfig(config: Partial<SquatDetectionConfig>): void {
-    this.config = { ...this.config, ...config };
-  }
-
-  /**
-   * Get current configuration
-   */
-  getConfig(): SquatDetectionConfig {
-    return { ...this.config };
-  }
 }
@@ -0,0 +1,81 @@
+/**
+ * Built-in Detector Profiles
+ * TrynerApp - Motion Engine
+ *
+ * Profiles for the exercises shipped with the app.
+ * Ids match the sensor_profile values seeded in the exercises table.
+ */
+
+import type { DetectorProfile } from './DetectorRegistry';
+import {
+  SquatDetectionConfig,
+  PushupDetectionConfig,
+  PullupDetectionConfig,
+  CalibrationRep,
+} from '../types';
+import { SquatDetector } from './SquatDetector';
+import { PushupDetector } from './PushupDetector';
+import { PullupDetector } from './PullupDetector';
+import { DEFAULT_WEIGHTS } from '../scoring/ScoringEngine';
+import {
+  DEFAULT_SQUAT_CONFIG,
+  DEFAULT_PUSHUP_CONFIG,
+  DEFAULT_PULLUP_CONFIG,
+} from '../core/constants';
+
+/** Lowest calibrated threshold (G), just above sensor noise while standing */
+const MIN_CALIBRATED_THRESHOLD = 0.05;
+
+/**
+ * Squat thresholds as fractions of the user's typical reference rep
+ * - Descent: well under the descent dip, so reps a bit shallower than the
+ *   reference still start (the detector keeps the top dip from starting one)
+ * - Depth: half the swing, so shallower reps late in a set still count
+ * - Prominence: half the braking peak at the bottom, so a bump that
+ *   barely clears standing doesn't pass for one
+ */
+function calibrateSquat(typical: CalibrationRep): Partial<SquatDetectionConfig> {
+  const threshold = (value: number) =>
+    Math.round(Math.max(MIN_CALIBRATED_THRESHOLD, value) * 1000) / 1000;
+
+  return {
+    descentThreshold: threshold(typical.drop * 0.6),
+    riseThreshold: threshold(typical.swing * 0.25),
+    minDepthThreshold: threshold(typical.swing * 0.5),
+    peakProminence: threshold(typical.prominence * 0.5),
+  };
+}
+
+const SQUAT_PROFILE: DetectorProfile<SquatDetectionConfig> = {
+  id: 'squat',
+  createDetector: (config) => new SquatDetector(config),
+  defaultConfig: DEFAULT_SQUAT_CONFIG,
+  scoringWeights: DEFAULT_WEIGHTS,
+  calibrate: calibrateSquat,
+};
+
+const PUSHUP_PROFILE: DetectorProfile<PushupDetectionConfig> = {
+  id: 'pushup',
+  createDetector: (config) => new PushupDetector(config),
+  defaultConfig: DEFAULT_PUSHUP_CONFIG,
+  scoringWeights: {
+    depth: 0.3,        // Smaller signal, depth is less reliable than for squats
+    stability: 0.3,    // Controlled lowering matters as much as depth
+    consistency: 0.2,
+    tempo: 0.2,
+  },
+};
+
+const PULLUP_PROFILE: DetectorProfile<PullupDetectionConfig> = {
+  id: 'pullup',
+  createDetector: (config) => new PullupDetector(config),
+  defaultConfig: DEFAULT_PULLUP_CONFIG,
+  scoringWeights: {
+    depth: 0.35,
+    stability: 0.2,
+    consistency: 0.3,  // Reps degrade quickly with fatigue
+    tempo: 0.15,       // Kipping shows up as a rushed pull
+  },
+};
+
+export const BUILT_IN_PROFILES = [SQUAT_PROFILE, PUSHUP_PROFILE, PULLUP_PROFILE];
@@ -0,0 +1,403 @@
+/**
+ * Detection Evaluator - Offline Accuracy Report for Labelled Recordings
+ * TrynerApp - Motion Engine
+ *
+ * Runs recordings through SignalProcessor → RepDetector → ScoringEngine
+ * without sensors or React, and compares detected reps with the
+ * ground-truth rep marks.
+ *
+ * Reported per recording and in aggregate:
+ * - Precision / recall / F1 (detected reps matched to marks within a tolerance)
+ * - Rep-timing error of matched reps (ms)
+ * - Distribution of overall scores and technique labels
+ *
+ * The report is plain JSON, so runs before and after a change to a
+ * detector or its default config can be stored and diffed. With
+ * zeroPhase the recordings are filtered without lag, which separates
+ * detector timing from filter delay.
+ *
+ * Usage:
+ * ```typescript
+ * const report = evaluateRecordings(recordings.map(parseRecording), {
+ *   detectionConfig: { minDepthThreshold: 0.1 },
+ * });
+ * console.log(JSON.stringify(report, null, 2));
+ * ```
+ */
+
+import { BaseDetectionConfig, DetectedRep, RepScore, SensorRecording } from '../types';
+import { SignalProcessor } from '../processors/SignalProcessor';
+import { ScoringEngine } from '../scoring/ScoringEngine';
+import { detectorRegistry } from '../detectors/DetectorRegistry';
+
+// ============= TYPES =============
+
+export interface EvaluationOptions {
+  /** Max |detected - marked| in ms for a detection to count as a hit (default: 750) */
+  matchToleranceMs: number;
+
+  /** Start from the profile's current defaults or the config stored in the recording (default: 'current') */
+  configSource: 'current' | 'recorded';
+
+  /** Overrides applied on top of the chosen config (e.g. a tuning candidate) */
+  detectionConfig?: Partial<BaseDetectionConfig> & Record<string, unknown>;
+
+  /** Filter each recording forward and backward, without filter lag (default: false) */
+  zeroPhase: boolean;
+}
+
+export interface TimingErrorStats {
+  meanAbsMs: number;
+  medianAbsMs: number;
+  maxAbsMs: number;
+  meanSignedMs: number;          // > 0: detector fires after the marked completion
+}
+
+export interface ScoreDistribution {
+  count: number;
+  min: number;
+  max: number;
+  mean: number;
+  median: number;
+  stdDev: number;
+  p25: number;
+  p75: number;
+  techniques: Record<RepScore['technique'], number>;
+}
+
+export interface DetectionCounts {
+  groundTruth: number;
+  detected: number;
+  truePositives: number;
+  falsePositives: number;
+  falseNegatives: number;
+  precision: number;             // 0-1
+  recall: number;                // 0-1
+  f1: number;                    // 0-1
+}
+
+export interface RecordingEvaluation extends DetectionCounts {
+  recordingId: string;
+  exerciseType: string;
+  durationMs: number;
+  timingError: TimingErrorStats;
+  scores: ScoreDistribution;
+  /** Per-rep detail, for drilling into misses */
+  matches: Array<{ markedTimestamp: number; detectedTimestamp: number; errorMs: number }>;
+  falsePositiveTimestamps: number[];
+  falseNegativeTimestamps: number[];
+}
+
+export interface EvaluationReport {
+  generatedAt: string;           // ISO date
+  options: EvaluationOptions;
+  recordings: RecordingEvaluation[];
+  aggregate: DetectionCounts & {
+    recordingCount: number;
+    timingError: TimingErrorStats;
+    scores: ScoreDistribution;
+  };
+}
+
+const DEFAULT_EVALUATION_OPTIONS: EvaluationOptions = {
+  matchToleranceMs: 750,
+  configSource: 'current',
+  zeroPhase: false,
+};
+
+// ============= EVALUATION =============
+
+/**
+ * Evaluate a set of labelled recordings
+ *
+ * @param recordings - Parsed recordings with rep marks
+ * @param options - Matching tolerance and config overrides
+ * @returns JSON-serializable report
+ */
+export function evaluateRecordings(
+  recordings: SensorRecording[],
+  options: Partial<EvaluationOptions> = {}
+): EvaluationReport {
+  const resolved: EvaluationOptions = { ...DEFAULT_EVALUATION_OPTIONS, ...options };
+  const evaluations: RecordingEvaluation[] = [];
+  const allErrors: number[] = [];
+  const allScores: RepScore[] = [];
+
+  for (const recording of recordings) {
+    const { evaluation, scores } = runEvaluation(recording, resolved);
+    evaluations.push(evaluation);
+    allErrors.push(...evaluation.matches.map((m) => m.errorMs));
+    allScores.push(...scores);
+  }
+
+  const totals = evaluations.reduce(
+    (acc, e) => ({
+      groundTruth: acc.groundTruth + e.groundTruth,
+      detected: acc.detected + e.detected,
+      truePositives: acc.truePositives + e.truePositives,
+      falsePositives: acc.falsePositives + e.falsePositives,
+      falseNegatives: acc.falseNegatives + e.falseNegatives,
+    }),
+    { groundTruth: 0, detected: 0, truePositives: 0, falsePositives: 0, falseNegatives: 0 }
+  );
+
+  return {
+    generatedAt: new Date().toISOString(),
+    options: resolved,
+    recordings: evaluations,
+    aggregate: {
+      recordingCount: recordings.length,
+      ...withRates(totals),
+      timingError: calculateTimingError(allErrors),
+      scores: calculateScoreDistribution(allScores),
+    },
+  };
+}
+
+/**
+ * Evaluate a single labelled recording
+ *
+ * @param recording - Parsed recording with rep marks
+ * @param options - Matching tolerance and config overrides
+ */
+export function evaluateRecording(
+  recording: SensorRecording,
+  options: Partial<EvaluationOptions> = {}
+): RecordingEvaluation {
+  return runEvaluation(recording, { ...DEFAULT_EVALUATION_OPTIONS, ...options }).evaluation;
+}
+
+/**
+ * Evaluate reps detected elsewhere (e.g. by a MotionEngine replay)
+ * against a recording's rep marks
+ *
+ * @param recording - Parsed recording with rep marks
+ * @param reps - Valid detected reps, in order
+ * @param options - Matching tolerance (config options are ignored)
+ */
+export function evaluateDetectedReps(
+  recording: SensorRecording,
+  reps: DetectedRep[],
+  options: Partial<EvaluationOptions> = {}
+): RecordingEvaluation {
+  return buildEvaluation(recording, reps, { ...DEFAULT_EVALUATION_OPTIONS, ...options }).evaluation;
+}
+
+/**
+ * Run the detection pipeline over a recording
+ *
+ * @returns Valid detected reps with scores, in order
+ */
+export function detectReps(
+  recording: SensorRecording,
+  options: Partial<EvaluationOptions> = {}
+): DetectedRep[] {
+  const resolved = { ...DEFAULT_EVALUATION_OPTIONS, ...options };
+  const profile = detectorRegistry.get(recording.metadata.exerciseType);
+
+  // Profile defaults fill in settings added after a recording was made (e.g. targetTempo)
+  const baseConfig = resolved.configSource === 'recorded'
+    ? { ...profile.defaultConfig, ...recording.metadata.detectionConfig }
+    : profile.defaultConfig;
+  const config = { ...baseConfig, ...resolved.detectionConfig } as BaseDetectionConfig;
+
+  const processor = SignalProcessor.fromConfig(config);
+  const detector = profile.createDetector(config);
+  const scorer = new ScoringEngine(profile.scoringWeights);
+  const reps: DetectedRep[] = [];
+
+  // Zero-phase filtering needs the whole recording up front. Either way
+  // glitched (non-finite) readings are dropped, as the live engine does
+  const processed = resolved.zeroPhase
+    ? processor.processOffline(recording.samples)
+    : recording.samples
+        .filter((sample) => isFinite(sample.x) && isFinite(sample.y) && isFinite(sample.z))
+        .map((sample) => processor.process(sample));
+
+  for (const data of processed) {
+    const rep = detector.detect(data);
+    if (rep && rep.isValid) {
+      reps.push({ ...rep, score: scorer.score(rep.features) });
+    }
+  }
+
+  return reps;
+}
+
+function runEvaluation(
+  recording: SensorRecording,
+  options: EvaluationOptions
+): { evaluation: RecordingEvaluation; scores: RepScore[] } {
+  return buildEvaluation(recording, detectReps(recording, options), options);
+}
+
+function buildEvaluation(
+  recording: SensorRecording,
+  reps: DetectedRep[],
+  options: EvaluationOptions
+): { evaluation: RecordingEvaluation; scores: RepScore[] } {
+  const marks = recording.repMarks.map((m) => m.timestamp);
+  const detections = reps.map((r) => r.timestamp);
+
+  const { matches, unmatchedDetections, unmatchedMarks } =
+    matchDetections(marks, detections, options.matchToleranceMs);
+
+  const samples = recording.samples;
+  const durationMs = samples.length > 1
+    ? samples[samples.length - 1].timestamp - samples[0].timestamp
+    : 0;
+  const scores = reps.filter((r) => r.score).map((r) => r.score!);
+
+  return {
+    evaluation: {
+      recordingId: recording.metadata.id,
+      exerciseType: recording.metadata.exerciseType,
+      durationMs,
+      ...withRates({
+        groundTruth: marks.length,
+        detected: detections.length,
+        truePositives: matches.length,
+        falsePositives: unmatchedDetections.length,
+        falseNegatives: unmatchedMarks.length,
+      }),
+      timingError: calculateTimingError(matches.map((m) => m.errorMs)),
+      scores: calculateScoreDistribution(scores),
+      matches,
+      falsePositiveTimestamps: unmatchedDetections,
+      falseNegativeTimestamps: unmatchedMarks,
+    },
+    scores,
+  };
+}
+
+// ============= MATCHING =============
+
+/**
+ * One-to-one matching of detections to marks
+ *
+ * Candidate pairs within tolerance are taken closest-first, so a single
+ * detection can never satisfy two marks.
+ */
+function matchDetections(
+  marks: number[],
+  detections: number[],
+  toleranceMs: number
+): {
+  matches: RecordingEvaluation['matches'];
+  unmatchedDetections: number[];
+  unmatchedMarks: number[];
+} {
+  const candidates: Array<{ mark: number; detection: number; distance: number }> = [];
+
+  marks.forEach((markTime, mark) => {
+    detections.forEach((detectionTime, detection) => {
+      const distance = Math.abs(detectionTime - markTime);
+      if (distance <= toleranceMs) {
+        candidates.push({ mark, detection, distance });
+      }
+    });
+  });
+
+  candidates.sort((a, b) => a.distance - b.distance);
+
+  const usedMarks = new Set<number>();
+  const usedDetections = new Set<number>();
+  const matches: RecordingEvaluation['matches'] = [];
+
+  for (const { mark, detection } of candidates) {
+    if (usedMarks.has(mark) || usedDetections.has(detection)) continue;
+    usedMarks.add(mark);
+    usedDetections.add(detection);
+    matches.push({
+      markedTimestamp: marks[mark],
+      detectedTimestamp: detections[detection],
+      errorMs: detections[detection] - marks[mark],
+    });
+  }
+
+  matches.sort((a, b) => a.markedTimestamp - b.markedTimestamp);
+
+  return {
+    matches,
+    unmatchedDetections: detections.filter((_, i) => !usedDetections.has(i)),
+    unmatchedMarks: marks.filter((_, i) => !usedMarks.has(i)),
+  };
+}
+
+// ============= STATISTICS =============
+
+function withRates(counts: Omit<DetectionCounts, 'precision' | 'recall' | 'f1'>): DetectionCounts {
+  const { truePositives, falsePositives, falseNegatives } = counts;
+
+  // No detections and nothing to detect counts as perfect
+  const precision = truePositives + falsePositives > 0
+    ? truePositives / (truePositives + falsePositives)
+    : falseNegatives === 0 ? 1 : 0;
+  const recall = truePositives + falseNegatives > 0
+    ? truePositives / (truePositives + falseNegatives)
+    : 1;
+  const f1 = precision + recall > 0 ? (2 * precision * recall) / (precision + recall) : 0;
+
+  return { ...counts, precision, recall, f1 };
+}
+
+function calculateTimingError(errors: number[]): TimingErrorStats {
+  if (errors.length === 0) {
+    return { meanAbsMs: 0, medianAbsMs: 0, maxAbsMs: 0, meanSignedMs: 0 };
+  }
+
+  const absolute = errors.map(Math.abs).sort((a, b) => a - b);
+
+  return {
+    meanAbsMs: mean(absolute),
+    medianAbsMs: percentile(absolute, 0.5),
+    maxAbsMs: absolute[absolute.length - 1],
+    meanSignedMs: mean(errors),
+  };
+}
+
+function calculateScoreDistribution(scores: RepScore[]): ScoreDistribution {
+  const techniques: ScoreDistribution['techniques'] = {
+    excellent: 0,
+    optimal: 0,
+    good: 0,
+    acceptable: 0,
+    poor: 0,
+  };
+  scores.forEach((s) => {
+    techniques[s.technique]++;
+  });
+
+  if (scores.length === 0) {
+    return { count: 0, min: 0, max: 0, mean: 0, median: 0, stdDev: 0, p25: 0, p75: 0, techniques };
+  }
+
+  const values = scores.map((s) => s.overall).sort((a, b) => a - b);
+  const avg = mean(values);
+
+  return {
+    count: values.length,
+    min: values[0],
+    max: values[values.length - 1],
+    mean: avg,
+    median: percentile(values, 0.5),
+    stdDev: Math.sqrt(mean(values.map((v) => (v - avg) ** 2))),
+    p25: percentile(values, 0.25),
+    p75: percentile(values, 0.75),
+    techniques,
+  };
+}
+
+function mean(values: number[]): number {
+  return values.reduce((sum, v) => sum + v, 0) / values.length;
+}
+
+/**
+ * Linear-interpolated percentile of a sorted array
+ */
+function percentile(sorted: number[], p: number): number {
+  const position = (sorted.length - 1) * p;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+}
@@ -5,12 +5,13 @@
  * Extracts features from detected repetitions for scoring and validation.
  *
  * Features extracted:
- * - Timing: Descend/ascend/total duration
- * - Quality: Depth, stability, range scores (0-100)
+ * - Timing: Descend/ascend/pause/total duration, concentric speed
+ * - Quality: Depth, stability, range, tempo scores (0-100)
  * - Raw: Peak/valley magnitudes, changes
+ * - Pull-up: Concentric/eccentric time, top and hang pauses
  */
 
-import { RepFeatures } from '../types';
+import { RepFeatures, TempoTarget } from '../types';
 
 interface RepDataForExtraction {
   descendStartTime: number;
@@ -21,6 +22,20 @@ interface RepDataForExtraction {
   valleyMagnitude: number;
   peakZValue: number;
   valleyZValue: number;
+  targetTempo: TempoTarget;
+}
+
+interface PullupDataForExtraction {
+  hangStartTime: number;
+  concentricStartTime: number;
+  topTime: number;
+  eccentricStartTime: number;
+  completionTime: number;
+  peakMagnitude: number;
+  valleyMagnitude: number;
+  peakZValue: number;
+  valleyZValue: number;
+  targetTempo: TempoTarget;
 }
 
 export class RepFeatureExtractor {
@@ -34,6 +49,7 @@ export class RepFeatureExtractor {
     // Calculate timing features
     const descendDuration = data.bottomTime - data.descendStartTime;
     const ascendDuration = data.completionTime - data.ascendStartTime;
+    const pauseDuration = Math.max(0, data.ascendStartTime - data.bottomTime);
     const totalDuration = data.completionTime - data.descendStartTime;
 
     // Calculate magnitude changes
@@ -44,17 +60,26 @@ export class RepFeatureExtractor {
     const depthScore = this.calculateDepthScore(magnitudeChange);
     const stabilityScore = this.calculateStabilityScore(descendDuration, ascendDuration);
     const rangeScore = this.calculateRangeScore(magnitudeChange);
+    const tempoScore = this.calculateTempoScore(
+      descendDuration,
+      pauseDuration,
+      ascendDuration,
+      data.targetTempo
+    );
 
     return {
       // Timing
       descendDuration,
       ascendDuration,
       totalDuration,
+      pauseDuration,
+      concentricSpeed: this.calculateConcentricSpeed(magnitudeChange, ascendDuration),
 
       // Quality scores
       depthScore,
       stabilityScore,
       rangeScore,
+      tempoScore,
 
       // Raw measurements
       peakMagnitude: data.peakMagnitude,
@@ -64,6 +89,75 @@ export class RepFeatureExtractor {
     };
   }
 
+  /**
+   * Extract features from pull-up rep data
+   *
+   * Pull-ups start with the concentric phase, so "ascend" maps to
+   * the pull and "descend" to the lowering. Hang pause is not part
+   * of the rep duration; the tempo pause is the hold at the top.
+   *
+   * @param data - Pull-up timing and magnitude data
+   * @returns RepFeatures including pull-up specific timings
+   */
+  extractPullup(data: PullupDataForExtraction): RepFeatures {
+    const concentricDuration = data.topTime - data.concentricStartTime;
+    const eccentricDuration = data.completionTime - data.eccentricStartTime;
+    const topPauseDuration = data.eccentricStartTime - data.topTime;
+    const hangPauseDuration = data.concentricStartTime - data.hangStartTime;
+    const totalDuration = data.completionTime - data.concentricStartTime;
+
+    const magnitudeChange = data.peakMagnitude - data.valleyMagnitude;
+    const zAxisChange = data.valleyZValue - data.peakZValue;
+
+    return {
+      // Timing
+      descendDuration: eccentricDuration,
+      ascendDuration: concentricDuration,
+      totalDuration,
+      pauseDuration: topPauseDuration,
+      concentricSpeed: this.calculateConcentricSpeed(magnitudeChange, concentricDuration),
+
+      // Quality scores
+      depthScore: this.calculateDepthScore(magnitudeChange),
+      stabilityScore: this.calculateStabilityScore(eccentricDuration, concentricDuration),
+      rangeScore: this.calculateRangeScore(magnitudeChange),
+      tempoScore: this.calculateTempoScore(
+        eccentricDuration,
+        topPauseDuration,
+        concentricDuration,
+        data.targetTempo
+      ),
+
+      // Raw measurements
+      peakMagnitude: data.peakMagnitude,
+      valleyMagnitude: data.valleyMagnitude,
+      magnitudeChange,
+      zAxisChange,
+
+      // Pull-up specific
+      concentricDuration,
+      eccentricDuration,
+      topPauseDuration,
+      hangPauseDuration,
+    };
+  }
+
+  /**
+   * Calculate concentric speed (G/s)
+   *
+   * Range covered per second of the lifting phase. Not a true bar
+   * velocity, but it drops the same way as reps slow down with fatigue,
+   * which is what velocity-loss tracking needs.
+   *
+   * @param magnitudeChange - Peak-to-valley magnitude (G)
+   * @param concentricDuration - Lifting phase duration (ms)
+   * @returns Speed in G/s (0 if the phase has no duration)
+   */
+  private calculateConcentricSpeed(magnitudeChange: number, concentricDuration: number): number {
+    if (concentricDuration <= 0) return 0;
+    return magnitudeChange / (concentricDuration / 1000);
+  }
+
   /**
    * Calculate depth score (0-100)
    *
@@ -126,18 +220,14 @@ export class RepFeatureExtractor {
   /**
    * Calculate range score (0-100)
    *
-   * Measures consistency of range of motion across reps.
-   * In MVP, this is simplified to just magnitude-based scoring.
-   *
-   * Future enhancement: Track historical rep data to measure
-   * consistency across multiple reps.
+   * Single-rep range of motion (same curve as depth).
+   * Rep-to-rep consistency needs the previous reps, so it is scored
+   * by ScoringEngine (ConsistencyTracker), not here.
    *
    * @param magnitudeChange - Peak-to-valley magnitude (G)
    * @returns Score from 0-100
    */
   private calculateRangeScore(magnitudeChange: number): number {
-    // MVP: Use similar logic to depth score
-    // Future: Compare to average of last 5 reps for consistency
     if (magnitudeChange >= 1.2) return 100;
     if (magnitudeChange >= 1.0) return 90;
     if (magnitudeChange >= 0.8) return 70;
@@ -149,25 +239,43 @@ export class RepFeatureExtractor {
   /**
    * Calculate tempo score (0-100)
    *
-   * Measures if rep is performed at optimal tempo.
-   * Future enhancement for detailed scoring.
+   * Measures how closely each phase matches the target tempo
+   * (e.g. 3-1-1: 3 s lowering, 1 s pause, 1 s lifting).
+   * Deviation = summed per-phase error / target rep duration.
    *
-   * Optimal squat tempo: ~2-3 seconds total
-   * - Too fast = momentum/bouncing
-   * - Too slow = fatigue/grinding
+   * Scoring:
+   * - ≤10% off: 100
+   * - ≤25% off: 85
+   * - ≤50% off: 65
+   * - ≤75% off: 40
+   * - Beyond: linear down to 0 at 100% off
    *
-   * @param totalDuration - Total rep duration (ms)
+   * @param eccentricDuration - Lowering phase duration (ms)
+   * @param pauseDuration - Hold between phases (ms)
+   * @param concentricDuration - Lifting phase duration (ms)
+   * @param target - Target tempo (ms per phase)
    * @returns Score from 0-100
    */
-  private calculateTempoScore(totalDuration: number): number {
-    const durationSeconds = totalDuration / 1000;
+  private calculateTempoScore(
+    eccentricDuration: number,
+    pauseDuration: number,
+    concentricDuration: number,
+    target: TempoTarget
+  ): number {
+    const targetTotal = target.eccentric + target.pause + target.concentric;
+    if (targetTotal <= 0) return 0;
+
+    const error =
+      Math.abs(eccentricDuration - target.eccentric) +
+      Math.abs(pauseDuration - target.pause) +
+      Math.abs(concentricDuration - target.concentric);
+    const deviation = error / targetTotal;
 
-    // Optimal range: 2-3 seconds
-    if (durationSeconds >= 2 && durationSeconds <= 3) return 100;
-    if (durationSeconds >= 1.5 && durationSeconds <= 4) return 85;
-    if (durationSeconds >= 1 && durationSeconds <= 5) return 65;
+    if (deviation <= 0.1) return 100;
+    if (deviation <= 0.25) return 85;
+    if (deviation <= 0.5) return 65;
+    if (deviation <= 0.75) return 40;
 
-    // Too fast or too slow
-    return 40;
+    return Math.max(0, (1 - deviation) * 160);
   }
 }
@@ -8,6 +8,9 @@
  * Features:
  * - React state for rep counting and data
  * - Haptic feedback on rep detection
+ * - Movement-stopped callback (rest detection)
+ * - Velocity-loss callback (fatigue detection)
+ * - Per-user calibration loaded from SQLite (when userId is given)
  * - Automatic cleanup on unmount
  * - Real-time accelerometer data for graphing
  */
@@ -18,10 +21,14 @@ import {
   MotionEngine,
   MotionEngineConfig,
   DetectedRep,
+  MovementStoppedEvent,
+  VelocityLossEvent,
   RepPhase,
   ProcessedSensorData,
   DEFAULT_MOTION_CONFIG,
+  SessionRecorder,
 } from '../index';
+import { getDetectionCalibration } from '@/core/database/workoutOperations';
 
 // ============= TYPES =============
 
@@ -32,6 +39,12 @@ interface UseMotionEngineOptions {
   /** Callback when rep is detected (receives rep with score) */
   onRepDetected?: (rep: DetectedRep) => void;
 
+  /** Callback when the user stops moving for the configured rest period */
+  onMovementStopped?: (event: MovementStoppedEvent) => void;
+
+  /** Callback when reps slow down past the configured velocity loss */
+  onVelocityLoss?: (event: VelocityLossEvent) => void;
+
   /** Callback on error */
   onError?: (error: Error) => void;
 
@@ -40,6 +53,12 @@ interface UseMotionEngineOptions {
 
   /** Enable sound feedback (default: true) */
   enableSound?: boolean;
+
+  /** Capture raw samples into this recorder while active (optional) */
+  recorder?: SessionRecorder | null;
+
+  /** Apply this user's saved calibration for config.exerciseType (optional) */
+  userId?: string | null;
 }
 
 interface UseMotionEngineReturn {
@@ -71,9 +90,13 @@ export const useMotionEngine = (options: UseMotionEngineOptions = {}): UseMotion
   const {
     config = DEFAULT_MOTION_CONFIG,
     onRepDetected,
+    onMovementStopped,
+    onVelocityLoss,
     onError,
     enableHaptics = true,
     enableSound = true,
+    recorder = null,
+    userId = null,
   } = options;
 
   // React state (simpler and more stable than Reanimated shared values)
@@ -88,8 +111,13 @@ export const useMotionEngine = (options: UseMotionEngineOptions = {}): UseMotion
   const sessionStartTimeRef = useRef<number>(0);
   const isMountedRef = useRef(true);
 
+  // Settles once the user's calibration is applied (or found missing)
+  const calibrationLoadRef = useRef<Promise<void>>(Promise.resolve());
+
   // Store callbacks in refs to avoid re-initializing engine on every render
   const onRepDetectedRef = useRef(onRepDetected);
+  const onMovementStoppedRef = useRef(onMovementStopped);
+  const onVelocityLossRef = useRef(onVelocityLoss);
   const onErrorRef = useRef(onError);
   const enableHapticsRef = useRef(enableHaptics);
 
@@ -98,6 +126,14 @@ export const useMotionEngine = (options: UseMotionEngineOptions = {}): UseMotion
     onRepDetectedRef.current = onRepDetected;
   }, [onRepDetected]);
 
+  useEffect(() => {
+    onMovementStoppedRef.current = onMovementStopped;
+  }, [onMovementStopped]);
+
+  useEffect(() => {
+    onVelocityLossRef.current = onVelocityLoss;
+  }, [onVelocityLoss]);
+
   useEffect(() => {
     onErrorRef.current = onError;
   }, [onError]);
@@ -180,6 +216,26 @@ export const useMotionEngine = (options: UseMotionEngineOptions = {}): UseMotion
         }
       },
 
+      onMovementStopped: (event) => {
+        if (!isMountedRef.current || !onMovementStoppedRef.current) return;
+
+        try {
+          onMovementStoppedRef.current(event);
+        } catch (e) {
+          console.error('[useMotionEngine] Error in onMovementStopped callback:', e);
+        }
+      },
+
+      onVelocityLoss: (event) => {
+        if (!isMountedRef.current || !onVelocityLossRef.current) return;
+
+        try {
+          onVelocityLossRef.current(event);
+        } catch (e) {
+          console.error('[useMotionEngine] Error in onVelocityLoss callback:', e);
+        }
+      },
+
       onError: (error) => {
         console.error('[useMotionEngine] ❌ Error:', error);
         if (onErrorRef.current) {
@@ -204,6 +260,33 @@ export const useMotionEngine = (options: UseMotionEngineOptions = {}): UseMotion
     };
   }, []);
 
+  // Load the user's calibration for this exercise on top of the given config
+  useEffect(() => {
+    if (!userId) return;
+
+    calibrationLoadRef.current = getDetectionCalibration(userId, config.exerciseType)
+      .then((calibration) => {
+        if (!calibration || !engineRef.current) return;
+
+        engineRef.current.setConfig({
+          detectionConfig: { ...config.detectionConfig, ...calibration.config },
+        });
+
+        if (__DEV__) {
+          console.log(`[useMotionEngine] 🎚️ Calibration applied (${config.exerciseType}):`, calibration.config);
+        }
+      })
+      .catch((error) => {
+        // Defaults still work; a broken calibration must not block the workout
+        console.error('[useMotionEngine] Error loading calibration:', error);
+      });
+  }, [userId]);
+
+  // Attach/detach recorder (engine is created once, recorder may change)
+  useEffect(() => {
+    engineRef.current?.setRecorder(recorder);
+  }, [recorder]);
+
   // Update accelerometer data periodically (1 Hz - very conservative)
   useEffect(() => {
     if (!engineRef.current) return;
@@ -235,6 +318,14 @@ export const useMotionEngine = (options: UseMotionEngineOptions = {}): UseMotion
               filteredY: item.filteredY,
               filteredZ: item.filteredZ,
               filteredMagnitude: item.filteredMagnitude,
+              gravityX: item.gravityX,
+              gravityY: item.gravityY,
+              gravityZ: item.gravityZ,
+              verticalAcceleration: item.verticalAcceleration,
+              horizontalAcceleration: item.horizontalAcceleration,
+              pitch: item.pitch,
+              roll: item.roll,
+              rotationRate: item.rotationRate,
             }));
 
             setAccelerometerData(simpleCopy);
@@ -275,6 +366,9 @@ export const useMotionEngine = (options: UseMotionEngineOptions = {}): UseMotion
     setLastRepScore(0);
     setAccelerometerData([]);
 
+    // Don't count reps with default thresholds while the calibration is loading
+    await calibrationLoadRef.current;
+
     await engineRef.current.start();
 
     if (__DEV__) {
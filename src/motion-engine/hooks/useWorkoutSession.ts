@@ -244,7 +244,7 @@ export const useWorkoutSession = (
    */
   const endSession = useCallback((): SessionData => {
     // Stop motion engine if running
-    if (motionEngine.isActive.value) {
+    if (motionEngine.isActive) {
       motionEngine.stop();
     }
 
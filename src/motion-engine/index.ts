@@ -30,6 +30,7 @@ export type {
   // Sensor data
   AccelerometerData,
   ProcessedSensorData,
+  SensorFusionMode,
 
   // Rep detection
   RepPhase,
@@ -38,8 +39,18 @@ export type {
   RepScore,
 
   // Configuration
+  ExerciseType,
+  BaseDetectionConfig,
   SquatDetectionConfig,
+  PushupDetectionConfig,
+  PullupDetectionConfig,
+  DetectionConfig,
+  TempoTarget,
+  FilterStageConfig,
+  BiquadFilterType,
   MotionEngineConfig,
+  RestDetectionConfig,
+  FatigueDetectionConfig,
 
   // State
   MotionEngineState,
@@ -47,21 +58,40 @@ export type {
 
   // Callbacks
   MotionEngineCallbacks,
+  MovementStoppedEvent,
+  VelocityLossEvent,
 
   // Peak detection
   Peak,
   Valley,
+
+  // Recording
+  RecordingDevice,
+  RecordingMetadata,
+  RecordedDetectionConfig,
+  RepMark,
+  SensorRecording,
+
+  // Calibration
+  CalibrationRep,
 } from './types';
 
 // ============= CONSTANTS =============
 export {
   DEFAULT_SQUAT_CONFIG,
+  DEFAULT_PUSHUP_CONFIG,
+  DEFAULT_PULLUP_CONFIG,
   DEFAULT_MOTION_CONFIG,
+  DEFAULT_PUSHUP_MOTION_CONFIG,
+  DEFAULT_PULLUP_MOTION_CONFIG,
+  DEFAULT_REST_DETECTION_CONFIG,
+  DEFAULT_FATIGUE_DETECTION_CONFIG,
   SCORE_THRESHOLDS,
   PHYSICS,
   BUFFER,
   VALIDATION_MESSAGES,
   getScoreTechnique,
+  formatTempo,
 } from './core/constants';
 
 // ============= COMPONENTS (for advanced usage) =============
@@ -69,13 +99,93 @@ export {
 // if you need to build custom detection pipelines
 
 export { SensorAdapter } from './adapters/SensorAdapter';
-export { LowPassFilter } from './processors/LowPassFilter';
+export { ReplaySensorAdapter } from './adapters/ReplaySensorAdapter';
+export type { SensorSource } from './adapters/SensorSource';
+export { LowPassFilter, alphaFromCutoff, cutoffFromAlpha } from './processors/LowPassFilter';
+export { BiquadFilter } from './processors/BiquadFilter';
+export { MedianFilter } from './processors/MedianFilter';
+export { FilterChain } from './processors/FilterChain';
 export { SignalProcessor } from './processors/SignalProcessor';
+export { GravityEstimator } from './processors/GravityEstimator';
+export type { GravityEstimate } from './processors/GravityEstimator';
+export { OrientationFilter } from './processors/OrientationFilter';
+export type { Orientation, RotationRate } from './processors/OrientationFilter';
+export { StillnessDetector } from './processors/StillnessDetector';
+export { FatigueDetector, calculateVelocityLoss } from './processors/FatigueDetector';
 export { PeakDetector } from './detectors/PeakDetector';
 export { RepDetector } from './detectors/RepDetector';
 export { SquatDetector } from './detectors/SquatDetector';
+export { AdaptiveThresholds } from './detectors/AdaptiveThresholds';
+export { PushupDetector } from './detectors/PushupDetector';
+export { PullupDetector } from './detectors/PullupDetector';
+export { DetectorRegistry, detectorRegistry } from './detectors/DetectorRegistry';
+export type { DetectorProfile } from './detectors/DetectorRegistry';
 export { RepFeatureExtractor } from './extractors/RepFeatureExtractor';
 export { ScoringEngine } from './scoring/ScoringEngine';
+export { ConsistencyTracker } from './scoring/ConsistencyTracker';
+export type { ScoringWeights } from './scoring/ScoringEngine';
+
+// ============= RECORDING =============
+// Raw session capture for sharing and offline replay
+
+export { SessionRecorder } from './recording/SessionRecorder';
+export {
+  serializeRecording,
+  parseRecording,
+  RECORDING_FORMAT_ID,
+  RECORDING_FORMAT_VERSION,
+} from './recording/recordingFormat';
+
+// ============= EVALUATION =============
+// Headless accuracy reports over labelled recordings
+
+export {
+  evaluateRecordings,
+  evaluateRecording,
+  evaluateDetectedReps,
+  detectReps,
+} from './evaluation/DetectionEvaluator';
+export type {
+  EvaluationOptions,
+  EvaluationReport,
+  RecordingEvaluation,
+  DetectionCounts,
+  TimingErrorStats,
+  ScoreDistribution,
+} from './evaluation/DetectionEvaluator';
+
+// ============= CALIBRATION =============
+// Personal detection thresholds from the user's reference reps
+
+export {
+  calibrateDetection,
+  findCalibrationReps,
+  MIN_CALIBRATION_REPS,
+} from './calibration/DetectionCalibrator';
+export type { CalibrationResult } from './calibration/DetectionCalibrator';
+
+// ============= SIMULATION =============
+// Synthetic sensor streams for testing without a device
+
+export {
+  generateSquatSignal,
+  generateSquatRecording,
+  DEFAULT_SQUAT_SIGNAL_OPTIONS,
+} from './simulation/squatSignalGenerator';
+export type {
+  SquatSignalOptions,
+  SquatSignal,
+  SquatTempo,
+} from './simulation/squatSignalGenerator';
+export {
+  runSimulationChecks,
+  SIMULATION_SCENARIOS,
+} from './simulation/simulationChecks';
+export type {
+  SimulationScenario,
+  SimulationPath,
+  SimulationCheckResult,
+} from './simulation/simulationChecks';
 
 // ============= REACT HOOKS =============
 // React + Reanimated integration hooks (most common usage)
@@ -0,0 +1,145 @@
+/**
+ * Biquad Filter - 2nd-Order Butterworth Low-Pass / High-Pass
+ * TrynerApp - Motion Engine
+ *
+ * One channel of a second-order IIR section, designed from a cutoff in Hz
+ * and the sampling rate (RBJ cookbook, Q = 1/√2 for a flat Butterworth
+ * passband). Compared with the single-pole LowPassFilter it rolls off
+ * twice as steeply (-12 dB/octave), so noise above the cutoff is removed
+ * without smoothing the motion itself as much.
+ *
+ * Structure: transposed direct form II
+ *   y = b0·x + s1
+ *   s1 = b1·x − a1·y + s2
+ *   s2 = b2·x − a2·y
+ *
+ * Cutoff guide (squats move below ~1 Hz):
+ * - Low-pass 2-4 Hz: removes sensor noise and footstep jolts
+ * - High-pass: removes gravity as well as drift, so only for signals
+ *   that do not rely on the 1 G baseline
+ */
+
+import { BiquadFilterType } from '../types';
+
+/** Highest cutoff as a fraction of the Nyquist frequency once the rate is known */
+const MAX_NYQUIST_FRACTION = 0.9;
+
+export class BiquadFilter {
+  private type: BiquadFilterType;
+  private cutoffHz: number;
+  private samplingRate: number = 0;
+
+  // Normalized coefficients (a0 = 1)
+  private b0: number = 1;
+  private b1: number = 0;
+  private b2: number = 0;
+  private a1: number = 0;
+  private a2: number = 0;
+
+  // Filter state
+  private s1: number = 0;
+  private s2: number = 0;
+  private isInitialized: boolean = false;
+
+  /**
+   * @param type - 'lowpass' or 'highpass'
+   * @param cutoffHz - -3 dB frequency (Hz)
+   * @param samplingRate - Sample rate the coefficients are designed for (Hz)
+   * @throws Error if the cutoff is not between 0 and the Nyquist frequency
+   */
+  constructor(type: BiquadFilterType, cutoffHz: number, samplingRate: number) {
+    if (!(samplingRate > 0)) {
+      throw new Error('BiquadFilter: samplingRate must be positive');
+    }
+    if (!(cutoffHz > 0) || cutoffHz >= samplingRate / 2) {
+      throw new Error(`BiquadFilter: cutoffHz must be between 0 and ${samplingRate / 2} Hz (Nyquist)`);
+    }
+    this.type = type;
+    this.cutoffHz = cutoffHz;
+    this.setSamplingRate(samplingRate);
+  }
+
+  /**
+   * Filter one value
+   *
+   * First call initializes the state as if the input had always been
+   * this value (no start-up transient).
+   *
+   * @param value - Input sample
+   * @returns Filtered sample
+   */
+  process(value: number): number {
+    if (!this.isInitialized) {
+      this.settle(value);
+      this.isInitialized = true;
+    }
+
+    const output = this.b0 * value + this.s1;
+    this.s1 = this.b1 * value - this.a1 * output + this.s2;
+    this.s2 = this.b2 * value - this.a2 * output;
+    return output;
+  }
+
+  /**
+   * Redesign the coefficients for a new sampling rate (state is kept)
+   *
+   * The cutoff is capped below Nyquist, so a sensor running slower than
+   * requested degrades the filter instead of making it unstable.
+   *
+   * @param samplingRate - Actual sample rate (Hz)
+   */
+  setSamplingRate(samplingRate: number): void {
+    if (!(samplingRate > 0)) return;
+    this.samplingRate = samplingRate;
+
+    const cutoff = Math.min(this.cutoffHz, (samplingRate / 2) * MAX_NYQUIST_FRACTION);
+    const omega = (2 * Math.PI * cutoff) / samplingRate;
+    const cos = Math.cos(omega);
+    const alpha = Math.sin(omega) / Math.SQRT2; // sin(ω) / (2Q), Q = 1/√2
+    const a0 = 1 + alpha;
+
+    if (this.type === 'lowpass') {
+      this.b0 = (1 - cos) / 2 / a0;
+      this.b1 = (1 - cos) / a0;
+      this.b2 = this.b0;
+    } else {
+      this.b0 = (1 + cos) / 2 / a0;
+      this.b1 = -(1 + cos) / a0;
+      this.b2 = this.b0;
+    }
+    this.a1 = (-2 * cos) / a0;
+    this.a2 = (1 - alpha) / a0;
+  }
+
+  /**
+   * Get the sample rate the coefficients are designed for (Hz)
+   */
+  getSamplingRate(): number {
+    return this.samplingRate;
+  }
+
+  /**
+   * Steady state for a constant input (DC gain: 1 low-pass, 0 high-pass)
+   */
+  private settle(value: number): void {
+    const output = this.type === 'lowpass' ? value : 0;
+    this.s2 = this.b2 * value - this.a2 * output;
+    this.s1 = this.b1 * value - this.a1 * output + this.s2;
+  }
+
+  /**
+   * Reset filter state (next value re-initializes it)
+   */
+  reset(): void {
+    this.s1 = 0;
+    this.s2 = 0;
+    this.isInitialized = false;
+  }
+
+  /**
+   * Check if filter has been initialized
+   */
+  isReady(): boolean {
+    return this.isInitialized;
+  }
+}
@@ -0,0 +1,105 @@
+/**
+ * Fatigue Detector - Velocity Loss Within a Set
+ * TrynerApp - Motion Engine
+ *
+ * Tracks the concentric speed of each rep against a baseline taken from
+ * the first reps of the set. Velocity-based training stops a set once
+ * speed has dropped by a chosen percentage (e.g. 20%).
+ *
+ * Fires once per set, on the first rep at or past the threshold.
+ */
+
+import { DetectedRep, FatigueDetectionConfig, VelocityLossEvent } from '../types';
+
+/**
+ * Velocity loss of the last rep (% below the mean of the first reps)
+ *
+ * @param speeds - Concentric speed of each rep of the set, in order
+ * @param baselineReps - Leading reps averaged into the baseline
+ * @returns Loss in % (0-100), or null until there is a rep past the baseline
+ */
+export function calculateVelocityLoss(speeds: number[], baselineReps: number): number | null {
+  if (baselineReps < 1 || speeds.length <= baselineReps) return null;
+
+  const baseline = speeds.slice(0, baselineReps).reduce((sum, speed) => sum + speed, 0) / baselineReps;
+  if (!(baseline > 0)) return null;
+
+  const last = speeds[speeds.length - 1];
+  return Math.min(100, Math.max(0, ((baseline - last) / baseline) * 100));
+}
+
+export class FatigueDetector {
+  private config: FatigueDetectionConfig;
+  private speeds: number[] = [];
+  private hasFired: boolean = false;
+
+  /**
+   * @param config - Fatigue detection configuration
+   */
+  constructor(config: FatigueDetectionConfig) {
+    if (config.baselineReps < 1) {
+      throw new Error('FatigueDetector: baselineReps must be at least 1');
+    }
+    this.config = config;
+  }
+
+  /**
+   * Feed one valid rep
+   *
+   * @param rep - Detected rep (features.concentricSpeed is used)
+   * @returns Event when velocity loss first reaches the threshold, otherwise null
+   */
+  update(rep: DetectedRep): VelocityLossEvent | null {
+    if (!this.config.enabled) return null;
+
+    this.speeds.push(rep.features.concentricSpeed);
+
+    const velocityLoss = this.getVelocityLoss();
+    if (this.hasFired || velocityLoss === null || velocityLoss < this.config.velocityLossThreshold) {
+      return null;
+    }
+
+    this.hasFired = true;
+    return {
+      timestamp: rep.timestamp,
+      repNumber: rep.repNumber,
+      concentricSpeed: rep.features.concentricSpeed,
+      baselineSpeed: this.getBaselineSpeed() ?? 0,
+      velocityLoss,
+    };
+  }
+
+  /**
+   * Velocity loss of the latest rep (null until past the baseline reps)
+   */
+  getVelocityLoss(): number | null {
+    return calculateVelocityLoss(this.speeds, this.config.baselineReps);
+  }
+
+  /**
+   * Baseline speed in G/s (null until the baseline reps are done)
+   */
+  getBaselineSpeed(): number | null {
+    if (this.speeds.length < this.config.baselineReps) return null;
+    const baseline = this.speeds.slice(0, this.config.baselineReps);
+    return baseline.reduce((sum, speed) => sum + speed, 0) / baseline.length;
+  }
+
+  /**
+   * Forget the set's reps and re-arm (new set)
+   */
+  reset(): void {
+    this.speeds = [];
+    this.hasFired = false;
+  }
+
+  /**
+   * Update configuration (keeps the reps seen so far)
+   */
+  setConfig(config: FatigueDetectionConfig): void {
+    if (config.baselineReps < 1) {
+      throw new Error('FatigueDetector: baselineReps must be at least 1');
+    }
+    this.config = config;
+  }
+}
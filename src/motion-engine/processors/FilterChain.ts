@@ -0,0 +1,233 @@
+/**
+ * Filter Chain - Configurable Per-Axis Filtering
+ * TrynerApp - Motion Engine
+ *
+ * Runs x/y/z through a list of filter stages, in order (see
+ * FilterStageConfig): Butterworth low-/high-pass biquads, a moving median
+ * and the single-pole smoother.
+ *
+ * Sampling rate:
+ * Stages are designed from a cutoff in Hz, so they need the real sample
+ * rate, which often differs from the requested one (expo-sensors on
+ * Android may deliver 50 Hz when 60 Hz is asked for). The chain measures
+ * the sample interval and redesigns the stages when the measured rate
+ * drifts more than RATE_TOLERANCE from the one they were designed for.
+ *
+ * Zero-phase mode (offline only):
+ * filterZeroPhase() runs the chain forward and then backward over a whole
+ * recording, cancelling the filter lag. Useful for evaluation, where the
+ * timing of detected reps is compared with ground-truth marks.
+ */
+
+import { AccelerometerData, FilterStageConfig } from '../types';
+import { LowPassFilter, alphaFromCutoff } from './LowPassFilter';
+import { BiquadFilter } from './BiquadFilter';
+import { MedianFilter } from './MedianFilter';
+
+type Vector3 = [number, number, number];
+
+// ============= CONSTANTS =============
+
+/** EMA coefficient for the measured sample interval (per sample) */
+const INTERVAL_ALPHA = 0.05;
+
+/** Intervals longer than this many nominal intervals are gaps, not the rate */
+const MAX_INTERVAL_FACTOR = 4;
+
+/** Relative difference between measured and designed rate that triggers a redesign */
+const RATE_TOLERANCE = 0.05;
+
+// ============= STAGES =============
+
+interface ChainStage {
+  filter(x: number, y: number, z: number): Vector3;
+  setSamplingRate(samplingRate: number): void;
+  reset(): void;
+}
+
+/**
+ * Build a three-axis stage from its config
+ *
+ * @throws Error if the stage config is invalid (e.g. cutoff above Nyquist)
+ */
+function createStage(config: FilterStageConfig, samplingRate: number): ChainStage {
+  switch (config.type) {
+    case 'lowpass':
+    case 'highpass': {
+      const axes = [0, 1, 2].map(() => new BiquadFilter(config.type, config.cutoffHz, samplingRate));
+      return {
+        filter: (x, y, z) => [axes[0].process(x), axes[1].process(y), axes[2].process(z)],
+        setSamplingRate: (rate) => axes.forEach((axis) => axis.setSamplingRate(rate)),
+        reset: () => axes.forEach((axis) => axis.reset()),
+      };
+    }
+
+    case 'median': {
+      const axes = [0, 1, 2].map(() => new MedianFilter(config.windowSize));
+      return {
+        filter: (x, y, z) => [axes[0].process(x), axes[1].process(y), axes[2].process(z)],
+        setSamplingRate: () => {},
+        reset: () => axes.forEach((axis) => axis.reset()),
+      };
+    }
+
+    case 'ema': {
+      if (!(config.cutoffHz >= 0)) {
+        throw new Error('FilterChain: ema cutoffHz must not be negative');
+      }
+      const smoother = new LowPassFilter(alphaFromCutoff(config.cutoffHz, samplingRate));
+      return {
+        filter: (x, y, z) => smoother.filter(x, y, z),
+        setSamplingRate: (rate) => smoother.setAlpha(alphaFromCutoff(config.cutoffHz, rate)),
+        reset: () => smoother.reset(),
+      };
+    }
+
+    default:
+      throw new Error(`FilterChain: Unknown filter stage '${(config as { type: string }).type}'`);
+  }
+}
+
+// ============= FILTER CHAIN =============
+
+export class FilterChain {
+  private configs: FilterStageConfig[];
+  private stages: ChainStage[];
+  private nominalRate: number;
+  private designedRate: number;
+  private interval: number;
+  private lastTimestamp: number | null = null;
+  private isInitialized: boolean = false;
+
+  /**
+   * @param stages - Filter stages, applied in order (empty = pass-through)
+   * @param samplingRate - Requested sample rate in Hz; the initial design rate (default: 60)
+   * @throws Error if samplingRate is not positive or a stage config is invalid
+   */
+  constructor(stages: FilterStageConfig[], samplingRate: number = 60) {
+    if (!(samplingRate > 0)) {
+      throw new Error('FilterChain: samplingRate must be positive');
+    }
+    this.configs = stages.map((stage) => ({ ...stage }));
+    this.stages = stages.map((stage) => createStage(stage, samplingRate));
+    this.nominalRate = samplingRate;
+    this.designedRate = samplingRate;
+    this.interval = 1000 / samplingRate;
+  }
+
+  /**
+   * Filter one reading
+   *
+   * @param x - X-axis acceleration (G)
+   * @param y - Y-axis acceleration (G)
+   * @param z - Z-axis acceleration (G)
+   * @param timestamp - Reading time (ms), used to measure the sampling rate
+   * @returns Filtered [x, y, z] values
+   */
+  filter(x: number, y: number, z: number, timestamp: number): Vector3 {
+    this.trackSamplingRate(timestamp);
+    this.isInitialized = true;
+    return this.runStages(x, y, z);
+  }
+
+  /**
+   * Filter a whole recording without phase lag (offline only)
+   *
+   * Designs for the recording's own median sample interval, then runs the
+   * chain forward and backward. Resets the chain before and after.
+   *
+   * @param samples - Finite readings in time order
+   * @returns Filtered [x, y, z] per sample
+   */
+  filterZeroPhase(samples: AccelerometerData[]): Vector3[] {
+    this.reset();
+    this.design(this.measureRecordingRate(samples));
+
+    const forward = samples.map((sample) => this.runStages(sample.x, sample.y, sample.z));
+    this.stages.forEach((stage) => stage.reset());
+    const backward = [...forward].reverse().map(([x, y, z]) => this.runStages(x, y, z));
+
+    this.reset();
+    return backward.reverse();
+  }
+
+  /**
+   * Get the stage configs the chain was built from
+   */
+  getStages(): FilterStageConfig[] {
+    return this.configs.map((stage) => ({ ...stage }));
+  }
+
+  /**
+   * Get the sample rate the stages are currently designed for (Hz)
+   */
+  getSamplingRate(): number {
+    return this.designedRate;
+  }
+
+  /**
+   * Reset filter state and go back to the requested sampling rate
+   */
+  reset(): void {
+    this.stages.forEach((stage) => stage.reset());
+    this.design(this.nominalRate);
+    this.interval = 1000 / this.nominalRate;
+    this.lastTimestamp = null;
+    this.isInitialized = false;
+  }
+
+  /**
+   * Check if the chain has filtered a reading since the last reset
+   */
+  isReady(): boolean {
+    return this.isInitialized;
+  }
+
+  private runStages(x: number, y: number, z: number): Vector3 {
+    let values: Vector3 = [x, y, z];
+    for (const stage of this.stages) {
+      values = stage.filter(values[0], values[1], values[2]);
+    }
+    return values;
+  }
+
+  /**
+   * Measure the live sample interval; redesign when the rate drifts
+   */
+  private trackSamplingRate(timestamp: number): void {
+    if (this.lastTimestamp !== null) {
+      const dt = timestamp - this.lastTimestamp;
+
+      // Ignore out-of-order samples and gaps (dropped samples, app in background)
+      if (dt > 0 && dt <= (1000 / this.nominalRate) * MAX_INTERVAL_FACTOR) {
+        this.interval += INTERVAL_ALPHA * (dt - this.interval);
+
+        const rate = 1000 / this.interval;
+        if (Math.abs(rate - this.designedRate) / this.designedRate > RATE_TOLERANCE) {
+          this.design(rate);
+        }
+      }
+    }
+    this.lastTimestamp = timestamp;
+  }
+
+  /**
+   * Sample rate of a recording from its median interval (requested rate if unknown)
+   */
+  private measureRecordingRate(samples: AccelerometerData[]): number {
+    const intervals: number[] = [];
+    for (let i = 1; i < samples.length; i++) {
+      const dt = samples[i].timestamp - samples[i - 1].timestamp;
+      if (dt > 0) intervals.push(dt);
+    }
+    if (intervals.length === 0) return this.nominalRate;
+
+    intervals.sort((a, b) => a - b);
+    return 1000 / intervals[Math.floor(intervals.length / 2)];
+  }
+
+  private design(samplingRate: number): void {
+    this.designedRate = samplingRate;
+    this.stages.forEach((stage) => stage.setSamplingRate(samplingRate));
+  }
+}
@@ -0,0 +1,136 @@
+/**
+ * Gravity Estimator - Gravity / Linear Acceleration Split
+ * TrynerApp - Motion Engine
+ *
+ * The accelerometer reads gravity plus the user's own acceleration. Gravity
+ * changes slowly (only when the phone turns), so a slow low-pass of the
+ * reading tracks it; what is left over is linear acceleration.
+ *
+ * Linear acceleration is then projected onto the estimated vertical:
+ * - Vertical: component along gravity (G, positive = accelerating upward)
+ * - Horizontal: size of the remaining component (G, always ≥ 0)
+ *
+ * Both are independent of how the phone sits in the pocket or hand.
+ *
+ * Algorithm: time-based EMA, so dropped samples do not speed up tracking
+ *   alpha = dt / (timeConstant + dt)
+ */
+
+export interface GravityEstimate {
+  gravityX: number;
+  gravityY: number;
+  gravityZ: number;
+  verticalAcceleration: number;
+  horizontalAcceleration: number;
+}
+
+export class GravityEstimator {
+  private timeConstant: number;
+  private gravityX: number = 0;
+  private gravityY: number = 0;
+  private gravityZ: number = 0;
+  private lastTimestamp: number = 0;
+  private isInitialized: boolean = false;
+
+  /**
+   * @param timeConstant - Tracking time constant in ms (default: 1500)
+   *                       Longer than a rep, so squat accelerations average out
+   */
+  constructor(timeConstant: number = 1500) {
+    if (!(timeConstant > 0)) {
+      throw new Error('GravityEstimator: timeConstant must be positive');
+    }
+    this.timeConstant = timeConstant;
+  }
+
+  /**
+   * Update the gravity estimate and split one reading
+   *
+   * First call initializes gravity with the reading (phone assumed still).
+   *
+   * @param x - X-axis acceleration (G)
+   * @param y - Y-axis acceleration (G)
+   * @param z - Z-axis acceleration (G)
+   * @param timestamp - Reading time (ms)
+   * @returns Gravity vector plus vertical/horizontal linear acceleration
+   */
+  update(x: number, y: number, z: number, timestamp: number): GravityEstimate {
+    if (!this.isInitialized) {
+      this.gravityX = x;
+      this.gravityY = y;
+      this.gravityZ = z;
+      this.isInitialized = true;
+    } else {
+      // Clamp dt: out-of-order samples freeze, long gaps jump at most one time constant
+      const dt = Math.min(Math.max(timestamp - this.lastTimestamp, 0), this.timeConstant);
+      const alpha = dt / (this.timeConstant + dt);
+
+      this.gravityX += alpha * (x - this.gravityX);
+      this.gravityY += alpha * (y - this.gravityY);
+      this.gravityZ += alpha * (z - this.gravityZ);
+    }
+    this.lastTimestamp = timestamp;
+
+    return {
+      gravityX: this.gravityX,
+      gravityY: this.gravityY,
+      gravityZ: this.gravityZ,
+      ...this.project(x - this.gravityX, y - this.gravityY, z - this.gravityZ),
+    };
+  }
+
+  /**
+   * Split linear acceleration into vertical and horizontal parts
+   */
+  private project(
+    linearX: number,
+    linearY: number,
+    linearZ: number
+  ): Pick<GravityEstimate, 'verticalAcceleration' | 'horizontalAcceleration'> {
+    const gravityMagnitude = Math.sqrt(
+      this.gravityX * this.gravityX + this.gravityY * this.gravityY + this.gravityZ * this.gravityZ
+    );
+
+    // Free fall or a zero reading: no usable vertical
+    if (gravityMagnitude < 1e-6) {
+      return {
+        verticalAcceleration: 0,
+        horizontalAcceleration: Math.sqrt(linearX * linearX + linearY * linearY + linearZ * linearZ),
+      };
+    }
+
+    // Projecting onto the reading's own gravity estimate makes a positive
+    // value mean "accelerating upward" whatever the platform's sign convention
+    const vertical =
+      (linearX * this.gravityX + linearY * this.gravityY + linearZ * this.gravityZ) / gravityMagnitude;
+
+    const horizontalX = linearX - (vertical * this.gravityX) / gravityMagnitude;
+    const horizontalY = linearY - (vertical * this.gravityY) / gravityMagnitude;
+    const horizontalZ = linearZ - (vertical * this.gravityZ) / gravityMagnitude;
+
+    return {
+      verticalAcceleration: vertical,
+      horizontalAcceleration: Math.sqrt(
+        horizontalX * horizontalX + horizontalY * horizontalY + horizontalZ * horizontalZ
+      ),
+    };
+  }
+
+  /**
+   * Reset estimator state (next reading re-initializes gravity)
+   */
+  reset(): void {
+    this.gravityX = 0;
+    this.gravityY = 0;
+    this.gravityZ = 0;
+    this.lastTimestamp = 0;
+    this.isInitialized = false;
+  }
+
+  /**
+   * Check if a gravity estimate exists
+   */
+  isReady(): boolean {
+    return this.isInitialized;
+  }
+}
@@ -12,7 +12,33 @@
  * - Lower alpha (0.1): Smoother, more lag
  * - Higher alpha (0.5): More responsive, noisier
  * - Default (0.22): Balanced for squat detection
+ *
+ * Alpha is per sample; alphaFromCutoff() / cutoffFromAlpha() convert to and
+ * from a -3 dB frequency in Hz for a given sampling rate.
+ */
+
+/**
+ * Alpha for a cutoff frequency at a sampling rate
+ *   alpha = 1 - e^(-2π·fc/fs)
+ *
+ * @param cutoffHz - -3 dB frequency (Hz, ≥ 0)
+ * @param samplingRate - Sample rate (Hz)
+ * @returns Smoothing factor (0-1)
  */
+export function alphaFromCutoff(cutoffHz: number, samplingRate: number): number {
+  return 1 - Math.exp((-2 * Math.PI * cutoffHz) / samplingRate);
+}
+
+/**
+ * Cutoff frequency of an alpha at a sampling rate (inverse of alphaFromCutoff)
+ *
+ * @param alpha - Smoothing factor (0-1); 1 (no smoothing) gives Infinity
+ * @param samplingRate - Sample rate (Hz)
+ * @returns -3 dB frequency (Hz)
+ */
+export function cutoffFromAlpha(alpha: number, samplingRate: number): number {
+  return (-Math.log(1 - alpha) * samplingRate) / (2 * Math.PI);
+}
 
 export class LowPassFilter {
   private alpha: number;
@@ -0,0 +1,60 @@
+/**
+ * Median Filter - Spike Removal
+ * TrynerApp - Motion Engine
+ *
+ * Moving median of the last windowSize values of one channel. A single
+ * glitched reading (a bump against the phone, a dropped bit) disappears
+ * entirely instead of being smeared over the next samples, as it would
+ * be by a low-pass filter. Put it first in a filter chain.
+ *
+ * Delay: (windowSize - 1) / 2 samples, so keep the window short (3-5).
+ */
+
+export class MedianFilter {
+  private windowSize: number;
+  private window: number[] = [];
+
+  /**
+   * @param windowSize - Values in the window, odd (default: 3)
+   * @throws Error if windowSize is not a positive odd integer
+   */
+  constructor(windowSize: number = 3) {
+    if (!Number.isInteger(windowSize) || windowSize < 1 || windowSize % 2 === 0) {
+      throw new Error('MedianFilter: windowSize must be a positive odd integer');
+    }
+    this.windowSize = windowSize;
+  }
+
+  /**
+   * Filter one value
+   *
+   * Until the window fills, the median of the values seen so far is returned.
+   *
+   * @param value - Input sample
+   * @returns Median of the window
+   */
+  process(value: number): number {
+    this.window.push(value);
+    if (this.window.length > this.windowSize) {
+      this.window.shift();
+    }
+
+    const sorted = [...this.window].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+  }
+
+  /**
+   * Reset filter state (clears the window)
+   */
+  reset(): void {
+    this.window = [];
+  }
+
+  /**
+   * Check if the window is full
+   */
+  isReady(): boolean {
+    return this.window.length === this.windowSize;
+  }
+}
@@ -0,0 +1,158 @@
+/**
+ * Orientation Filter - Accelerometer + Gyroscope Fusion
+ * TrynerApp - Motion Engine
+ *
+ * Complementary filter that tracks the "up" direction in device axes:
+ * 1. Gyroscope: rotate the previous estimate by the measured rotation
+ *    (fast and smooth, but drifts over time)
+ * 2. Accelerometer: pull the estimate toward the measured reading
+ *    (drift-free, but disturbed while the user accelerates)
+ *
+ * Without gyroscope readings only step 2 runs, which gives a lagging
+ * tilt estimate from the accelerometer alone.
+ *
+ * Angles use the simulator's frame: upright portrait is pitch 0°, roll 0°;
+ * pitch tips the screen back (up moves from Y into Z), roll turns it
+ * sideways (up moves from Y into X).
+ *
+ * Pure function of its inputs, so recorded sessions with gyroscope
+ * samples replay to the same angles.
+ */
+
+/**
+ * Angular velocity in device axes (rad/s)
+ */
+export interface RotationRate {
+  x: number;
+  y: number;
+  z: number;
+}
+
+export interface Orientation {
+  pitch: number;                 // degrees
+  roll: number;                  // degrees
+  rotationRate: number | null;   // deg/s (magnitude), null without gyroscope
+}
+
+/**
+ * Distance from 1 G (in G) at which the accelerometer stops correcting
+ */
+const ACCELERATION_TRUST_RANGE = 0.5;
+
+export class OrientationFilter {
+  private timeConstant: number;
+  private upX: number = 0;
+  private upY: number = 1;
+  private upZ: number = 0;
+  private lastTimestamp: number = 0;
+  private isInitialized: boolean = false;
+
+  /**
+   * @param timeConstant - Accelerometer correction time constant in ms (default: 500)
+   *                       Longer = trust the gyroscope more
+   */
+  constructor(timeConstant: number = 500) {
+    if (!(timeConstant > 0)) {
+      throw new Error('OrientationFilter: timeConstant must be positive');
+    }
+    this.timeConstant = timeConstant;
+  }
+
+  /**
+   * Fuse one reading
+   *
+   * First call initializes the estimate from the accelerometer.
+   *
+   * @param x - X-axis acceleration (G)
+   * @param y - Y-axis acceleration (G)
+   * @param z - Z-axis acceleration (G)
+   * @param timestamp - Reading time (ms)
+   * @param rotation - Gyroscope reading (rad/s), if the source provides one
+   * @returns Fused pitch/roll and rotation rate
+   */
+  update(x: number, y: number, z: number, timestamp: number, rotation?: RotationRate): Orientation {
+    const magnitude = Math.sqrt(x * x + y * y + z * z);
+
+    if (!this.isInitialized) {
+      if (magnitude > 0) {
+        this.upX = x / magnitude;
+        this.upY = y / magnitude;
+        this.upZ = z / magnitude;
+      }
+      this.isInitialized = true;
+    } else {
+      // Clamp dt: out-of-order samples freeze, long gaps jump at most one time constant
+      const dt = Math.min(Math.max(timestamp - this.lastTimestamp, 0), this.timeConstant);
+
+      if (rotation) {
+        this.rotate(rotation, dt / 1000);
+      }
+
+      // Trust the accelerometer less the further it reads from 1 G
+      const trust = Math.max(0, 1 - Math.abs(magnitude - 1) / ACCELERATION_TRUST_RANGE);
+      if (magnitude > 0 && trust > 0) {
+        const alpha = (dt / (this.timeConstant + dt)) * trust;
+        this.upX += alpha * (x / magnitude - this.upX);
+        this.upY += alpha * (y / magnitude - this.upY);
+        this.upZ += alpha * (z / magnitude - this.upZ);
+      }
+
+      this.normalize();
+    }
+    this.lastTimestamp = timestamp;
+
+    return {
+      pitch: this.toDegrees(Math.asin(Math.max(-1, Math.min(1, this.upZ)))),
+      roll: this.toDegrees(Math.atan2(-this.upX, this.upY)),
+      rotationRate: rotation
+        ? this.toDegrees(Math.sqrt(rotation.x * rotation.x + rotation.y * rotation.y + rotation.z * rotation.z))
+        : null,
+    };
+  }
+
+  /**
+   * Rotate the up vector by the device's rotation over dt seconds
+   *
+   * A world-fixed vector seen from a frame turning at ω changes as
+   * d(up)/dt = -ω × up
+   */
+  private rotate(rotation: RotationRate, dt: number): void {
+    const crossX = rotation.y * this.upZ - rotation.z * this.upY;
+    const crossY = rotation.z * this.upX - rotation.x * this.upZ;
+    const crossZ = rotation.x * this.upY - rotation.y * this.upX;
+
+    this.upX -= crossX * dt;
+    this.upY -= crossY * dt;
+    this.upZ -= crossZ * dt;
+  }
+
+  private normalize(): void {
+    const length = Math.sqrt(this.upX * this.upX + this.upY * this.upY + this.upZ * this.upZ);
+    if (length < 1e-6) return;
+    this.upX /= length;
+    this.upY /= length;
+    this.upZ /= length;
+  }
+
+  private toDegrees(radians: number): number {
+    return (radians * 180) / Math.PI;
+  }
+
+  /**
+   * Reset filter state (next reading re-initializes the estimate)
+   */
+  reset(): void {
+    this.upX = 0;
+    this.upY = 1;
+    this.upZ = 0;
+    this.lastTimestamp = 0;
+    this.isInitialized = false;
+  }
+
+  /**
+   * Check if an orientation estimate exists
+   */
+  isReady(): boolean {
+    return this.isInitialized;
+  }
+}
@@ -6,23 +6,58 @@
  * suitable for rep detection.
  *
  * Pipeline:
- * 1. Apply low-pass filter to reduce noise
+ * 1. Run the filter chain (spike removal, low-pass) to reduce noise
  * 2. Calculate magnitude vectors (√(x² + y² + z²))
- * 3. Return both raw and filtered data for flexibility
+ * 3. Estimate gravity and project linear acceleration onto the vertical
+ * 4. Fuse orientation (with the gyroscope when the sample carries one)
+ * 5. Return both raw and filtered data for flexibility
+ *
+ * process() filters causally, one live sample at a time; processOffline()
+ * filters a whole recording with zero phase lag, for evaluation.
  */
 
-import { AccelerometerData, ProcessedSensorData } from '../types';
-import { LowPassFilter } from './LowPassFilter';
+import { AccelerometerData, BaseDetectionConfig, FilterStageConfig, ProcessedSensorData } from '../types';
+import { FilterChain } from './FilterChain';
+import { cutoffFromAlpha } from './LowPassFilter';
+import { GravityEstimator } from './GravityEstimator';
+import { OrientationFilter, RotationRate } from './OrientationFilter';
 
 export class SignalProcessor {
-  private filter: LowPassFilter;
+  private filter: FilterChain;
+  private gravityEstimator: GravityEstimator;
+  private orientationFilter: OrientationFilter;
 
   /**
-   * @param lowPassAlpha - Smoothing factor for low-pass filter (0-1)
-   *                       Default: 0.22 (balanced for squat detection)
+   * @param filters - Filter chain, applied in order
+   *                  Default: single-pole smoother at 2.37 Hz (alpha 0.22 at 60 Hz)
+   * @param samplingRate - Requested sample rate in Hz (default: 60)
+   * @throws Error if a filter stage is invalid for the sampling rate
    */
-  constructor(lowPassAlpha: number = 0.22) {
-    this.filter = new LowPassFilter(lowPassAlpha);
+  constructor(filters: FilterStageConfig[] = [{ type: 'ema', cutoffHz: 2.37 }], samplingRate: number = 60) {
+    this.filter = new FilterChain(filters, samplingRate);
+    this.gravityEstimator = new GravityEstimator();
+    this.orientationFilter = new OrientationFilter();
+  }
+
+  /**
+   * Create a processor for a detection config
+   *
+   * Uses config.filters when set, otherwise a single-pole smoother with
+   * lowPassAlpha's cutoff at the configured sampling rate
+   *
+   * @param config - Exercise detection config
+   */
+  static fromConfig(config: BaseDetectionConfig): SignalProcessor {
+    if (config.filters) {
+      return new SignalProcessor(config.filters, config.samplingRate);
+    }
+
+    // Alpha 1 means no smoothing at all
+    const alpha = config.lowPassAlpha ?? 0.22;
+    const filters: FilterStageConfig[] = alpha >= 1
+      ? []
+      : [{ type: 'ema', cutoffHz: cutoffFromAlpha(alpha, config.samplingRate) }];
+    return new SignalProcessor(filters, config.samplingRate);
   }
 
   /**
@@ -32,17 +67,58 @@ export class SignalProcessor {
    *
    * @param raw - Raw accelerometer reading from expo-sensors
    * @returns Processed data with filtered values and magnitudes
+   * @throws Error if the reading is not finite (filter state is left untouched)
    */
   process(raw: AccelerometerData): ProcessedSensorData {
-    // Apply low-pass filter to reduce noise
-    const [filteredX, filteredY, filteredZ] = this.filter.filter(raw.x, raw.y, raw.z);
+    // A single NaN would otherwise stick in the filter history forever
+    if (!isFinite(raw.x) || !isFinite(raw.y) || !isFinite(raw.z)) {
+      throw new Error(`SignalProcessor: Non-finite sample at ${raw.timestamp}`);
+    }
+
+    // Run the filter chain to reduce noise
+    return this.build(raw, this.filter.filter(raw.x, raw.y, raw.z, raw.timestamp));
+  }
+
+  /**
+   * Process a whole recording with zero-phase filtering (evaluation only)
+   *
+   * The filter chain runs forward and then backward over all samples, so
+   * its lag cancels and peaks stay where they were recorded. Needs future
+   * samples, so the live engine can't use it. Resets the processor first;
+   * non-finite samples are dropped, as the live engine does.
+   *
+   * @param samples - Raw readings of a recording, in time order
+   * @returns Processed data for each finite sample
+   */
+  processOffline(samples: AccelerometerData[]): ProcessedSensorData[] {
+    this.reset();
 
+    const finite = samples.filter((s) => isFinite(s.x) && isFinite(s.y) && isFinite(s.z));
+    const filtered = this.filter.filterZeroPhase(finite);
+
+    return finite.map((raw, index) => this.build(raw, filtered[index]));
+  }
+
+  /**
+   * Magnitudes, gravity split and orientation for one filtered reading
+   */
+  private build(
+    raw: AccelerometerData,
+    [filteredX, filteredY, filteredZ]: [number, number, number]
+  ): ProcessedSensorData {
     // Calculate magnitude of raw signal: √(x² + y² + z²)
     const magnitude = this.calculateMagnitude(raw.x, raw.y, raw.z);
 
     // Calculate magnitude of filtered signal
     const filteredMagnitude = this.calculateMagnitude(filteredX, filteredY, filteredZ);
 
+    // Split the filtered signal into gravity and vertical/horizontal motion
+    const gravity = this.gravityEstimator.update(filteredX, filteredY, filteredZ, raw.timestamp);
+
+    // Fuse pitch/roll; a partial or non-finite gyro reading counts as none
+    const rotation = this.readRotation(raw);
+    const orientation = this.orientationFilter.update(filteredX, filteredY, filteredZ, raw.timestamp, rotation);
+
     return {
       // Raw values (from sensor)
       x: raw.x,
@@ -56,9 +132,21 @@ export class SignalProcessor {
       filteredY,
       filteredZ,
       filteredMagnitude,
+      ...gravity,
+      ...orientation,
     };
   }
 
+  /**
+   * Gyroscope reading attached to the sample, if complete
+   */
+  private readRotation(raw: AccelerometerData): RotationRate | undefined {
+    const { gyroX, gyroY, gyroZ } = raw;
+    if (gyroX === undefined || gyroY === undefined || gyroZ === undefined) return undefined;
+    if (!isFinite(gyroX) || !isFinite(gyroY) || !isFinite(gyroZ)) return undefined;
+    return { x: gyroX, y: gyroY, z: gyroZ };
+  }
+
   /**
    * Calculate vector magnitude: √(x² + y² + z²)
    *
@@ -75,28 +163,31 @@ export class SignalProcessor {
   }
 
   /**
-   * Reset processor state (clears filter history)
+   * Reset processor state (clears filter history, gravity and orientation)
    * Call this when starting a new workout session
    */
   reset(): void {
     this.filter.reset();
+    this.gravityEstimator.reset();
+    this.orientationFilter.reset();
   }
 
   /**
-   * Update low-pass filter alpha coefficient
+   * Replace the filter chain (clears filter history)
    * Useful for runtime tuning based on user feedback
    *
-   * @param alpha - New smoothing factor (0-1)
+   * @param filters - New filter stages, applied in order
+   * @throws Error if a filter stage is invalid for the sampling rate
    */
-  setFilterAlpha(alpha: number): void {
-    this.filter.setAlpha(alpha);
+  setFilters(filters: FilterStageConfig[]): void {
+    this.filter = new FilterChain(filters, this.filter.getSamplingRate());
   }
 
   /**
-   * Get current filter alpha value
+   * Get the current filter stages
    */
-  getFilterAlpha(): number {
-    return this.filter.getAlpha();
+  getFilters(): FilterStageConfig[] {
+    return this.filter.getStages();
   }
 
   /**
@@ -0,0 +1,114 @@
+/**
+ * Stillness Detector - Movement Stopped Events
+ * TrynerApp - Motion Engine
+ *
+ * Watches the variance of filteredMagnitude over a sliding window.
+ * When it stays at or below the threshold for stillnessDuration, the
+ * user has stopped moving (racked the bar, sat down, ended the set).
+ *
+ * Fires once per still period; any movement above the threshold re-arms it.
+ */
+
+import { ProcessedSensorData, RestDetectionConfig, MovementStoppedEvent } from '../types';
+
+export class StillnessDetector {
+  private config: RestDetectionConfig;
+
+  // Sliding window of filtered magnitudes and their timestamps
+  private magnitudes: number[] = [];
+  private timestamps: number[] = [];
+
+  private stillSince: number | null = null;
+  private hasFired: boolean = false;
+
+  /**
+   * @param config - Rest detection configuration
+   */
+  constructor(config: RestDetectionConfig) {
+    if (config.windowSize < 2) {
+      throw new Error('StillnessDetector: windowSize must be at least 2');
+    }
+    this.config = config;
+  }
+
+  /**
+   * Feed one processed sample
+   *
+   * @param data - Processed sensor sample
+   * @param repCount - Reps detected so far (copied into the event)
+   * @returns Event when the still period reaches stillnessDuration, otherwise null
+   */
+  update(data: ProcessedSensorData, repCount: number): MovementStoppedEvent | null {
+    if (!this.config.enabled) return null;
+
+    this.magnitudes.push(data.filteredMagnitude);
+    this.timestamps.push(data.timestamp);
+
+    if (this.magnitudes.length > this.config.windowSize) {
+      this.magnitudes.shift();
+      this.timestamps.shift();
+    }
+
+    // Not enough history to judge yet
+    if (this.magnitudes.length < this.config.windowSize) return null;
+
+    const variance = this.getVariance();
+
+    if (variance > this.config.varianceThreshold) {
+      this.stillSince = null;
+      this.hasFired = false;
+      return null;
+    }
+
+    // The whole window is still, so the period began at its first sample
+    if (this.stillSince === null) {
+      this.stillSince = this.timestamps[0];
+    }
+
+    if (!this.hasFired && data.timestamp - this.stillSince >= this.config.stillnessDuration) {
+      this.hasFired = true;
+      return {
+        timestamp: data.timestamp,
+        stillSince: this.stillSince,
+        variance,
+        repCount,
+      };
+    }
+
+    return null;
+  }
+
+  /**
+   * Variance of the current window (population)
+   */
+  private getVariance(): number {
+    const n = this.magnitudes.length;
+    const mean = this.magnitudes.reduce((sum, value) => sum + value, 0) / n;
+    return this.magnitudes.reduce((sum, value) => sum + (value - mean) ** 2, 0) / n;
+  }
+
+  /**
+   * Whether the user is currently still (may not have fired yet)
+   */
+  isStill(): boolean {
+    return this.stillSince !== null;
+  }
+
+  /**
+   * Clear the window and re-arm (new set, or resume after pause)
+   */
+  reset(): void {
+    this.magnitudes = [];
+    this.timestamps = [];
+    this.stillSince = null;
+    this.hasFired = false;
+  }
+
+  /**
+   * Update configuration (clears the window)
+   */
+  setConfig(config: RestDetectionConfig): void {
+    this.config = config;
+    this.reset();
+  }
+}
@@ -0,0 +1,156 @@
+/**
+ * Session Recorder - Full Raw Accelerometer Capture
+ * TrynerApp - Motion Engine
+ *
+ * Keeps every raw sample of a session (SensorAdapter only keeps the last
+ * 240) plus ground-truth rep marks, and produces a SensorRecording that
+ * can be serialized, shared and replayed with ReplaySensorAdapter.
+ *
+ * Usage:
+ * ```typescript
+ * const recorder = new SessionRecorder({
+ *   device: { platform: Platform.OS },
+ *   exerciseType: 'squat',
+ *   detectionConfig: DEFAULT_SQUAT_CONFIG,
+ * });
+ * engine.setRecorder(recorder);
+ * recorder.start();
+ * // ... workout, recorder.markRep(timestamp) when a real rep completes
+ * const json = serializeRecording(recorder.stop());
+ * ```
+ */
+
+import {
+  AccelerometerData,
+  BaseDetectionConfig,
+  RecordingDevice,
+  RecordingMetadata,
+  RepMark,
+  SensorRecording,
+} from '../types';
+import { RECORDING_FORMAT_VERSION } from './recordingFormat';
+
+interface SessionRecorderOptions {
+  device: RecordingDevice;
+  exerciseType: string;
+  detectionConfig: BaseDetectionConfig;
+  exerciseId?: string;
+  phonePlacement?: string;
+  notes?: string;
+}
+
+export class SessionRecorder {
+  private metadata: RecordingMetadata;
+  private samples: AccelerometerData[] = [];
+  private repMarks: RepMark[] = [];
+  private isActive: boolean = false;
+
+  /**
+   * @param options - Recording metadata (id and createdAt are generated)
+   */
+  constructor(options: SessionRecorderOptions) {
+    this.metadata = {
+      id: `recording-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      createdAt: Date.now(),
+      device: options.device,
+      samplingRate: options.detectionConfig.samplingRate,
+      exerciseType: options.exerciseType,
+      exerciseId: options.exerciseId,
+      detectionConfig: { ...options.detectionConfig },
+      phonePlacement: options.phonePlacement,
+      notes: options.notes,
+    };
+  }
+
+  /**
+   * Start (or continue) capturing samples
+   */
+  start(): void {
+    this.isActive = true;
+  }
+
+  /**
+   * Stop capturing and return the recording
+   */
+  stop(): SensorRecording {
+    this.isActive = false;
+    return this.getRecording();
+  }
+
+  /**
+   * Append a raw sample (ignored while not recording)
+   *
+   * Glitched readings are dropped, as the engine drops them, so the file
+   * stays parseable (JSON has no NaN). A non-finite rotation rate only
+   * loses the gyro values.
+   *
+   * @param data - Raw accelerometer reading (rotation rate kept if present)
+   */
+  record(data: AccelerometerData): void {
+    if (!this.isActive) return;
+    if (!isFinite(data.x) || !isFinite(data.y) || !isFinite(data.z) || !isFinite(data.timestamp)) return;
+
+    const sample: AccelerometerData = { x: data.x, y: data.y, z: data.z, timestamp: data.timestamp };
+    if (
+      data.gyroX !== undefined && data.gyroY !== undefined && data.gyroZ !== undefined &&
+      isFinite(data.gyroX) && isFinite(data.gyroY) && isFinite(data.gyroZ)
+    ) {
+      sample.gyroX = data.gyroX;
+      sample.gyroY = data.gyroY;
+      sample.gyroZ = data.gyroZ;
+    }
+    this.samples.push(sample);
+  }
+
+  /**
+   * Mark a ground-truth rep completion
+   *
+   * @param timestamp - Rep completion time (sample clock). Defaults to the last sample
+   * @param note - Optional label (e.g. 'shallow', 'paused')
+   * @returns The stored mark
+   */
+  markRep(timestamp?: number, note?: string): RepMark {
+    const lastSample = this.samples[this.samples.length - 1];
+    const mark: RepMark = {
+      repNumber: this.repMarks.length + 1,
+      timestamp: timestamp ?? (lastSample ? lastSample.timestamp : 0),
+      ...(note !== undefined && { note }),
+    };
+
+    this.repMarks.push(mark);
+    return mark;
+  }
+
+  /**
+   * Remove the last ground-truth mark (e.g. tapped by mistake)
+   */
+  undoLastMark(): void {
+    this.repMarks.pop();
+  }
+
+  /**
+   * Get a snapshot of the recording so far
+   */
+  getRecording(): SensorRecording {
+    return {
+      version: RECORDING_FORMAT_VERSION,
+      metadata: { ...this.metadata },
+      samples: [...this.samples],
+      repMarks: [...this.repMarks],
+    };
+  }
+
+  /**
+   * Check if samples are being captured
+   */
+  isRecording(): boolean {
+    return this.isActive;
+  }
+
+  /**
+   * Get number of captured samples
+   */
+  getSampleCount(): number {
+    return this.samples.length;
+  }
+}
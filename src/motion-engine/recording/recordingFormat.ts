@@ -0,0 +1,284 @@
+/**
+ * Recording Format - Serialize / Parse Sensor Recordings
+ * TrynerApp - Motion Engine
+ *
+ * Versioned JSON format for sharing raw sessions between team members.
+ * Samples are stored as compact [timestamp, x, y, z] tuples, extended to
+ * [timestamp, x, y, z, gyroX, gyroY, gyroZ] when the gyroscope was fused.
+ *
+ * File layout (version 2):
+ * {
+ *   "format": "trynerapp-sensor-recording",
+ *   "version": 2,
+ *   "metadata": { ...RecordingMetadata },
+ *   "repMarks": [{ "repNumber": 1, "timestamp": 2130 }],
+ *   "samples": [[0, 0.01, -0.98, 0.12], [16, 0.02, -0.97, 0.12, 0.01, 0.3, 0], ...]
+ * }
+ *
+ * Version 1 only had 4-value samples and still parses.
+ *
+ * Bump RECORDING_FORMAT_VERSION on any breaking layout change and teach
+ * parseRecording to upgrade older versions.
+ */
+
+import {
+  AccelerometerData,
+  RecordedDetectionConfig,
+  RecordingDevice,
+  RecordingMetadata,
+  RepMark,
+  SensorRecording,
+} from '../types';
+
+export const RECORDING_FORMAT_ID = 'trynerapp-sensor-recording';
+export const RECORDING_FORMAT_VERSION = 2;
+
+/**
+ * First format version that allows gyroscope values in samples
+ */
+const GYRO_SAMPLES_VERSION = 2;
+
+type SerializedSample =
+  | [number, number, number, number]
+  | [number, number, number, number, number, number, number];
+
+interface SerializedRecording {
+  format: typeof RECORDING_FORMAT_ID;
+  version: number;
+  metadata: RecordingMetadata;
+  repMarks: RepMark[];
+  samples: SerializedSample[];
+}
+
+/**
+ * Serialize a recording to a JSON string
+ *
+ * @param recording - Recording to write
+ * @returns JSON text in the current format version
+ */
+export function serializeRecording(recording: SensorRecording): string {
+  const serialized: SerializedRecording = {
+    format: RECORDING_FORMAT_ID,
+    version: RECORDING_FORMAT_VERSION,
+    metadata: recording.metadata,
+    repMarks: recording.repMarks,
+    samples: recording.samples.map(serializeSample),
+  };
+
+  return JSON.stringify(serialized);
+}
+
+function serializeSample(sample: AccelerometerData): SerializedSample {
+  const { timestamp, x, y, z, gyroX, gyroY, gyroZ } = sample;
+  if (gyroX === undefined || gyroY === undefined || gyroZ === undefined) {
+    return [timestamp, x, y, z];
+  }
+  return [timestamp, x, y, z, gyroX, gyroY, gyroZ];
+}
+
+/**
+ * Parse a recording from JSON text
+ *
+ * @param json - Text produced by serializeRecording
+ * @returns Parsed recording
+ * @throws Error if the text is not a valid recording or is from a newer version
+ */
+export function parseRecording(json: string): SensorRecording {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch (error) {
+    throw new Error(`parseRecording: Invalid JSON (${(error as Error).message})`);
+  }
+
+  if (!isObject(raw) || raw.format !== RECORDING_FORMAT_ID) {
+    throw new Error('parseRecording: Not a TrynerApp sensor recording');
+  }
+
+  const version = raw.version;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+    throw new Error(`parseRecording: Invalid format version '${String(version)}'`);
+  }
+  if (version > RECORDING_FORMAT_VERSION) {
+    throw new Error(
+      `parseRecording: Recording version ${version} is newer than supported version ${RECORDING_FORMAT_VERSION}`
+    );
+  }
+
+  return {
+    version,
+    metadata: parseMetadata(raw.metadata),
+    repMarks: parseRepMarks(raw.repMarks),
+    samples: parseSamples(raw.samples, version),
+  };
+}
+
+function parseMetadata(value: unknown): RecordingMetadata {
+  if (!isObject(value)) {
+    throw new Error('parseRecording: Missing metadata');
+  }
+
+  const { id, createdAt, samplingRate, exerciseType } = value;
+
+  if (typeof id !== 'string') {
+    throw new Error('parseRecording: metadata.id must be a string');
+  }
+  if (typeof createdAt !== 'number' || !isFinite(createdAt)) {
+    throw new Error('parseRecording: metadata.createdAt must be a number');
+  }
+  if (typeof samplingRate !== 'number' || !(samplingRate > 0) || !isFinite(samplingRate)) {
+    throw new Error('parseRecording: metadata.samplingRate must be a positive number');
+  }
+  if (typeof exerciseType !== 'string') {
+    throw new Error('parseRecording: metadata.exerciseType must be a string');
+  }
+
+  return {
+    id,
+    createdAt,
+    device: parseDevice(value.device),
+    samplingRate,
+    exerciseType,
+    exerciseId: optionalString(value.exerciseId, 'metadata.exerciseId'),
+    detectionConfig: parseDetectionConfig(value.detectionConfig),
+    phonePlacement: optionalString(value.phonePlacement, 'metadata.phonePlacement'),
+    notes: optionalString(value.notes, 'metadata.notes'),
+  };
+}
+
+function parseDevice(value: unknown): RecordingDevice {
+  if (!isObject(value) || typeof value.platform !== 'string') {
+    throw new Error('parseRecording: metadata.device.platform must be a string');
+  }
+
+  return {
+    platform: value.platform,
+    model: optionalString(value.model, 'metadata.device.model'),
+    osVersion: optionalString(value.osVersion, 'metadata.device.osVersion'),
+  };
+}
+
+/**
+ * Checks for the shared config fields; any other field is an exercise
+ * setting (threshold, flag) and must be a finite number or a boolean
+ */
+const DETECTION_CONFIG_CHECKS: Record<string, (value: unknown) => boolean> = {
+  minRepDuration: isNonNegativeNumber,
+  maxRepDuration: isNonNegativeNumber,
+  targetTempo: (value) =>
+    isObject(value) &&
+    isNonNegativeNumber(value.eccentric) &&
+    isNonNegativeNumber(value.pause) &&
+    isNonNegativeNumber(value.concentric),
+  filters: (value) => Array.isArray(value) && value.every(isFilterStage),
+  lowPassAlpha: (value) => isNonNegativeNumber(value) && value <= 1,
+  samplingRate: (value) => isNonNegativeNumber(value) && value > 0,
+  bufferSize: (value) => isNonNegativeNumber(value) && Number.isInteger(value),
+};
+
+/**
+ * Config fields are optional: recordings predate settings added later,
+ * which the evaluator fills in from the profile defaults
+ */
+function parseDetectionConfig(value: unknown): RecordedDetectionConfig {
+  if (!isObject(value)) {
+    throw new Error('parseRecording: metadata.detectionConfig must be an object');
+  }
+
+  const config: RecordedDetectionConfig = {};
+  for (const [key, field] of Object.entries(value)) {
+    const check = DETECTION_CONFIG_CHECKS[key] ?? isExerciseSetting;
+    if (!check(field)) {
+      throw new Error(`parseRecording: metadata.detectionConfig.${key} is invalid`);
+    }
+    config[key] = field;
+  }
+  return config;
+}
+
+function parseRepMarks(value: unknown): RepMark[] {
+  if (value === undefined) return [];
+  if (!Array.isArray(value)) {
+    throw new Error('parseRecording: repMarks must be an array');
+  }
+
+  return value.map((mark: unknown, index): RepMark => {
+    if (
+      !isObject(mark) ||
+      typeof mark.repNumber !== 'number' ||
+      typeof mark.timestamp !== 'number' ||
+      !isFinite(mark.timestamp)
+    ) {
+      throw new Error(`parseRecording: Invalid rep mark at index ${index}`);
+    }
+    return {
+      repNumber: mark.repNumber,
+      timestamp: mark.timestamp,
+      note: optionalString(mark.note, `repMarks[${index}].note`),
+    };
+  });
+}
+
+function parseSamples(value: unknown, version: number): AccelerometerData[] {
+  if (!Array.isArray(value)) {
+    throw new Error('parseRecording: samples must be an array');
+  }
+
+  const allowedLengths = version >= GYRO_SAMPLES_VERSION ? [4, 7] : [4];
+  let previousTimestamp = -Infinity;
+
+  return value.map((sample, index) => {
+    if (
+      !Array.isArray(sample) ||
+      !allowedLengths.includes(sample.length) ||
+      !sample.every((n) => typeof n === 'number' && isFinite(n))
+    ) {
+      throw new Error(`parseRecording: Invalid sample at index ${index}`);
+    }
+
+    const [timestamp, x, y, z, gyroX, gyroY, gyroZ] = sample as number[];
+    if (timestamp < previousTimestamp) {
+      throw new Error(`parseRecording: Sample ${index} is out of order`);
+    }
+    previousTimestamp = timestamp;
+
+    return sample.length === 7 ? { x, y, z, timestamp, gyroX, gyroY, gyroZ } : { x, y, z, timestamp };
+  });
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isNonNegativeNumber(value: unknown): value is number {
+  return typeof value === 'number' && isFinite(value) && value >= 0;
+}
+
+function isExerciseSetting(value: unknown): boolean {
+  return typeof value === 'boolean' || (typeof value === 'number' && isFinite(value));
+}
+
+function isFilterStage(value: unknown): boolean {
+  if (!isObject(value)) return false;
+  switch (value.type) {
+    case 'lowpass':
+    case 'highpass':
+    case 'ema':
+      return isNonNegativeNumber(value.cutoffHz);
+    case 'median':
+      return isNonNegativeNumber(value.windowSize) && Number.isInteger(value.windowSize);
+    default:
+      return false;
+  }
+}
+
+/**
+ * Absent optional text field → undefined; present but not a string → error
+ */
+function optionalString(value: unknown, field: string): string | undefined {
+  if (value === undefined) return undefined;
+  if (typeof value !== 'string') {
+    throw new Error(`parseRecording: ${field} must be a string`);
+  }
+  return value;
+}
@@ -0,0 +1,139 @@
+/**
+ * Consistency Tracker - Rep-to-Rep Repeatability
+ * TrynerApp - Motion Engine
+ *
+ * Remembers the recent reps of the current set and scores how closely
+ * each new rep matches them.
+ *
+ * Compared against the rolling baseline (mean of the last reps):
+ * - Depth: peak-to-valley magnitude change
+ * - Duration: total rep time
+ * - Rhythm: descend/ascend time ratio
+ *
+ * Usage:
+ * ```typescript
+ * const tracker = new ConsistencyTracker();
+ * const consistency = tracker.score(rep.features); // also adds the rep
+ * tracker.reset(); // new set
+ * ```
+ */
+
+import { RepFeatures } from '../types';
+
+interface RepSnapshot {
+  depth: number;
+  duration: number;
+  ratio: number;
+}
+
+/**
+ * Share of each deviation in the combined deviation (sum to 1.0)
+ */
+const DEVIATION_WEIGHTS = {
+  depth: 0.4,
+  duration: 0.3,
+  ratio: 0.3,
+} as const;
+
+export class ConsistencyTracker {
+  private history: RepSnapshot[] = [];
+  private windowSize: number;
+
+  /**
+   * @param windowSize - Previous reps in the baseline (default: 5)
+   */
+  constructor(windowSize: number = 5) {
+    this.windowSize = windowSize;
+  }
+
+  /**
+   * Score a rep against the baseline, then add it to the history
+   *
+   * The first rep of a set has nothing to compare to and scores 100.
+   *
+   * @param features - Features of the rep being scored
+   * @returns Score from 0-100
+   */
+  score(features: RepFeatures): number {
+    const snapshot = this.toSnapshot(features);
+    const score = this.history.length === 0 ? 100 : this.scoreDeviation(this.deviationFrom(snapshot));
+
+    this.history.push(snapshot);
+    if (this.history.length > this.windowSize) {
+      this.history.shift();
+    }
+
+    return score;
+  }
+
+  /**
+   * Forget previous reps (call at the start of each set)
+   */
+  reset(): void {
+    this.history = [];
+  }
+
+  /**
+   * Number of reps in the current baseline
+   */
+  getBaselineSize(): number {
+    return this.history.length;
+  }
+
+  private toSnapshot(features: RepFeatures): RepSnapshot {
+    return {
+      depth: features.magnitudeChange,
+      duration: features.totalDuration,
+      ratio: features.ascendDuration > 0 ? features.descendDuration / features.ascendDuration : 0,
+    };
+  }
+
+  /**
+   * Combined relative deviation from the baseline mean (0 = identical)
+   */
+  private deviationFrom(snapshot: RepSnapshot): number {
+    const count = this.history.length;
+    const baseline = this.history.reduce(
+      (acc, rep) => ({
+        depth: acc.depth + rep.depth / count,
+        duration: acc.duration + rep.duration / count,
+        ratio: acc.ratio + rep.ratio / count,
+      }),
+      { depth: 0, duration: 0, ratio: 0 }
+    );
+
+    return (
+      this.relativeDeviation(snapshot.depth, baseline.depth) * DEVIATION_WEIGHTS.depth +
+      this.relativeDeviation(snapshot.duration, baseline.duration) * DEVIATION_WEIGHTS.duration +
+      this.relativeDeviation(snapshot.ratio, baseline.ratio) * DEVIATION_WEIGHTS.ratio
+    );
+  }
+
+  /**
+   * |value - baseline| / baseline, capped at 1 (100% off)
+   */
+  private relativeDeviation(value: number, baseline: number): number {
+    if (!isFinite(value) || !isFinite(baseline)) return 1;
+    if (baseline <= 0) return value <= 0 ? 0 : 1;
+    return Math.min(1, Math.abs(value - baseline) / baseline);
+  }
+
+  /**
+   * Convert combined deviation to a score (0-100)
+   *
+   * Scoring:
+   * - ≤5% off: 100
+   * - ≤10% off: 90
+   * - ≤20% off: 75
+   * - ≤35% off: 50
+   * - Beyond: linear down to 0 at 100% off
+   */
+  private scoreDeviation(deviation: number): number {
+    if (deviation <= 0.05) return 100;
+    if (deviation <= 0.1) return 90;
+    if (deviation <= 0.2) return 75;
+    if (deviation <= 0.35) return 50;
+
+    return Math.max(0, (1 - deviation) * 77);
+  }
+}
@@ -5,9 +5,12 @@
  * Calculates overall quality score and technique rating from rep features.
  *
  * MVP Scoring:
- * - Simple weighted average of depth, stability, consistency
+ * - Simple weighted average of depth, stability, consistency, tempo
+ * - Consistency compares each rep to the previous reps of the set (ConsistencyTracker)
  * - Maps score to technique label (excellent, optimal, good, acceptable, poor)
  *
+ * Scoring is stateful within a set: call resetSet() when a new set starts.
+ *
  * Future enhancements:
  * - Historical comparison (consistency across sets)
  * - Personalized scoring based on user's baseline
@@ -16,21 +19,25 @@
 
 import { RepFeatures, RepScore } from '../types';
 import { getScoreTechnique } from '../core/constants';
+import { ConsistencyTracker } from './ConsistencyTracker';
 
-interface ScoringWeights {
-  depth: number;        // Default: 0.5 (most important)
-  stability: number;    // Default: 0.3
-  consistency: number;  // Default: 0.2
+export interface ScoringWeights {
+  depth: number;        // Default: 0.4 (most important)
+  stability: number;    // Default: 0.25
+  consistency: number;  // Default: 0.15
+  tempo: number;        // Default: 0.2
 }
 
-const DEFAULT_WEIGHTS: ScoringWeights = {
-  depth: 0.5,       // 50% - Range of motion is most critical
-  stability: 0.3,   // 30% - Movement control matters
-  consistency: 0.2, // 20% - Consistency across reps (MVP: simplified)
+export const DEFAULT_WEIGHTS: ScoringWeights = {
+  depth: 0.4,        // 40% - Range of motion is most critical
+  stability: 0.25,   // 25% - Movement control matters
+  consistency: 0.15, // 15% - Repeatability across the reps of a set
+  tempo: 0.2,        // 20% - Time under tension at the exercise's target tempo
 };
 
 export class ScoringEngine {
   private weights: ScoringWeights;
+  private consistencyTracker = new ConsistencyTracker();
 
   /**
    * @param weights - Optional custom scoring weights (must sum to 1.0)
@@ -43,6 +50,9 @@ export class ScoringEngine {
   /**
    * Calculate overall score from rep features
    *
+   * Call once per valid rep, in order: the rep becomes part of the
+   * baseline the next reps of the set are compared against.
+   *
    * @param features - Extracted rep features
    * @returns RepScore with overall score and technique label
    */
@@ -50,10 +60,11 @@ export class ScoringEngine {
     // Extract individual scores and sanitize to prevent NaN
     const depth = this.sanitizeScore(features.depthScore);
     const stability = this.sanitizeScore(features.stabilityScore);
-    const consistency = this.sanitizeScore(features.rangeScore); // MVP: using rangeScore as consistency
+    const consistency = this.sanitizeScore(this.consistencyTracker.score(features));
+    const tempo = this.sanitizeScore(features.tempoScore);
 
     // Calculate weighted average
-    const overall = this.calculateWeightedScore(depth, stability, consistency);
+    const overall = this.calculateWeightedScore(depth, stability, consistency, tempo);
 
     // Determine technique label
     const technique = getScoreTechnique(overall);
@@ -63,10 +74,18 @@ export class ScoringEngine {
       depth: Math.round(depth),
       stability: Math.round(stability),
       consistency: Math.round(consistency),
+      tempo: Math.round(tempo),
       technique,
     };
   }
 
+  /**
+   * Forget the previous reps (call when a new set starts)
+   */
+  resetSet(): void {
+    this.consistencyTracker.reset();
+  }
+
   /**
    * Sanitize score value to prevent NaN
    * @param score - Raw score value
@@ -85,17 +104,20 @@ export class ScoringEngine {
    * @param depth - Depth score (0-100)
    * @param stability - Stability score (0-100)
    * @param consistency - Consistency score (0-100)
+   * @param tempo - Tempo score (0-100)
    * @returns Weighted overall score (0-100)
    */
   private calculateWeightedScore(
     depth: number,
     stability: number,
-    consistency: number
+    consistency: number,
+    tempo: number
   ): number {
     return (
       depth * this.weights.depth +
       stability * this.weights.stability +
-      consistency * this.weights.consistency
+      consistency * this.weights.consistency +
+      tempo * this.weights.tempo
     );
   }
 
@@ -106,13 +128,14 @@ export class ScoringEngine {
    * @throws Error if weights don't sum to 1.0
    */
   private validateWeights(weights: ScoringWeights): void {
-    const sum = weights.depth + weights.stability + weights.consistency;
+    const sum = weights.depth + weights.stability + weights.consistency + weights.tempo;
     const tolerance = 0.001;
 
     if (Math.abs(sum - 1.0) > tolerance) {
       throw new Error(
         `ScoringEngine: Weights must sum to 1.0 (got ${sum}). ` +
-        `depth=${weights.depth}, stability=${weights.stability}, consistency=${weights.consistency}`
+        `depth=${weights.depth}, stability=${weights.stability}, ` +
+        `consistency=${weights.consistency}, tempo=${weights.tempo}`
       );
     }
   }
@@ -152,6 +175,7 @@ export class ScoringEngine {
         depth: 0,
         stability: 0,
         consistency: 0,
+        tempo: 0,
         technique: 'poor',
       };
     }
@@ -162,8 +186,9 @@ export class ScoringEngine {
         depth: acc.depth + (this.sanitizeScore(score.depth)),
         stability: acc.stability + (this.sanitizeScore(score.stability)),
         consistency: acc.consistency + (this.sanitizeScore(score.consistency)),
+        tempo: acc.tempo + (this.sanitizeScore(score.tempo)),
       }),
-      { overall: 0, depth: 0, stability: 0, consistency: 0 }
+      { overall: 0, depth: 0, stability: 0, consistency: 0, tempo: 0 }
     );
 
     const avg = {
@@ -171,6 +196,7 @@ export class ScoringEngine {
       depth: Math.round(sum.depth / scores.length),
       stability: Math.round(sum.stability / scores.length),
       consistency: Math.round(sum.consistency / scores.length),
+      tempo: Math.round(sum.tempo / scores.length),
     };
 
     return {
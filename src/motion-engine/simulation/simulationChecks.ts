@@ -0,0 +1,183 @@
+/**
+ * Simulation Checks - Deterministic Pipeline Checks on Synthetic Squats
+ * TrynerApp - Motion Engine
+ *
+ * Runs seeded synthetic recordings through the evaluator, with both the
+ * live (causal) and the zero-phase filter path, and through a MotionEngine
+ * replay, and reports which miss their expected recall, report reps
+ * that were never performed (e.g. one rep counted twice) or, where the
+ * scenario asks for it, don't count exactly the generated reps. Equal code gives
+ * equal results, so a failing check after a change points at that change.
+ *
+ * Scenarios cover what a real sensor stream does to the pipeline, e.g.
+ * bursts of non-finite readings, which must be dropped rather than crash
+ * the evaluation, poison the filters or stop the engine.
+ *
+ * Usage:
+ * ```typescript
+ * const failed = (await runSimulationChecks()).filter((check) => !check.passed);
+ * if (failed.length > 0) console.warn(failed);
+ * ```
+ */
+
+import { DetectedRep, SensorRecording } from '../types';
+import { MotionEngine } from '../core/MotionEngine';
+import { ReplaySensorAdapter } from '../adapters/ReplaySensorAdapter';
+import { detectorRegistry } from '../detectors/DetectorRegistry';
+import {
+  evaluateDetectedReps,
+  evaluateRecording,
+  RecordingEvaluation,
+} from '../evaluation/DetectionEvaluator';
+import { generateSquatRecording, SquatSignalOptions } from './squatSignalGenerator';
+
+// ============= TYPES =============
+
+export interface SimulationScenario {
+  name: string;
+  signal: Partial<SquatSignalOptions>;
+  minRecall: number;             // 0-1
+  maxFalsePositives: number;     // Detections matching no rep mark
+  exactCount: boolean;           // Detected reps must equal the generated reps
+}
+
+/**
+ * How a scenario's recording is run
+ * - causal: evaluator, filtered sample by sample
+ * - zero-phase: evaluator, filtered forward and backward
+ * - engine: replayed through a MotionEngine, as a live session
+ */
+export type SimulationPath = 'causal' | 'zero-phase' | 'engine';
+
+export interface SimulationCheckResult {
+  scenario: string;
+  path: SimulationPath;
+  detected: number;              // Reps detected (0 if the run threw)
+  expected: number;              // Reps in the recording
+  recall: number;                // 0-1 (0 if the run threw)
+  falsePositives: number;
+  passed: boolean;
+  error: string | null;          // Message if the run threw or the engine reported an error
+}
+
+// ============= SCENARIOS =============
+
+export const SIMULATION_SCENARIOS: SimulationScenario[] = [
+  {
+    name: 'clean',
+    signal: {},
+    minRecall: 1,
+    maxFalsePositives: 0,
+    exactCount: true,
+  },
+  {
+    name: 'glitch bursts',
+    signal: {
+      reps: 6,
+      glitchBursts: [
+        { at: 2500, count: 4 },    // Mid-rep
+        { at: 6000, count: 10 },
+        { at: 9000, count: 30 },   // Longer than the engine's error limit
+      ],
+      dropRate: 0.02,
+      seed: 7,
+    },
+    minRecall: 1,
+    maxFalsePositives: 0,
+    exactCount: true,
+  },
+];
+
+const SIMULATION_PATHS: SimulationPath[] = ['causal', 'zero-phase', 'engine'];
+
+// ============= CHECKS =============
+
+/**
+ * Run each scenario through every simulation path
+ *
+ * Never throws: an error is reported as a failed check.
+ *
+ * @param scenarios - Scenarios to run (default: SIMULATION_SCENARIOS)
+ * @returns One result per scenario and path
+ */
+export async function runSimulationChecks(
+  scenarios: SimulationScenario[] = SIMULATION_SCENARIOS
+): Promise<SimulationCheckResult[]> {
+  const results: SimulationCheckResult[] = [];
+
+  for (const scenario of scenarios) {
+    const recording = generateSquatRecording(scenario.signal);
+    const expected = recording.repMarks.length;
+
+    for (const path of SIMULATION_PATHS) {
+      try {
+        const { evaluation, error } = path === 'engine'
+          ? await replayThroughEngine(recording)
+          : { evaluation: evaluateRecording(recording, { zeroPhase: path === 'zero-phase' }), error: null };
+
+        results.push({
+          scenario: scenario.name,
+          path,
+          detected: evaluation.detected,
+          expected,
+          recall: evaluation.recall,
+          falsePositives: evaluation.falsePositives,
+          passed: error === null &&
+            evaluation.recall >= scenario.minRecall &&
+            evaluation.falsePositives <= scenario.maxFalsePositives &&
+            (!scenario.exactCount || evaluation.detected === expected),
+          error,
+        });
+      } catch (error) {
+        results.push({
+          scenario: scenario.name,
+          path,
+          detected: 0,
+          expected,
+          recall: 0,
+          falsePositives: 0,
+          passed: false,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Replay a recording through a MotionEngine with the profile's defaults
+ *
+ * @returns Evaluation of the reps the engine reported, and the first error it reported
+ */
+async function replayThroughEngine(
+  recording: SensorRecording
+): Promise<{ evaluation: RecordingEvaluation; error: string | null }> {
+  const exerciseType = recording.metadata.exerciseType;
+  const reps: DetectedRep[] = [];
+  let error: string | null = null;
+
+  const replay = new ReplaySensorAdapter(recording.samples, { speed: 0 });
+  const engine = new MotionEngine(
+    {
+      exerciseType,
+      detectionConfig: detectorRegistry.get(exerciseType).defaultConfig,
+      enableDebugMode: false,
+    },
+    {
+      onRepDetected: (rep) => reps.push(rep),
+      onStateChange: () => {},
+      onError: (engineError) => {
+        error ??= engineError.message;
+      },
+    },
+    replay
+  );
+
+  await engine.start();
+  await replay.waitForCompletion();
+  engine.stop();
+
+  return { evaluation: evaluateDetectedReps(recording, reps), error };
+}
@@ -0,0 +1,344 @@
+/**
+ * Squat Signal Generator - Synthetic Accelerometer Streams
+ * TrynerApp - Motion Engine
+ *
+ * Produces repeatable AccelerometerData streams for squats, with
+ * ground-truth rep marks, so the pipeline can be exercised without a device.
+ *
+ * Model:
+ * - Hip travels `depth` metres down and back up with a minimum-jerk
+ *   profile per phase (descent → bottom pause → ascent), standing between
+ *   reps. Acceleration starts and ends at zero, as in real movement, so
+ *   each phase is one dip and one hump of the magnitude
+ * - Specific force along the vertical = 1 G + vertical acceleration
+ * - The vertical is rotated into the device frame by the phone tilt
+ *   (upright portrait, no tilt: the reading is +1 G on Y)
+ * - Sensor imperfections are layered on top: bias, Gaussian noise,
+ *   dropped samples and non-finite glitch bursts
+ *
+ * All randomness comes from a seeded PRNG, so equal options give equal output.
+ *
+ * Usage:
+ * ```typescript
+ * const recording = generateSquatRecording({
+ *   reps: 8,
+ *   depth: 0.5,
+ *   noiseLevel: 0.03,
+ *   dropRate: 0.02,
+ *   seed: 42,
+ * });
+ * const report = evaluateRecordings([recording]);
+ * ```
+ */
+
+import { AccelerometerData, RepMark, SensorRecording } from '../types';
+import { DEFAULT_SQUAT_CONFIG, PHYSICS } from '../core/constants';
+import { RECORDING_FORMAT_VERSION } from '../recording/recordingFormat';
+
+// ============= TYPES =============
+
+type AxisValues = Omit<AccelerometerData, 'timestamp'>;
+
+export interface SquatTempo {
+  descent: number;       // ms
+  bottomPause: number;   // ms
+  ascent: number;        // ms
+}
+
+export interface SquatSignalOptions {
+  reps: number;
+
+  /** Hip travel in metres; an array sets each rep (last value repeats) */
+  depth: number | number[];
+
+  /** Phase durations; an array sets each rep (last value repeats) */
+  tempo: SquatTempo | SquatTempo[];
+
+  /** Standing time between reps (ms) */
+  restBetweenReps: number;
+
+  /** Extra standing time after specific reps (1-based), e.g. a mid-set break */
+  restPauses: Array<{ afterRep: number; duration: number }>;
+
+  /** Standing time before the first and after the last rep (ms) */
+  leadIn: number;
+  leadOut: number;
+
+  samplingRate: number;  // Hz
+  startTimestamp: number;
+
+  /** Standard deviation of Gaussian noise per axis (G) */
+  noiseLevel: number;
+
+  /** Constant per-axis offset (G) */
+  bias: AxisValues;
+
+  /** Phone tilt in degrees: pitch moves gravity from Y into Z, roll from Y into X */
+  tilt: { pitch: number; roll: number };
+
+  /** Probability (0-1) that any sample is missing from the stream */
+  dropRate: number;
+
+  /** Runs of NaN readings starting at an offset (ms from start) */
+  glitchBursts: Array<{ at: number; count: number }>;
+
+  seed: number;
+}
+
+export interface SquatSignal {
+  samples: AccelerometerData[];
+  repMarks: RepMark[];   // At the end of each ascent
+}
+
+export const DEFAULT_SQUAT_SIGNAL_OPTIONS: SquatSignalOptions = {
+  reps: 5,
+  depth: 0.45,
+  tempo: { descent: 800, bottomPause: 200, ascent: 700 },
+  restBetweenReps: 1000,
+  restPauses: [],
+  leadIn: 1500,
+  leadOut: 1500,
+  samplingRate: PHYSICS.SAMPLES_PER_SECOND,
+  startTimestamp: 0,
+  noiseLevel: 0.01,
+  bias: { x: 0, y: 0, z: 0 },
+  tilt: { pitch: 30, roll: 0 },
+  dropRate: 0,
+  glitchBursts: [],
+  seed: 1,
+};
+
+// ============= GENERATION =============
+
+/**
+ * Generate a synthetic squat stream
+ *
+ * @param options - Overrides for DEFAULT_SQUAT_SIGNAL_OPTIONS
+ * @returns Samples and ground-truth rep marks
+ * @throws Error if an option is out of range
+ */
+export function generateSquatSignal(options: Partial<SquatSignalOptions> = {}): SquatSignal {
+  const config: SquatSignalOptions = { ...DEFAULT_SQUAT_SIGNAL_OPTIONS, ...options };
+  validateOptions(config);
+
+  const random = createRandom(config.seed);
+  const up = verticalInDeviceFrame(config.tilt.pitch, config.tilt.roll);
+  const msPerSample = 1000 / config.samplingRate;
+
+  // Timeline of vertical acceleration segments (m/s², up positive)
+  const segments = buildTimeline(config);
+  const totalDuration = segments.reduce((sum, s) => sum + s.duration, 0);
+
+  const repMarks: RepMark[] = [];
+  let segmentEnd = 0;
+  for (const segment of segments) {
+    segmentEnd += segment.duration;
+    if (segment.completesRep) {
+      repMarks.push({
+        repNumber: repMarks.length + 1,
+        timestamp: config.startTimestamp + segmentEnd,
+      });
+    }
+  }
+
+  const samples: AccelerometerData[] = [];
+  let segmentIndex = 0;
+  let segmentStart = 0;
+  let elapsed = 0;
+
+  for (let i = 0; elapsed <= totalDuration; i++, elapsed = i * msPerSample) {
+    while (
+      segmentIndex < segments.length - 1 &&
+      elapsed >= segmentStart + segments[segmentIndex].duration
+    ) {
+      segmentStart += segments[segmentIndex].duration;
+      segmentIndex++;
+    }
+
+    // Draw every random number even for dropped samples, so changing
+    // dropRate doesn't reshuffle the noise of the samples that remain
+    const noise = { x: gaussian(random), y: gaussian(random), z: gaussian(random) };
+    const dropped = random() < config.dropRate;
+    if (dropped) continue;
+
+    const segment = segments[segmentIndex];
+    const verticalAcceleration = segment.acceleration(elapsed - segmentStart);
+    const specificForce = 1 + verticalAcceleration / PHYSICS.GRAVITY;
+    const timestamp = config.startTimestamp + elapsed;
+
+    if (isInGlitchBurst(config.glitchBursts, elapsed, msPerSample)) {
+      samples.push({ x: NaN, y: NaN, z: NaN, timestamp });
+      continue;
+    }
+
+    samples.push({
+      x: specificForce * up.x + config.bias.x + noise.x * config.noiseLevel,
+      y: specificForce * up.y + config.bias.y + noise.y * config.noiseLevel,
+      z: specificForce * up.z + config.bias.z + noise.z * config.noiseLevel,
+      timestamp,
+    });
+  }
+
+  return { samples, repMarks };
+}
+
+/**
+ * Generate a synthetic squat stream wrapped as a SensorRecording
+ *
+ * The recording can be serialized, replayed or passed to the evaluator
+ * like a real one.
+ *
+ * @param options - Overrides for DEFAULT_SQUAT_SIGNAL_OPTIONS
+ */
+export function generateSquatRecording(options: Partial<SquatSignalOptions> = {}): SensorRecording {
+  const config: SquatSignalOptions = { ...DEFAULT_SQUAT_SIGNAL_OPTIONS, ...options };
+  const { samples, repMarks } = generateSquatSignal(config);
+
+  return {
+    version: RECORDING_FORMAT_VERSION,
+    metadata: {
+      id: `synthetic-squat-${config.seed}`,
+      createdAt: config.startTimestamp,
+      device: { platform: 'synthetic' },
+      samplingRate: config.samplingRate,
+      exerciseType: 'squat',
+      detectionConfig: { ...DEFAULT_SQUAT_CONFIG, samplingRate: config.samplingRate },
+      notes: JSON.stringify(options),
+    },
+    samples,
+    repMarks,
+  };
+}
+
+// ============= TIMELINE =============
+
+interface Segment {
+  duration: number;                          // ms
+  acceleration: (t: number) => number;       // t in ms since segment start → m/s²
+  completesRep?: boolean;
+}
+
+/**
+ * Build standing / descent / pause / ascent segments for the whole set
+ */
+function buildTimeline(config: SquatSignalOptions): Segment[] {
+  const segments: Segment[] = [standing(config.leadIn)];
+
+  for (let rep = 1; rep <= config.reps; rep++) {
+    const depth = pickForRep(config.depth, rep);
+    const tempo = pickForRep(config.tempo, rep);
+
+    // Minimum-jerk displacement: y = ∓D(10τ³ - 15τ⁴ + 6τ⁵), τ = t/T
+    //   → a = ∓(D/T²)(60τ - 180τ² + 120τ³)
+    segments.push(minimumJerkMove(-depth, tempo.descent));
+    segments.push(standing(tempo.bottomPause));
+    segments.push({ ...minimumJerkMove(depth, tempo.ascent), completesRep: true });
+
+    if (rep < config.reps) {
+      const extraPause = config.restPauses
+        .filter((p) => p.afterRep === rep)
+        .reduce((sum, p) => sum + p.duration, 0);
+      segments.push(standing(config.restBetweenReps + extraPause));
+    }
+  }
+
+  segments.push(standing(config.leadOut));
+  return segments.filter((s) => s.duration > 0);
+}
+
+function standing(duration: number): Segment {
+  return { duration, acceleration: () => 0 };
+}
+
+/**
+ * Smooth move of `displacement` metres (negative = down) over `duration` ms
+ */
+function minimumJerkMove(displacement: number, duration: number): Segment {
+  const seconds = duration / 1000;
+  const scale = displacement / seconds ** 2;
+  return {
+    duration,
+    acceleration: (t) => {
+      const tau = t / duration;
+      return scale * (60 * tau - 180 * tau ** 2 + 120 * tau ** 3);
+    },
+  };
+}
+
+function pickForRep<T>(value: T | T[], rep: number): T {
+  if (!Array.isArray(value)) return value;
+  return value[Math.min(rep - 1, value.length - 1)];
+}
+
+// ============= SENSOR MODEL =============
+
+/**
+ * Unit "up" vector expressed in device axes for a given tilt
+ */
+function verticalInDeviceFrame(pitchDeg: number, rollDeg: number): AxisValues {
+  const pitch = (pitchDeg * Math.PI) / 180;
+  const roll = (rollDeg * Math.PI) / 180;
+  return {
+    x: -Math.sin(roll) * Math.cos(pitch),
+    y: Math.cos(roll) * Math.cos(pitch),
+    z: Math.sin(pitch),
+  };
+}
+
+function isInGlitchBurst(
+  bursts: SquatSignalOptions['glitchBursts'],
+  elapsed: number,
+  msPerSample: number
+): boolean {
+  return bursts.some(
+    (burst) => elapsed >= burst.at && elapsed < burst.at + burst.count * msPerSample
+  );
+}
+
+/**
+ * Mulberry32 - small seeded PRNG returning floats in [0, 1)
+ */
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Standard normal sample (Box-Muller)
+ */
+function gaussian(random: () => number): number {
+  const u = 1 - random(); // (0, 1] so log() stays finite
+  const v = random();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+}
+
+function validateOptions(config: SquatSignalOptions): void {
+  if (!Number.isInteger(config.reps) || config.reps < 0) {
+    throw new Error('generateSquatSignal: reps must be a non-negative integer');
+  }
+  if (config.samplingRate <= 0) {
+    throw new Error('generateSquatSignal: samplingRate must be positive');
+  }
+  if (config.dropRate < 0 || config.dropRate >= 1) {
+    throw new Error('generateSquatSignal: dropRate must be in [0, 1)');
+  }
+  if (config.noiseLevel < 0) {
+    throw new Error('generateSquatSignal: noiseLevel must be non-negative');
+  }
+
+  const tempos = Array.isArray(config.tempo) ? config.tempo : [config.tempo];
+  if (tempos.length === 0 || tempos.some((t) => t.descent <= 0 || t.ascent <= 0 || t.bottomPause < 0)) {
+    throw new Error('generateSquatSignal: tempo needs positive descent/ascent and a non-negative bottomPause');
+  }
+
+  const depths = Array.isArray(config.depth) ? config.depth : [config.depth];
+  if (depths.length === 0 || depths.some((d) => d < 0)) {
+    throw new Error('generateSquatSignal: depth must be non-negative');
+  }
+}
@@ -13,6 +13,11 @@ export interface AccelerometerData {
   y: number;
   z: number;
   timestamp: number;
+
+  // Rotation rate (rad/s), present only when the source fuses a gyroscope
+  gyroX?: number;
+  gyroY?: number;
+  gyroZ?: number;
 }
 
 /**
@@ -24,6 +29,18 @@ export interface ProcessedSensorData extends AccelerometerData {
   filteredY: number;
   filteredZ: number;
   filteredMagnitude: number;
+
+  // Gravity / linear acceleration split (orientation independent)
+  gravityX: number;               // Estimated gravity vector (G)
+  gravityY: number;
+  gravityZ: number;
+  verticalAcceleration: number;   // Linear acceleration along gravity (G, + = upward)
+  horizontalAcceleration: number; // Linear acceleration across gravity (G, ≥ 0)
+
+  // Fused orientation (see OrientationFilter)
+  pitch: number;                  // degrees, 0 = upright portrait
+  roll: number;                   // degrees, 0 = upright portrait
+  rotationRate: number | null;    // deg/s, null without gyroscope input
 }
 
 // ============= REP DETECTION =============
@@ -31,7 +48,14 @@ export interface ProcessedSensorData extends AccelerometerData {
 /**
  * Current phase of rep detection state machine
  */
-export type RepPhase = 'idle' | 'descending' | 'bottom' | 'ascending' | 'completed';
+export type RepPhase =
+  | 'idle'
+  | 'hang'          // Pull-up: settled at dead hang, ready to pull
+  | 'descending'
+  | 'bottom'
+  | 'ascending'
+  | 'top'           // Pull-up: chin over bar, before lowering
+  | 'completed';
 
 /**
  * Detected repetition with validation status
@@ -57,17 +81,26 @@ export interface RepFeatures {
   descendDuration: number;       // ms
   ascendDuration: number;        // ms
   totalDuration: number;         // ms
+  pauseDuration: number;         // ms held between the eccentric and concentric phases
+  concentricSpeed: number;       // G/s: magnitudeChange / ascendDuration (velocity proxy)
 
   // Movement Quality
   depthScore: number;            // 0-100: Full range of motion
   stabilityScore: number;        // 0-100: Movement smoothness
-  rangeScore: number;            // 0-100: Consistent range across reps
+  rangeScore: number;            // 0-100: Range of motion of this rep
+  tempoScore: number;            // 0-100: Adherence to the target tempo
 
   // Raw measurements
   peakMagnitude: number;         // G
   valleyMagnitude: number;       // G
   magnitudeChange: number;       // G (peak - valley)
-  zAxisChange: number;           // G (vertical drop, negative value)
+  zAxisChange: number;           // G (vertical drop, negative value; squats: swing of verticalAcceleration)
+
+  // Pull-up specific (only set by PullupDetector)
+  concentricDuration?: number;   // ms: dead hang → chin over bar
+  eccentricDuration?: number;    // ms: chin over bar → dead hang
+  topPauseDuration?: number;     // ms held at the top before lowering
+  hangPauseDuration?: number;    // ms held at dead hang before pulling
 }
 
 // ============= SCORING =============
@@ -79,7 +112,8 @@ export interface RepScore {
   overall: number;               // 0-100: Overall quality
   depth: number;                 // 0-100: Range of motion score
   stability: number;             // 0-100: Movement smoothness score
-  consistency: number;           // 0-100: Rep-to-rep consistency score
+  consistency: number;           // 0-100: Match with the previous reps of the set
+  tempo: number;                 // 0-100: Target tempo adherence score
   technique: 'excellent' | 'optimal' | 'good' | 'acceptable' | 'poor';
 }
 
@@ -105,40 +139,187 @@ export interface MotionEngineStatus {
 
 // ============= CONFIGURATION =============
 
+/**
+ * Exercises with a built-in detector profile
+ */
+export type ExerciseType = 'squat' | 'pushup' | 'pullup';
+
+/**
+ * Target tempo for one rep, as in "3-1-1" notation
+ * (eccentric - pause - concentric), in ms
+ */
+export interface TempoTarget {
+  eccentric: number;                   // Lowering phase (squat descent, pull-up lowering)
+  pause: number;                       // Hold between lowering and lifting (pull-up: at the top)
+  concentric: number;                  // Lifting phase (squat ascent, the pull)
+}
+
+/**
+ * Settings shared by every exercise detector
+ */
+export interface BaseDetectionConfig {
+  // Timing constraints
+  minRepDuration: number;              // Min rep time in ms
+  maxRepDuration: number;              // Max rep time in ms
+  targetTempo: TempoTarget;            // Tempo scored by RepFeatureExtractor
+
+  // Signal processing
+  filters?: FilterStageConfig[];       // Filter chain, applied in order - default: single-pole lowPassAlpha
+  lowPassAlpha?: number;               // Single-pole coefficient, used when filters is unset - default: 0.22
+  samplingRate: number;                // Target Hz - default: 60
+  bufferSize: number;                  // Samples to keep in buffer - default: 240
+}
+
+/**
+ * Butterworth biquad response
+ */
+export type BiquadFilterType = 'lowpass' | 'highpass';
+
+/**
+ * One stage of SignalProcessor's filter chain (applied to each axis)
+ * - lowpass / highpass: 2nd-order Butterworth, designed from cutoffHz and
+ *   the measured sampling rate
+ * - median: moving median over windowSize samples (spike removal)
+ * - ema: single-pole smoother (the lowPassAlpha filter), alpha derived
+ *   from cutoffHz and the measured sampling rate
+ */
+export type FilterStageConfig =
+  | { type: BiquadFilterType; cutoffHz: number }
+  | { type: 'median'; windowSize: number }
+  | { type: 'ema'; cutoffHz: number };
+
 /**
  * Squat detection configuration (HIGH SPECIFICITY)
  * All thresholds optimized for perfect technique only
  */
-export interface SquatDetectionConfig {
+export interface SquatDetectionConfig extends BaseDetectionConfig {
+  // Phase transitions
+  descentThreshold: number;            // G drop below standing peak to enter descending - default: 0.2
+  riseThreshold: number;               // G rise above valley to enter bottom - default: 0.15
+  adaptiveThresholds: boolean;         // Tune phase/depth thresholds to the set's rep amplitude and idle baseline - default: true
+
   // Depth thresholds
   minDepthThreshold: number;           // Minimum magnitude change (G) - default: 0.8
   minZAxisChange: number;              // Minimum vertical drop (G) - default: -0.6
 
-  // Timing constraints
-  minRepDuration: number;              // Min rep time in ms - default: 800
-  maxRepDuration: number;              // Max rep time in ms - default: 5000
-
   // Peak detection
-  peakProminence: number;              // Minimum peak prominence - default: 0.15
-  minPeakDistance: number;             // Min samples between peaks - default: 30
+  peakProminence: number;              // Min G of the bottom braking peak above standing - default: 0.05
 
   // Quality thresholds (for high specificity)
   minStabilityScore: number;           // Min stability to count rep (0-100) - default: 65
   minDepthScore: number;               // Min depth to count rep (0-100) - default: 70
+}
 
-  // Signal processing
-  lowPassAlpha: number;                // Low-pass filter coefficient - default: 0.22
-  samplingRate: number;                // Target Hz - default: 60
-  bufferSize: number;                  // Samples to keep in buffer - default: 240
+/**
+ * Push-up detection configuration
+ * Phone lies flat on the upper back or in a back/thigh pocket,
+ * so gravity sits mostly on the Z axis while in plank position
+ */
+export interface PushupDetectionConfig extends BaseDetectionConfig {
+  // Phase transitions
+  descentThreshold: number;            // G drop below standing peak to enter descending - default: 0.12
+  riseThreshold: number;               // G rise above valley to enter bottom - default: 0.08
+  maxPhaseDuration: number;            // Max ms in a single phase before reset - default: 4000
+
+  // Depth thresholds
+  minDepthThreshold: number;           // Minimum magnitude change (G) - default: 0.1
+
+  // Body position
+  minPlankAlignment: number;           // Min |Z| / magnitude during rep (0-1) - default: 0.7
+
+  // Quality thresholds
+  minStabilityScore: number;           // Min stability to count rep (0-100) - default: 0
+}
+
+/**
+ * Pull-up detection configuration
+ * Phone in a trouser pocket or strapped to the arm. Uses magnitude only,
+ * relative to the dead-hang baseline, so orientation does not matter
+ */
+export interface PullupDetectionConfig extends BaseDetectionConfig {
+  // Dead hang
+  stillBand: number;                   // G around baseline counted as still - default: 0.04
+  minHangSettle: number;               // ms still before a rep may start - default: 300
+  baselineAlpha: number;               // Hang baseline EMA coefficient (0-1) - default: 0.05
+
+  // Phase transitions
+  pullThreshold: number;               // G above baseline to start pulling/lowering - default: 0.1
+  minPeakVelocity: number;             // m/s reached before top/hang is accepted - default: 0.2
+  maxPhaseDuration: number;            // Max ms in a single phase before reset - default: 4000
+
+  // Depth thresholds
+  minDepthThreshold: number;           // Minimum magnitude change (G) - default: 0.15
+
+  // Quality thresholds
+  minStabilityScore: number;           // Min stability to count rep (0-100) - default: 0
 }
 
+/**
+ * Any exercise-specific detection configuration
+ */
+export type DetectionConfig = SquatDetectionConfig | PushupDetectionConfig | PullupDetectionConfig;
+
 /**
  * Motion Engine configuration
  */
 export interface MotionEngineConfig {
-  exerciseType: 'squat' | 'pushup' | 'pullup';  // MVP: only squat supported
-  detectionConfig: SquatDetectionConfig;
+  exerciseType: string;                // sensor_profile of a registered detector (see DetectorRegistry)
+  detectionConfig: BaseDetectionConfig; // Exercise-specific config for that profile
   enableDebugMode: boolean;
+  restDetection?: RestDetectionConfig; // Movement-stopped events - default: DEFAULT_REST_DETECTION_CONFIG
+  fatigueDetection?: FatigueDetectionConfig; // Velocity-loss events - default: DEFAULT_FATIGUE_DETECTION_CONFIG
+  sensorFusion?: SensorFusionMode;     // Extra rotation input for the live sensor - default: 'none'
+}
+
+/**
+ * Rotation input fused with the accelerometer
+ * - none: accelerometer only (orientation from tilt, no rotation rate)
+ * - gyroscope: raw gyroscope, fused by OrientationFilter
+ * - deviceMotion: rotation rate from the OS motion service
+ */
+export type SensorFusionMode = 'none' | 'gyroscope' | 'deviceMotion';
+
+/**
+ * Rest detection configuration
+ * "Still" means the variance of filteredMagnitude over the last
+ * windowSize samples stays at or below varianceThreshold
+ */
+export interface RestDetectionConfig {
+  enabled: boolean;
+  stillnessDuration: number;           // ms still before movement counts as stopped - default: 6000
+  varianceThreshold: number;           // Max filteredMagnitude variance (G²) while still - default: 0.0004
+  windowSize: number;                  // Samples in the variance window - default: 60
+}
+
+/**
+ * Fired once per still period, after stillnessDuration without movement
+ */
+export interface MovementStoppedEvent {
+  timestamp: number;                   // Sensor clock (ms) when the period reached stillnessDuration
+  stillSince: number;                  // Sensor clock (ms) when the still period began
+  variance: number;                    // Window variance at that moment (G²)
+  repCount: number;                    // Reps detected so far in this session
+}
+
+/**
+ * Fatigue (velocity loss) detection configuration
+ * Baseline = mean concentricSpeed of the first baselineReps reps of the set
+ */
+export interface FatigueDetectionConfig {
+  enabled: boolean;
+  velocityLossThreshold: number;       // % below baseline that fires the event - default: 20
+  baselineReps: number;                // Reps averaged into the baseline - default: 2
+}
+
+/**
+ * Fired once per set, on the first rep at or past velocityLossThreshold
+ */
+export interface VelocityLossEvent {
+  timestamp: number;                   // Sensor clock (ms) when the rep completed
+  repNumber: number;
+  concentricSpeed: number;             // G/s of this rep
+  baselineSpeed: number;               // G/s baseline from the first reps
+  velocityLoss: number;                // % below baseline (0-100)
 }
 
 // ============= CALLBACKS =============
@@ -150,6 +331,74 @@ export interface MotionEngineCallbacks {
   onRepDetected: (rep: DetectedRep) => void;
   onStateChange: (state: MotionEngineState) => void;
   onError: (error: Error) => void;
+  onMovementStopped?: (event: MovementStoppedEvent) => void;
+  onVelocityLoss?: (event: VelocityLossEvent) => void;
+}
+
+// ============= CALIBRATION =============
+
+/**
+ * One reference rep found in a calibration recording
+ * Measured on filteredMagnitude, relative to the standing baseline; the
+ * lowest point is the lowest one before the highest
+ */
+export interface CalibrationRep {
+  startTime: number;             // ms, movement leaves the still band
+  endTime: number;               // ms, movement back inside the still band
+  drop: number;                  // G below baseline at the lowest point
+  swing: number;                 // G from lowest to highest point
+  prominence: number;            // G above baseline at the highest point
+}
+
+// ============= RECORDING =============
+
+/**
+ * Device that captured a recording
+ */
+export interface RecordingDevice {
+  platform: string;              // 'ios' | 'android' | 'replay' ...
+  model?: string;
+  osVersion?: string;
+}
+
+/**
+ * Ground-truth repetition mark (set by a person, not the detector)
+ */
+export interface RepMark {
+  repNumber: number;
+  timestamp: number;             // ms, same clock as samples (rep completion)
+  note?: string;
+}
+
+/**
+ * Detection config stored with a recording: the exercise's full config
+ * when recorded, but settings added since may be missing
+ */
+export type RecordedDetectionConfig = Partial<BaseDetectionConfig> & Record<string, unknown>;
+
+/**
+ * Everything needed to reproduce a recorded session
+ */
+export interface RecordingMetadata {
+  id: string;
+  createdAt: number;             // Epoch ms
+  device: RecordingDevice;
+  samplingRate: number;          // Configured Hz
+  exerciseType: string;          // sensor_profile
+  exerciseId?: string;           // exercises.id
+  detectionConfig: RecordedDetectionConfig;
+  phonePlacement?: string;       // e.g. 'front-pocket', 'upper-back'
+  notes?: string;
+}
+
+/**
+ * Raw accelerometer session with metadata and ground-truth reps
+ */
+export interface SensorRecording {
+  version: number;               // RECORDING_FORMAT_VERSION when written
+  metadata: RecordingMetadata;
+  samples: AccelerometerData[];
+  repMarks: RepMark[];
 }
 
 // ============= PEAK DETECTION =============
@@ -17,6 +17,8 @@ export interface CircularProgressProps {
   color?: string;
   /** Label to display below value */
   label?: string;
+  /** Text shown in the center instead of the rounded value (e.g. "1:30") */
+  displayValue?: string;
   /** Animate on mount */
   animated?: boolean;
 }
@@ -27,6 +29,7 @@ export const CircularProgress: React.FC<CircularProgressProps> = ({
   strokeWidth = 12,
   color,
   label,
+  displayValue,
   animated = true,
 }) => {
   // Sanitize value to prevent NaN in CoreGraphics
@@ -121,7 +124,7 @@ export const CircularProgress: React.FC<CircularProgressProps> = ({
             },
           ]}
         >
-          {Math.round(safeValue)}
+          {displayValue ?? Math.round(safeValue)}
         </Animated.Text>
         <Text variant="caption" style={styles.labelText}>
           {scoreLabel}